@@ -1,3 +0,0 @@
-import { ethers } from 'ethers';
-
-export default function email-example-common() { return <div>Component</div>; }
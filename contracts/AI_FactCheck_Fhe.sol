@@ -1,64 +1,227 @@
 pragma solidity ^0.8.24;
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ReviewOutcome, IFactCheckReview, IFactCheckRegistry } from "./IFactCheckReview.sol";
 
-contract AIFactCheckFHE is SepoliaConfig {
+contract AIFactCheckFHE is SepoliaConfig, IFactCheckRegistry {
     using FHE for euint32;
     using FHE for ebool;
 
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant PROVIDER_ROLE = keccak256("PROVIDER_ROLE");
+    bytes32 public constant ANALYST_ROLE = keccak256("ANALYST_ROLE");
+    bytes32 public constant MODEL_MANAGER_ROLE = keccak256("MODEL_MANAGER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    // The owner always holds ADMIN_ROLE; ownership moves only through
+    // transferOwnership + acceptOwnership so a wrong address cannot take it.
     address public owner;
-    mapping(address => bool) public isProvider;
+    address public pendingOwner;
+    mapping(bytes32 => mapping(address => bool)) internal roleMembership;
+    mapping(bytes32 => address[]) internal roleMembers;
+    mapping(bytes32 => mapping(address => uint256)) internal roleMemberIndex; // 1-based
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
-    uint256 public cooldownSeconds;
+    uint256 public cooldownSeconds; // between submissions
+    uint256 public decryptionCooldownSeconds;
+
+    // Submission quota per fixed epoch window (epoch = block.timestamp / quotaEpochSeconds).
+    // A quota of 0 means unlimited.
+    uint256 public quotaEpochSeconds;
+    uint256 public defaultEpochQuota;
+    mapping(address => uint256) public quotaEpoch;
+    mapping(address => uint256) public epochSubmissions;
+
+    struct ProviderLimits {
+        bool overridden;
+        uint256 submissionCooldown;
+        uint256 decryptionCooldown;
+        uint256 epochQuota;
+    }
+    mapping(address => ProviderLimits) public providerLimits;
     bool public paused;
     uint256 public currentBatchId;
     bool public batchOpen;
 
+    struct BatchInfo {
+        uint256 openedAt;
+        uint256 deadline; // 0 = no auto-close
+        uint256 submittedCount;
+        uint256 processedCount;
+        uint256 flaggedCount;
+    }
+    mapping(uint256 => BatchInfo) public batches;
+    mapping(uint256 => uint256[]) internal batchPostIds;
+    mapping(uint256 => uint256) public postBatchId;
+
+    // Feature layout: [0] interaction score, [1] propagation velocity,
+    // [2] source risk (inverse credibility), [3] similarity to known rumors.
+    // Every feature is expected in the 0-100 range; larger values are clamped when scored.
+    uint256 public constant FEATURE_COUNT = 4;
+    uint32 public constant MAX_FEATURE = 100;
+    // Weights and bias are fixed-point with two decimals (100 == 1.00), capped at
+    // MAX_WEIGHT on upload so a score's sum always fits in a euint32.
+    uint32 public constant WEIGHT_SCALE = 100;
+    uint32 public constant MAX_WEIGHT = 10_000;
+    uint32 public constant MAX_SCORE = 100;
+
     struct PostData {
         euint32 contentHash;
-        euint32 interactionScore;
+        euint32[FEATURE_COUNT] features;
     }
     mapping(uint256 => PostData) public encryptedPosts;
     mapping(uint256 => euint32) public encryptedMisinfoScores;
     mapping(uint256 => bool) public postProcessed;
+    mapping(uint256 => uint32) public decryptedMisinfoScore;
+
+    enum PostStatus {
+        None,
+        Submitted,
+        Processing,
+        Decrypted,
+        VerdictRevealed
+    }
+    mapping(uint256 => PostStatus) public postStatus;
+
+    struct ScoringModel {
+        euint32[FEATURE_COUNT] weights;
+        euint32 bias;
+        address uploader;
+        uint256 uploadedAt;
+    }
+    mapping(uint256 => ScoringModel) internal scoringModels;
+    uint256 public modelVersionCount;
+    uint256 public activeModelVersion;
+    mapping(uint256 => uint256) public scoreModelVersion;
+
+    // Threshold-only path: the score is compared with an encrypted threshold and
+    // only the resulting flag is decrypted. The raw score stays encrypted until
+    // scoreUnlocker (the moderation DAO) calls unlockScore.
+    euint32 internal flagThreshold;
+    address public scoreUnlocker;
+    mapping(uint256 => ebool) public encryptedFlags;
+    mapping(uint256 => bool) public postFlagged;
+
+    // DAO review: a proposal is opened on reviewModule when a decrypted score
+    // reaches reviewThreshold or a threshold verdict comes back flagged.
+    IFactCheckReview public reviewModule;
+    uint32 public reviewThreshold;
+    mapping(uint256 => uint256) public reviewProposalId;
+    mapping(uint256 => ReviewOutcome) public reviewOutcome;
+    // Reviews opened on reviewModule that have no outcome yet
+    uint256 public openReviewCount;
+
+    enum DecryptionKind {
+        Score,
+        Verdict,
+        Batch,
+        Unlock
+    }
 
     struct DecryptionContext {
         uint256 batchId;
+        uint256 postId; // 0 for Batch requests, see requestPostIds
         bytes32 stateHash;
         bool processed;
+        DecryptionKind kind;
+        uint256 requestedAt;
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
+    // After this long without a callback, a provider may retry or cancel the request.
+    uint256 public decryptionTimeout;
+    // Post ids covered by a processBatch request, in ciphertext order.
+    mapping(uint256 => uint256[]) internal requestPostIds;
 
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
     event CooldownSet(uint256 oldCooldown, uint256 newCooldown);
+    event DecryptionCooldownSet(uint256 oldCooldown, uint256 newCooldown);
+    event QuotaSet(uint256 epochSeconds, uint256 defaultQuota);
+    event ProviderLimitsSet(
+        address indexed provider,
+        uint256 submissionCooldown,
+        uint256 decryptionCooldown,
+        uint256 epochQuota
+    );
+    event ProviderLimitsCleared(address indexed provider);
     event Paused(address account);
     event Unpaused(address account);
     event BatchOpened(uint256 batchId);
+    event BatchDeadlineSet(uint256 indexed batchId, uint256 deadline);
     event BatchClosed(uint256 batchId);
+    event BatchDecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, uint256 postCount);
+    event DecryptionTimeoutSet(uint256 oldTimeout, uint256 newTimeout);
+    event DecryptionTimedOut(uint256 indexed requestId, uint256 indexed batchId, uint256 postId);
+    event DecryptionRetried(uint256 indexed oldRequestId, uint256 indexed newRequestId);
+    event DecryptionCancelled(uint256 indexed requestId, uint256 indexed batchId, uint256 postId);
     event PostSubmitted(address indexed submitter, uint256 indexed batchId, uint256 indexed postId);
-    event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
+    event ScoringModelUploaded(uint256 indexed version, address indexed uploader);
+    event ScoringModelActivated(uint256 indexed previousVersion, uint256 indexed newVersion);
+    event PostScored(uint256 indexed postId, uint256 indexed modelVersion);
+    event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, uint256 indexed postId);
     event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 postId, uint32 misinfoScore);
+    event FlagThresholdSet(address indexed setter);
+    event ScoreUnlockerSet(address indexed previousUnlocker, address indexed newUnlocker);
+    event VerdictRequested(uint256 indexed requestId, uint256 indexed batchId, uint256 indexed postId);
+    event VerdictCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 postId, bool flagged);
+    event ScoreUnlocked(uint256 indexed postId, address indexed unlocker);
+    event ReviewModuleSet(address indexed previousModule, address indexed newModule);
+    event ReviewThresholdSet(uint32 oldThreshold, uint32 newThreshold);
+    event ReviewRequested(uint256 indexed postId, uint256 indexed proposalId);
+    event ReviewRequestFailed(uint256 indexed postId, bytes reason);
+    event ReviewOutcomeRecorded(uint256 indexed postId, ReviewOutcome outcome);
 
     error NotOwner();
-    error NotProvider();
+    error InvalidOwner();
+    error MissingRole(bytes32 role, address account);
+    error NotPendingOwner();
+    error CannotRevokeOwner();
     error PausedError();
     error CooldownActive();
+    error QuotaExceeded();
+    error InvalidEpoch();
     error BatchClosedError();
     error PostAlreadyProcessedError();
+    error PostAlreadySubmitted();
     error ReplayError();
     error StateMismatchError();
     error InvalidBatchState();
+    error UnknownPost();
+    error NoActiveModel();
+    error UnknownModelVersion();
+    error ThresholdNotSet();
+    error NotScoreUnlocker();
+    error ScoreNotLocked();
+    error NotReviewModule();
+    error ReviewNotOpen();
+    error ReviewNotNeeded();
+    error ReviewsStillOpen();
+    error InvalidDeadline();
+    error EmptyBatch();
+    error DecryptionNotPending();
+    error DecryptionNotTimedOut();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
         _;
     }
 
-    modifier onlyProvider() {
-        if (!isProvider[msg.sender]) revert NotProvider();
+    modifier onlyRole(bytes32 role) {
+        if (!roleMembership[role][msg.sender]) revert MissingRole(role, msg.sender);
+        _;
+    }
+
+    modifier onlyScoreUnlocker() {
+        if (msg.sender != scoreUnlocker) revert NotScoreUnlocker();
+        _;
+    }
+
+    modifier onlyReviewModule() {
+        if (msg.sender != address(reviewModule)) revert NotReviewModule();
         _;
     }
 
@@ -69,116 +232,428 @@ contract AIFactCheckFHE is SepoliaConfig {
 
     modifier respectCooldown() {
         uint256 currentTime = block.timestamp;
-        if (lastSubmissionTime[msg.sender] + cooldownSeconds > currentTime) {
+        if (lastSubmissionTime[msg.sender] + _submissionCooldownOf(msg.sender) > currentTime) {
             revert CooldownActive();
         }
         lastSubmissionTime[msg.sender] = currentTime;
+
+        uint256 epoch = currentTime / quotaEpochSeconds;
+        if (quotaEpoch[msg.sender] != epoch) {
+            quotaEpoch[msg.sender] = epoch;
+            epochSubmissions[msg.sender] = 0;
+        }
+        uint256 quota = _epochQuotaOf(msg.sender);
+        if (quota != 0 && epochSubmissions[msg.sender] >= quota) revert QuotaExceeded();
+        epochSubmissions[msg.sender]++;
         _;
     }
 
     modifier respectDecryptionCooldown() {
         uint256 currentTime = block.timestamp;
-        if (lastDecryptionRequestTime[msg.sender] + cooldownSeconds > currentTime) {
+        if (lastDecryptionRequestTime[msg.sender] + _decryptionCooldownOf(msg.sender) > currentTime) {
             revert CooldownActive();
         }
         lastDecryptionRequestTime[msg.sender] = currentTime;
         _;
     }
 
-    constructor() {
-        owner = msg.sender;
-        isProvider[owner] = true;
+    // The owner is passed in rather than taken from msg.sender so a CREATE2
+    // factory can deploy the contract without becoming its owner.
+    constructor(address initialOwner) {
+        if (initialOwner == address(0)) revert InvalidOwner();
+        owner = initialOwner;
+        _grantRole(ADMIN_ROLE, initialOwner);
+        _grantRole(PROVIDER_ROLE, initialOwner);
+        _grantRole(ANALYST_ROLE, initialOwner);
+        _grantRole(MODEL_MANAGER_ROLE, initialOwner);
+        _grantRole(PAUSER_ROLE, initialOwner);
         cooldownSeconds = 60; // Default 1 minute cooldown
-        emit ProviderAdded(owner);
+        decryptionCooldownSeconds = 60;
+        quotaEpochSeconds = 1 days;
+        decryptionTimeout = 1 days;
+        reviewThreshold = 70;
     }
 
     function transferOwnership(address newOwner) public onlyOwner {
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    function acceptOwnership() public {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
         address oldOwner = owner;
-        owner = newOwner;
-        emit OwnershipTransferred(oldOwner, newOwner);
+        owner = msg.sender;
+        pendingOwner = address(0);
+        _revokeRole(ADMIN_ROLE, oldOwner);
+        _grantRole(ADMIN_ROLE, msg.sender);
+        emit OwnershipTransferred(oldOwner, msg.sender);
     }
 
-    function addProvider(address provider) public onlyOwner {
-        if (!isProvider[provider]) {
-            isProvider[provider] = true;
-            emit ProviderAdded(provider);
-        }
+    function grantRole(bytes32 role, address account) public onlyRole(ADMIN_ROLE) {
+        _grantRole(role, account);
     }
 
-    function removeProvider(address provider) public onlyOwner {
-        if (isProvider[provider]) {
-            isProvider[provider] = false;
-            emit ProviderRemoved(provider);
-        }
+    function revokeRole(bytes32 role, address account) public onlyRole(ADMIN_ROLE) {
+        if (role == ADMIN_ROLE && account == owner) revert CannotRevokeOwner();
+        _revokeRole(role, account);
+    }
+
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return roleMembership[role][account];
+    }
+
+    function getRoleMemberCount(bytes32 role) external view returns (uint256) {
+        return roleMembers[role].length;
+    }
+
+    function getRoleMembers(bytes32 role) external view returns (address[] memory) {
+        return roleMembers[role];
+    }
+
+    function isProvider(address account) external view returns (bool) {
+        return roleMembership[PROVIDER_ROLE][account];
+    }
+
+    function addProvider(address provider) public onlyRole(ADMIN_ROLE) {
+        _grantRole(PROVIDER_ROLE, provider);
+    }
+
+    function removeProvider(address provider) public onlyRole(ADMIN_ROLE) {
+        _revokeRole(PROVIDER_ROLE, provider);
     }
 
-    function setCooldown(uint256 newCooldownSeconds) public onlyOwner {
+    function setCooldown(uint256 newCooldownSeconds) public onlyRole(ADMIN_ROLE) {
         uint256 oldCooldown = cooldownSeconds;
         cooldownSeconds = newCooldownSeconds;
         emit CooldownSet(oldCooldown, newCooldownSeconds);
     }
 
-    function pause() public onlyOwner whenNotPaused {
+    function setDecryptionCooldown(uint256 newCooldownSeconds) public onlyRole(ADMIN_ROLE) {
+        uint256 oldCooldown = decryptionCooldownSeconds;
+        decryptionCooldownSeconds = newCooldownSeconds;
+        emit DecryptionCooldownSet(oldCooldown, newCooldownSeconds);
+    }
+
+    function setQuota(uint256 epochSeconds, uint256 defaultQuota) public onlyRole(ADMIN_ROLE) {
+        if (epochSeconds == 0) revert InvalidEpoch();
+        quotaEpochSeconds = epochSeconds;
+        defaultEpochQuota = defaultQuota;
+        emit QuotaSet(epochSeconds, defaultQuota);
+    }
+
+    function setProviderLimits(
+        address provider,
+        uint256 submissionCooldown,
+        uint256 decryptionCooldown,
+        uint256 epochQuota
+    ) public onlyRole(ADMIN_ROLE) {
+        providerLimits[provider] = ProviderLimits(true, submissionCooldown, decryptionCooldown, epochQuota);
+        emit ProviderLimitsSet(provider, submissionCooldown, decryptionCooldown, epochQuota);
+    }
+
+    function clearProviderLimits(address provider) public onlyRole(ADMIN_ROLE) {
+        delete providerLimits[provider];
+        emit ProviderLimitsCleared(provider);
+    }
+
+    /// @notice Submissions `provider` can still make in the current epoch
+    /// (type(uint256).max when unlimited).
+    function remainingQuota(address provider) public view returns (uint256) {
+        uint256 quota = _epochQuotaOf(provider);
+        if (quota == 0) return type(uint256).max;
+        if (quotaEpoch[provider] != block.timestamp / quotaEpochSeconds) return quota;
+        uint256 used = epochSubmissions[provider];
+        return used >= quota ? 0 : quota - used;
+    }
+
+    /// @notice Earliest timestamp at which `provider` can submit, accounting for cooldown and quota.
+    function nextSubmissionTime(address provider) external view returns (uint256 next) {
+        next = lastSubmissionTime[provider] + _submissionCooldownOf(provider);
+        if (remainingQuota(provider) == 0) {
+            uint256 nextEpochStart = (block.timestamp / quotaEpochSeconds + 1) * quotaEpochSeconds;
+            if (nextEpochStart > next) next = nextEpochStart;
+        }
+    }
+
+    function nextDecryptionTime(address account) external view returns (uint256) {
+        return lastDecryptionRequestTime[account] + _decryptionCooldownOf(account);
+    }
+
+    function setDecryptionTimeout(uint256 newTimeout) public onlyRole(ADMIN_ROLE) {
+        uint256 oldTimeout = decryptionTimeout;
+        decryptionTimeout = newTimeout;
+        emit DecryptionTimeoutSet(oldTimeout, newTimeout);
+    }
+
+    function pause() public onlyRole(PAUSER_ROLE) whenNotPaused {
         paused = true;
         emit Paused(msg.sender);
     }
 
-    function unpause() public onlyOwner {
+    function unpause() public onlyRole(PAUSER_ROLE) {
         paused = false;
         emit Unpaused(msg.sender);
     }
 
-    function openBatch() public onlyOwner whenNotPaused {
-        if (batchOpen) revert InvalidBatchState();
-        currentBatchId++;
-        batchOpen = true;
-        emit BatchOpened(currentBatchId);
+    function openBatch() public onlyRole(ADMIN_ROLE) whenNotPaused {
+        _openBatch(0);
     }
 
-    function closeBatch() public onlyOwner whenNotPaused {
+    /// @notice Opens a batch that stops accepting posts at `deadline`.
+    function openBatchUntil(uint256 deadline) public onlyRole(ADMIN_ROLE) whenNotPaused {
+        if (deadline <= block.timestamp) revert InvalidDeadline();
+        _openBatch(deadline);
+    }
+
+    function closeBatch() public onlyRole(ADMIN_ROLE) whenNotPaused {
         if (!batchOpen) revert InvalidBatchState();
-        batchOpen = false;
-        emit BatchClosed(currentBatchId);
+        _closeBatch();
+    }
+
+    /// @notice Lets anyone sync `batchOpen` once the current batch deadline has passed.
+    function closeExpiredBatch() public {
+        if (!batchOpen || !_batchExpired()) revert InvalidBatchState();
+        _closeBatch();
+    }
+
+    function getBatchPosts(uint256 batchId) external view returns (uint256[] memory) {
+        return batchPostIds[batchId];
+    }
+
+    function getBatchSummary(
+        uint256 batchId
+    )
+        external
+        view
+        returns (uint256 submitted, uint256 processed, uint256 flagged, uint256 deadline, bool open)
+    {
+        BatchInfo storage info = batches[batchId];
+        open = batchId == currentBatchId && batchOpen && !_batchExpired();
+        return (info.submittedCount, info.processedCount, info.flaggedCount, info.deadline, open);
     }
 
+    function uploadScoringModel(
+        externalEuint32[FEATURE_COUNT] calldata encryptedWeights,
+        externalEuint32 encryptedBias,
+        bytes calldata inputProof
+    ) external onlyRole(MODEL_MANAGER_ROLE) returns (uint256 version) {
+        version = ++modelVersionCount;
+        ScoringModel storage model = scoringModels[version];
+        for (uint256 i = 0; i < FEATURE_COUNT; i++) {
+            euint32 weight = FHE.fromExternal(encryptedWeights[i], inputProof).min(MAX_WEIGHT);
+            FHE.allowThis(weight);
+            model.weights[i] = weight;
+        }
+        euint32 bias = FHE.fromExternal(encryptedBias, inputProof).min(MAX_WEIGHT);
+        FHE.allowThis(bias);
+        model.bias = bias;
+        model.uploader = msg.sender;
+        model.uploadedAt = block.timestamp;
+        emit ScoringModelUploaded(version, msg.sender);
+    }
+
+    function activateScoringModel(uint256 version) external onlyRole(MODEL_MANAGER_ROLE) {
+        if (version == 0 || version > modelVersionCount) revert UnknownModelVersion();
+        uint256 previousVersion = activeModelVersion;
+        activeModelVersion = version;
+        emit ScoringModelActivated(previousVersion, version);
+    }
+
+    function getScoringModel(
+        uint256 version
+    )
+        external
+        view
+        returns (euint32[FEATURE_COUNT] memory weights, euint32 bias, address uploader, uint256 uploadedAt)
+    {
+        if (version == 0 || version > modelVersionCount) revert UnknownModelVersion();
+        ScoringModel storage model = scoringModels[version];
+        return (model.weights, model.bias, model.uploader, model.uploadedAt);
+    }
+
+    function setFlagThreshold(
+        externalEuint32 encryptedThreshold,
+        bytes calldata inputProof
+    ) external onlyRole(MODEL_MANAGER_ROLE) {
+        euint32 threshold = FHE.fromExternal(encryptedThreshold, inputProof);
+        FHE.allowThis(threshold);
+        flagThreshold = threshold;
+        emit FlagThresholdSet(msg.sender);
+    }
+
+    function setScoreUnlocker(address newUnlocker) external onlyRole(ADMIN_ROLE) {
+        address previousUnlocker = scoreUnlocker;
+        scoreUnlocker = newUnlocker;
+        emit ScoreUnlockerSet(previousUnlocker, newUnlocker);
+    }
+
+    /// @notice Only the current module can record outcomes, so the module cannot change while
+    /// one of its reviews is open. With `asScoreUnlocker` the module also becomes the score
+    /// unlocker, so an upheld review can reveal a score that was only flagged through its verdict.
+    function setReviewModule(IFactCheckReview newModule, bool asScoreUnlocker) external onlyRole(ADMIN_ROLE) {
+        if (openReviewCount != 0) revert ReviewsStillOpen();
+        address previousModule = address(reviewModule);
+        reviewModule = newModule;
+        emit ReviewModuleSet(previousModule, address(newModule));
+
+        if (asScoreUnlocker) {
+            address previousUnlocker = scoreUnlocker;
+            scoreUnlocker = address(newModule);
+            emit ScoreUnlockerSet(previousUnlocker, address(newModule));
+        }
+    }
+
+    function setReviewThreshold(uint32 newThreshold) external onlyRole(ADMIN_ROLE) {
+        uint32 oldThreshold = reviewThreshold;
+        reviewThreshold = newThreshold;
+        emit ReviewThresholdSet(oldThreshold, newThreshold);
+    }
+
+    /// @notice Opens the review of a flagged post whose automatic review request failed.
+    function requestReview(uint256 postId) external onlyRole(ADMIN_ROLE) {
+        if (!postFlagged[postId] || address(reviewModule) == address(0) || reviewProposalId[postId] != 0) {
+            revert ReviewNotNeeded();
+        }
+        uint256 proposalId = reviewModule.openReview(postId);
+        reviewProposalId[postId] = proposalId;
+        openReviewCount++;
+        emit ReviewRequested(postId, proposalId);
+    }
+
+    function recordReviewOutcome(uint256 postId, ReviewOutcome outcome) external onlyReviewModule {
+        if (reviewProposalId[postId] == 0 || reviewOutcome[postId] != ReviewOutcome.None) revert ReviewNotOpen();
+        reviewOutcome[postId] = outcome;
+        openReviewCount--;
+        emit ReviewOutcomeRecorded(postId, outcome);
+    }
+
+    function getPostFeatures(uint256 postId) external view returns (euint32[FEATURE_COUNT] memory) {
+        return encryptedPosts[postId].features;
+    }
+
+    /// @notice Handles and proof come from the relayer SDK (`createEncryptedInput(contract, provider)`).
+    /// The submitter keeps ACL access to its own ciphertexts so it can user-decrypt them later.
     function submitPost(
-        euint32 encryptedContentHash,
-        euint32 encryptedInteractionScore
-    ) external onlyProvider whenNotPaused respectCooldown {
-        if (!batchOpen) revert BatchClosedError();
-        _initIfNeeded(encryptedContentHash);
-        _initIfNeeded(encryptedInteractionScore);
-
-        uint256 postId = uint256(keccak256(abi.encodePacked(msg.sender, currentBatchId, encryptedContentHash.toBytes32())));
-        encryptedPosts[postId] = PostData(encryptedContentHash, encryptedInteractionScore);
+        externalEuint32 encryptedContentHash,
+        externalEuint32[FEATURE_COUNT] calldata encryptedFeatures,
+        bytes calldata inputProof
+    ) external onlyRole(PROVIDER_ROLE) whenNotPaused respectCooldown {
+        if (!batchOpen || _batchExpired()) revert BatchClosedError();
+        euint32 contentHash = _fromExternalForSender(encryptedContentHash, inputProof);
+        euint32[FEATURE_COUNT] memory features;
+        for (uint256 i = 0; i < FEATURE_COUNT; i++) {
+            features[i] = _fromExternalForSender(encryptedFeatures[i], inputProof);
+        }
+
+        uint256 postId = uint256(keccak256(abi.encodePacked(msg.sender, currentBatchId, contentHash.toBytes32())));
+        // Resending the same handles and proof yields the same id; never overwrite a post
+        if (postStatus[postId] != PostStatus.None) revert PostAlreadySubmitted();
+        encryptedPosts[postId] = PostData(contentHash, features);
         postProcessed[postId] = false;
+        postStatus[postId] = PostStatus.Submitted;
+        postBatchId[postId] = currentBatchId;
+        batchPostIds[currentBatchId].push(postId);
+        batches[currentBatchId].submittedCount++;
         emit PostSubmitted(msg.sender, currentBatchId, postId);
     }
 
-    function processPost(uint256 postId) public onlyProvider whenNotPaused respectDecryptionCooldown {
-        if (postProcessed[postId]) revert PostAlreadyProcessedError();
-
-        PostData storage postData = encryptedPosts[postId];
-        _requireInitialized(postData.contentHash);
-        _requireInitialized(postData.interactionScore);
+    function processPost(uint256 postId) public onlyRole(ANALYST_ROLE) whenNotPaused respectDecryptionCooldown {
+        euint32 misinfoScoreEnc = _scorePost(postId);
+        _requestScoreDecryption(postId, misinfoScoreEnc, DecryptionKind.Score);
+    }
 
-        // Placeholder FHE logic: MisinfoScore = (ContentHash * InteractionScore) / 100
-        // This is a simplified representation. A real model would be more complex.
-        euint32 memory misinfoScoreEnc = postData.contentHash.fheMul(postData.interactionScore);
-        euint32 memory hundredEnc = FHE.asEuint32(100);
-        misinfoScoreEnc = misinfoScoreEnc.fheDiv(hundredEnc, 1); // Dummy division for illustration
+    function processPostVerdict(uint256 postId) public onlyRole(ANALYST_ROLE) whenNotPaused respectDecryptionCooldown {
+        if (!flagThreshold.isInitialized()) revert ThresholdNotSet();
+        euint32 misinfoScoreEnc = _scorePost(postId);
 
-        encryptedMisinfoScores[postId] = misinfoScoreEnc;
+        ebool flaggedEnc = misinfoScoreEnc.ge(flagThreshold);
+        FHE.allowThis(flaggedEnc);
+        encryptedFlags[postId] = flaggedEnc;
 
         bytes32[] memory cts = new bytes32[](1);
-        cts[0] = misinfoScoreEnc.toBytes32();
+        cts[0] = flaggedEnc.toBytes32();
 
-        bytes32 stateHash = _hashCiphertexts(cts);
-        uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
-        decryptionContexts[requestId] = DecryptionContext(currentBatchId, stateHash, false);
-        postProcessed[postId] = true; // Mark as processed to prevent re-submission for decryption
+        uint256 batchId = postBatchId[postId];
+        uint256 requestId = _sendDecryption(DecryptionKind.Verdict, batchId, postId, cts);
+        postStatus[postId] = PostStatus.Processing;
+
+        emit VerdictRequested(requestId, batchId, postId);
+    }
+
+    /// @notice Scores up to `maxPosts` still-unprocessed posts of a closed batch, in submission
+    /// order, and decrypts their scores with a single oracle request.
+    /// Each post costs about 14 FHE operations, so `maxPosts` has to keep the transaction within
+    /// the network's HCU limit; call again for the rest of the batch.
+    function processBatch(
+        uint256 batchId,
+        uint256 maxPosts
+    ) public onlyRole(ANALYST_ROLE) whenNotPaused respectDecryptionCooldown {
+        if (batchId == 0 || batchId > currentBatchId) revert InvalidBatchState();
+        if (batchId == currentBatchId && batchOpen && !_batchExpired()) revert InvalidBatchState();
+
+        uint256[] storage postIds = batchPostIds[batchId];
+        uint256[] memory pending = new uint256[](maxPosts < postIds.length ? maxPosts : postIds.length);
+        uint256 count;
+        for (uint256 i = 0; i < postIds.length && count < pending.length; i++) {
+            if (postStatus[postIds[i]] == PostStatus.Submitted) {
+                pending[count++] = postIds[i];
+            }
+        }
+        if (count == 0) revert EmptyBatch();
+
+        bytes32[] memory cts = new bytes32[](count);
+        for (uint256 i = 0; i < count; i++) {
+            cts[i] = _scorePost(pending[i]).toBytes32();
+            postStatus[pending[i]] = PostStatus.Processing;
+        }
+
+        uint256 requestId = _sendDecryption(DecryptionKind.Batch, batchId, 0, cts);
+        uint256[] storage requestPosts = requestPostIds[requestId];
+        for (uint256 i = 0; i < count; i++) {
+            requestPosts.push(pending[i]);
+        }
+
+        emit BatchDecryptionRequested(requestId, batchId, count);
+    }
+
+    function isScoreLocked(uint256 postId) external view returns (bool) {
+        return postStatus[postId] == PostStatus.VerdictRevealed;
+    }
 
-        emit DecryptionRequested(requestId, currentBatchId);
+    function unlockScore(uint256 postId) external onlyScoreUnlocker whenNotPaused {
+        if (postStatus[postId] != PostStatus.VerdictRevealed) revert ScoreNotLocked();
+        _requestScoreDecryption(postId, encryptedMisinfoScores[postId], DecryptionKind.Unlock);
+        emit ScoreUnlocked(postId, msg.sender);
+    }
+
+    /// @notice Re-sends a request the oracle has not answered within decryptionTimeout.
+    /// The old request id is retired, so a late callback for it reverts with ReplayError.
+    function retryDecryption(uint256 requestId) external onlyRole(PROVIDER_ROLE) whenNotPaused returns (uint256) {
+        DecryptionContext storage ctx = _expireDecryption(requestId);
+        bytes32[] memory cts = _contextCiphertexts(requestId, ctx);
+        uint256 newRequestId = _sendDecryption(ctx.kind, ctx.batchId, ctx.postId, cts);
+        if (ctx.kind == DecryptionKind.Batch) {
+            requestPostIds[newRequestId] = requestPostIds[requestId];
+        }
+        emit DecryptionRetried(requestId, newRequestId);
+        return newRequestId;
+    }
+
+    /// @notice Gives up on a timed-out request and puts its posts back to their pre-request state,
+    /// so they can be processed (or unlocked) again.
+    function cancelDecryption(uint256 requestId) external onlyRole(PROVIDER_ROLE) whenNotPaused {
+        DecryptionContext storage ctx = _expireDecryption(requestId);
+        if (ctx.kind == DecryptionKind.Unlock) {
+            postStatus[ctx.postId] = PostStatus.VerdictRevealed;
+        } else if (ctx.kind == DecryptionKind.Batch) {
+            uint256[] storage postIds = requestPostIds[requestId];
+            for (uint256 i = 0; i < postIds.length; i++) {
+                _resetPost(postIds[i]);
+            }
+        } else {
+            _resetPost(ctx.postId);
+        }
+        emit DecryptionCancelled(requestId, ctx.batchId, ctx.postId);
     }
 
     function myCallback(
@@ -188,54 +663,282 @@ contract AIFactCheckFHE is SepoliaConfig {
     ) public {
         DecryptionContext storage ctx = decryptionContexts[requestId];
         if (ctx.processed) revert ReplayError();
+        if (ctx.kind != DecryptionKind.Score && ctx.kind != DecryptionKind.Unlock) revert StateMismatchError();
 
         // Rebuild ciphertexts array in the exact same order as in processPost
-        // For this contract, it's always one ciphertext: the misinfoScoreEnc for the post
-        // The postId is not stored in the context, so we cannot directly retrieve the ciphertext from storage here.
-        // This design implies that the stateHash verification relies on the fact that the ciphertext
-        // itself hasn't changed IF it were to be re-calculated from its original inputs (which are still in storage).
-        // However, the current design of `processPost` means the ciphertext is generated and then immediately used for decryption request.
-        // The `stateHash` is a commitment to *that specific ciphertext value*.
-        // If the contract were to re-calculate the ciphertext for the same post, it *should* be identical.
-        // The `postProcessed` flag prevents `processPost` from being called again for the same post,
-        // thus ensuring the ciphertext associated with that post ID doesn't change.
-        // The `stateHash` check here ensures that the ciphertext being decrypted is the one that was committed to.
-        // Since we only have one ciphertext, and its value is what was committed in `stateHash`,
-        // we don't need to re-fetch it from storage to rebuild the `cts` array for the hash check.
-        // The check `currentHash != ctx.stateHash` would fail if the ciphertext value itself changed,
-        // which is prevented by `postProcessed`.
-
-        // The crucial part is that the `stateHash` was computed over the *actual ciphertext bytes*
-        // that were sent for decryption. The callback's state verification ensures that this contract
-        // is consistent with that state (i.e., it hasn't been re-entered or tampered with in a way that
-        // would invalidate the original request, and the request itself hasn't been replayed).
+        if (_hashCiphertexts(_contextCiphertexts(requestId, ctx)) != ctx.stateHash) revert StateMismatchError();
 
         // Verify proof
         FHE.checkSignatures(requestId, cleartexts, proof);
 
         // Decode cleartexts
-        // Expected: 1 value, euint32 (4 bytes)
-        if (cleartexts.length != 4) revert("Invalid cleartext length");
-        uint32 misinfoScore = uint32(uint256(bytes32(cleartexts)));
+        // Expected: 1 value, euint32 (abi-encoded as one 32-byte word)
+        if (cleartexts.length != 32) revert("Invalid cleartext length");
+        uint32 misinfoScore = abi.decode(cleartexts, (uint32));
 
         // Finalize
         ctx.processed = true;
-        emit DecryptionCompleted(requestId, ctx.batchId, /* postId is not directly available here */ 0, misinfoScore);
-        // Note: The postId is not part of the DecryptionContext. If it's needed in the event,
-        // the context struct or the callback mechanism would need adjustment.
-        // For this example, we emit 0 for postId.
+        _recordScore(requestId, ctx.batchId, ctx.postId, misinfoScore);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
-        return keccak256(abi.encode(cts, address(this)));
+    function verdictCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.processed) revert ReplayError();
+        if (ctx.kind != DecryptionKind.Verdict) revert StateMismatchError();
+
+        // Rebuild ciphertexts array in the exact same order as in processPostVerdict
+        if (_hashCiphertexts(_contextCiphertexts(requestId, ctx)) != ctx.stateHash) revert StateMismatchError();
+
+        // Verify proof
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        // Decode cleartexts
+        // Expected: 1 value, ebool (abi-encoded as one 32-byte word)
+        if (cleartexts.length != 32) revert("Invalid cleartext length");
+        bool flagged = abi.decode(cleartexts, (bool));
+
+        // Finalize
+        ctx.processed = true;
+        postStatus[ctx.postId] = PostStatus.VerdictRevealed;
+        emit VerdictCompleted(requestId, ctx.batchId, ctx.postId, flagged);
+
+        if (flagged) _flag(ctx.postId);
     }
 
-    function _initIfNeeded(euint32 val) internal {
-        if (!val.isInitialized()) {
-            val.initialize();
+    function batchCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.processed) revert ReplayError();
+        if (ctx.kind != DecryptionKind.Batch) revert StateMismatchError();
+
+        // Rebuild ciphertexts array in the exact same order as in processBatch
+        uint256[] storage postIds = requestPostIds[requestId];
+        if (_hashCiphertexts(_contextCiphertexts(requestId, ctx)) != ctx.stateHash) revert StateMismatchError();
+
+        // Verify proof
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        // Decode cleartexts
+        // Expected: one euint32 per post (abi-encoded as consecutive 32-byte words)
+        if (cleartexts.length != postIds.length * 32) revert("Invalid cleartext length");
+
+        // Finalize
+        ctx.processed = true;
+        for (uint256 i = 0; i < postIds.length; i++) {
+            uint256 word;
+            assembly {
+                word := mload(add(cleartexts, mul(add(i, 1), 32)))
+            }
+            _recordScore(requestId, ctx.batchId, postIds[i], uint32(word));
+        }
+    }
+
+    function _openBatch(uint256 deadline) internal {
+        if (batchOpen) {
+            // An expired batch is closed implicitly when the next one opens.
+            if (!_batchExpired()) revert InvalidBatchState();
+            _closeBatch();
+        }
+        currentBatchId++;
+        batchOpen = true;
+        batches[currentBatchId].openedAt = block.timestamp;
+        batches[currentBatchId].deadline = deadline;
+        emit BatchOpened(currentBatchId);
+        if (deadline != 0) emit BatchDeadlineSet(currentBatchId, deadline);
+    }
+
+    function _closeBatch() internal {
+        batchOpen = false;
+        emit BatchClosed(currentBatchId);
+    }
+
+    function _batchExpired() internal view returns (bool) {
+        uint256 deadline = batches[currentBatchId].deadline;
+        return deadline != 0 && block.timestamp >= deadline;
+    }
+
+    function _recordScore(uint256 requestId, uint256 batchId, uint256 postId, uint32 misinfoScore) internal {
+        decryptedMisinfoScore[postId] = misinfoScore;
+        postStatus[postId] = PostStatus.Decrypted;
+        emit DecryptionCompleted(requestId, batchId, postId, misinfoScore);
+
+        if (misinfoScore >= reviewThreshold) _flag(postId);
+    }
+
+    function _flag(uint256 postId) internal {
+        if (!postFlagged[postId]) {
+            postFlagged[postId] = true;
+            batches[postBatchId[postId]].flaggedCount++;
+        }
+        _openReview(postId);
+    }
+
+    // A post gets at most one review, even if its score is unlocked after a flagged verdict.
+    // This runs inside the oracle callbacks, so a reverting (or code-less) module is reported
+    // instead of reverting the callback and leaving the post Processing; see requestReview.
+    function _openReview(uint256 postId) internal {
+        if (address(reviewModule) == address(0) || reviewProposalId[postId] != 0) return;
+        if (address(reviewModule).code.length == 0) {
+            emit ReviewRequestFailed(postId, "");
+            return;
+        }
+        try reviewModule.openReview(postId) returns (uint256 proposalId) {
+            reviewProposalId[postId] = proposalId;
+            openReviewCount++;
+            emit ReviewRequested(postId, proposalId);
+        } catch (bytes memory reason) {
+            emit ReviewRequestFailed(postId, reason);
         }
     }
 
+    function _scorePost(uint256 postId) internal returns (euint32 misinfoScoreEnc) {
+        if (postStatus[postId] == PostStatus.None) revert UnknownPost();
+        if (postProcessed[postId]) revert PostAlreadyProcessedError();
+        if (activeModelVersion == 0) revert NoActiveModel();
+
+        misinfoScoreEnc = _score(encryptedPosts[postId], scoringModels[activeModelVersion]);
+        FHE.allowThis(misinfoScoreEnc);
+
+        encryptedMisinfoScores[postId] = misinfoScoreEnc;
+        scoreModelVersion[postId] = activeModelVersion;
+        postProcessed[postId] = true; // Mark as processed to prevent re-submission for decryption
+        batches[postBatchId[postId]].processedCount++;
+        emit PostScored(postId, activeModelVersion);
+    }
+
+    function _requestScoreDecryption(uint256 postId, euint32 misinfoScoreEnc, DecryptionKind kind) internal {
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = misinfoScoreEnc.toBytes32();
+
+        uint256 batchId = postBatchId[postId];
+        uint256 requestId = _sendDecryption(kind, batchId, postId, cts);
+        postStatus[postId] = PostStatus.Processing;
+
+        emit DecryptionRequested(requestId, batchId, postId);
+    }
+
+    function _sendDecryption(
+        DecryptionKind kind,
+        uint256 batchId,
+        uint256 postId,
+        bytes32[] memory cts
+    ) internal returns (uint256 requestId) {
+        bytes4 selector = this.myCallback.selector;
+        if (kind == DecryptionKind.Verdict) selector = this.verdictCallback.selector;
+        else if (kind == DecryptionKind.Batch) selector = this.batchCallback.selector;
+
+        requestId = FHE.requestDecryption(cts, selector);
+        decryptionContexts[requestId] = DecryptionContext(
+            batchId,
+            postId,
+            _hashCiphertexts(cts),
+            false,
+            kind,
+            block.timestamp
+        );
+    }
+
+    function _contextCiphertexts(
+        uint256 requestId,
+        DecryptionContext storage ctx
+    ) internal view returns (bytes32[] memory cts) {
+        if (ctx.kind == DecryptionKind.Batch) {
+            uint256[] storage postIds = requestPostIds[requestId];
+            cts = new bytes32[](postIds.length);
+            for (uint256 i = 0; i < postIds.length; i++) {
+                cts[i] = encryptedMisinfoScores[postIds[i]].toBytes32();
+            }
+        } else {
+            cts = new bytes32[](1);
+            cts[0] = ctx.kind == DecryptionKind.Verdict
+                ? encryptedFlags[ctx.postId].toBytes32()
+                : encryptedMisinfoScores[ctx.postId].toBytes32();
+        }
+    }
+
+    function _expireDecryption(uint256 requestId) internal returns (DecryptionContext storage ctx) {
+        ctx = decryptionContexts[requestId];
+        if (ctx.requestedAt == 0 || ctx.processed) revert DecryptionNotPending();
+        if (block.timestamp < ctx.requestedAt + decryptionTimeout) revert DecryptionNotTimedOut();
+        ctx.processed = true;
+        emit DecryptionTimedOut(requestId, ctx.batchId, ctx.postId);
+    }
+
+    function _resetPost(uint256 postId) internal {
+        postProcessed[postId] = false;
+        postStatus[postId] = PostStatus.Submitted;
+        batches[postBatchId[postId]].processedCount--;
+    }
+
+    // MisinfoScore = min((bias + sum(weight_i * min(feature_i, MAX_FEATURE))) / WEIGHT_SCALE, MAX_SCORE)
+    // With weights and bias capped at MAX_WEIGHT the sum stays below
+    // MAX_WEIGHT * (FEATURE_COUNT * MAX_FEATURE + 1), about 4M, so it cannot wrap.
+    // Scores are unsigned, so the lower clamp at 0 is implicit.
+    function _score(PostData storage postData, ScoringModel storage model) internal returns (euint32) {
+        euint32 acc = model.bias;
+        for (uint256 i = 0; i < FEATURE_COUNT; i++) {
+            _requireInitialized(postData.features[i]);
+            acc = acc.add(postData.features[i].min(MAX_FEATURE).mul(model.weights[i]));
+        }
+        return acc.div(WEIGHT_SCALE).min(MAX_SCORE);
+    }
+
+    function _fromExternalForSender(externalEuint32 handle, bytes calldata inputProof) internal returns (euint32 value) {
+        value = FHE.fromExternal(handle, inputProof);
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+    }
+
+    function _submissionCooldownOf(address account) internal view returns (uint256) {
+        ProviderLimits storage limits = providerLimits[account];
+        return limits.overridden ? limits.submissionCooldown : cooldownSeconds;
+    }
+
+    function _decryptionCooldownOf(address account) internal view returns (uint256) {
+        ProviderLimits storage limits = providerLimits[account];
+        return limits.overridden ? limits.decryptionCooldown : decryptionCooldownSeconds;
+    }
+
+    function _epochQuotaOf(address account) internal view returns (uint256) {
+        ProviderLimits storage limits = providerLimits[account];
+        return limits.overridden ? limits.epochQuota : defaultEpochQuota;
+    }
+
+    function _grantRole(bytes32 role, address account) internal {
+        if (roleMembership[role][account]) return;
+        roleMembership[role][account] = true;
+        roleMembers[role].push(account);
+        roleMemberIndex[role][account] = roleMembers[role].length;
+        emit RoleGranted(role, account, msg.sender);
+        if (role == PROVIDER_ROLE) emit ProviderAdded(account);
+    }
+
+    function _revokeRole(bytes32 role, address account) internal {
+        if (!roleMembership[role][account]) return;
+        // Swap-and-pop keeps the member list dense for enumeration.
+        address[] storage members = roleMembers[role];
+        uint256 index = roleMemberIndex[role][account] - 1;
+        address last = members[members.length - 1];
+        members[index] = last;
+        roleMemberIndex[role][last] = index + 1;
+        members.pop();
+        delete roleMemberIndex[role][account];
+        roleMembership[role][account] = false;
+        emit RoleRevoked(role, account, msg.sender);
+        if (role == PROVIDER_ROLE) emit ProviderRemoved(account);
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
+    }
+
     function _requireInitialized(euint32 val) internal pure {
         if (!val.isInitialized()) {
             revert("Ciphertext not initialized");
@@ -0,0 +1,398 @@
+pragma solidity ^0.8.24;
+import { FHE, euint8, euint128, ebool, externalEuint8 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ReviewOutcome, IFactCheckReview, IFactCheckRegistry } from "./IFactCheckReview.sol";
+
+/// @notice Minimal ERC-5805 view used for token-weighted voting.
+interface IVotes {
+    function getPastVotes(address account, uint256 timepoint) external view returns (uint256);
+}
+
+contract FactCheckReview is SepoliaConfig, IFactCheckReview {
+    using FHE for euint8;
+    using FHE for euint128;
+
+    address public owner;
+    IFactCheckRegistry public immutable factCheck;
+
+    // When votingToken is set, weight is the voter's delegated votes at the
+    // proposal snapshot block. Otherwise the owner-managed allowlist weight is used.
+    IVotes public votingToken;
+    mapping(address => uint256) public voterWeight;
+    uint256 public quorum;
+    uint256 public votingPeriod;
+    // Applies to proposals opened after it is set. Private proposals only take
+    // encrypted ballots and are finalized through tally decryption.
+    bool public privateBallots;
+
+    enum VoteChoice {
+        Uphold,
+        Overturn,
+        Escalate
+    }
+
+    struct Proposal {
+        uint256 postId;
+        uint256 snapshotBlock;
+        uint256 startTime;
+        uint256 endTime;
+        uint256 upholdWeight;
+        uint256 overturnWeight;
+        uint256 escalateWeight;
+        bool finalized;
+        ReviewOutcome outcome;
+        bool privateBallot;
+    }
+
+    // euint128 holds 18-decimal token votes: up to about 3.4e20 whole tokens per proposal
+    struct EncryptedTally {
+        euint128 uphold;
+        euint128 overturn;
+        euint128 escalate;
+    }
+
+    struct DecryptionContext {
+        uint256 proposalId;
+        bytes32 stateHash;
+        bool processed;
+        uint256 requestedAt;
+    }
+    uint256 public proposalCount;
+    mapping(uint256 => Proposal) public proposals;
+    mapping(uint256 => uint256) public proposalOfPost;
+    mapping(uint256 => mapping(address => bool)) public hasVoted;
+    mapping(uint256 => EncryptedTally) internal encryptedTallies;
+    // Sum of the weights cast on a private proposal. Weights are public, and this total
+    // bounds every option's tally, so a ballot that could wrap one is refused up front.
+    mapping(uint256 => uint256) public encryptedWeightCast;
+    mapping(uint256 => uint256) public tallyRequestId;
+    mapping(uint256 => DecryptionContext) public decryptionContexts;
+    // After this long without a tally callback, anyone may retry the request and the owner may cancel it.
+    uint256 public tallyTimeout;
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event VoterWeightSet(address indexed voter, uint256 weight);
+    event VotingTokenSet(address indexed token);
+    event QuorumSet(uint256 oldQuorum, uint256 newQuorum);
+    event VotingPeriodSet(uint256 oldPeriod, uint256 newPeriod);
+    event ReviewOpened(uint256 indexed proposalId, uint256 indexed postId, uint256 endTime);
+    event VoteCast(uint256 indexed proposalId, address indexed voter, VoteChoice choice, uint256 weight);
+    event PrivateBallotsSet(bool enabled);
+    event EncryptedVoteCast(uint256 indexed proposalId, address indexed voter, uint256 weight);
+    event TallyRequested(uint256 indexed proposalId, uint256 indexed requestId);
+    event TallyDecrypted(
+        uint256 indexed proposalId,
+        uint128 upholdWeight,
+        uint128 overturnWeight,
+        uint128 escalateWeight
+    );
+    event TallyTimeoutSet(uint256 oldTimeout, uint256 newTimeout);
+    event TallyTimedOut(uint256 indexed proposalId, uint256 indexed requestId);
+    event TallyRetried(uint256 indexed proposalId, uint256 indexed oldRequestId, uint256 indexed newRequestId);
+    event TallyCancelled(uint256 indexed proposalId, uint256 indexed requestId);
+    event ReviewFinalized(uint256 indexed proposalId, uint256 indexed postId, ReviewOutcome outcome);
+    event ScoreUnlockRequested(uint256 indexed proposalId, uint256 indexed postId);
+    event ScoreUnlockFailed(uint256 indexed proposalId, uint256 indexed postId, bytes reason);
+
+    error NotOwner();
+    error NotFactCheck();
+    error ReviewAlreadyOpen();
+    error UnknownProposal();
+    error VotingClosed();
+    error VotingStillOpen();
+    error AlreadyVoted();
+    error NoVotingWeight();
+    error AlreadyFinalized();
+    error WeightTooLarge();
+    error PrivateBallotRequired();
+    error PublicBallotRequired();
+    error TallyAlreadyRequested();
+    error ReplayError();
+    error StateMismatchError();
+    error NotUpheld();
+    error TallyNotPending();
+    error TallyNotTimedOut();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier onlyFactCheck() {
+        if (msg.sender != address(factCheck)) revert NotFactCheck();
+        _;
+    }
+
+    constructor(IFactCheckRegistry factCheck_, uint256 quorum_, uint256 votingPeriod_) {
+        owner = msg.sender;
+        factCheck = factCheck_;
+        quorum = quorum_;
+        votingPeriod = votingPeriod_;
+        tallyTimeout = 1 days;
+    }
+
+    function transferOwnership(address newOwner) public onlyOwner {
+        address oldOwner = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(oldOwner, newOwner);
+    }
+
+    function setVoterWeight(address voter, uint256 weight) public onlyOwner {
+        voterWeight[voter] = weight;
+        emit VoterWeightSet(voter, weight);
+    }
+
+    function setVotingToken(IVotes token) public onlyOwner {
+        votingToken = token;
+        emit VotingTokenSet(address(token));
+    }
+
+    function setQuorum(uint256 newQuorum) public onlyOwner {
+        uint256 oldQuorum = quorum;
+        quorum = newQuorum;
+        emit QuorumSet(oldQuorum, newQuorum);
+    }
+
+    function setVotingPeriod(uint256 newPeriod) public onlyOwner {
+        uint256 oldPeriod = votingPeriod;
+        votingPeriod = newPeriod;
+        emit VotingPeriodSet(oldPeriod, newPeriod);
+    }
+
+    function setTallyTimeout(uint256 newTimeout) public onlyOwner {
+        uint256 oldTimeout = tallyTimeout;
+        tallyTimeout = newTimeout;
+        emit TallyTimeoutSet(oldTimeout, newTimeout);
+    }
+
+    function setPrivateBallots(bool enabled) public onlyOwner {
+        privateBallots = enabled;
+        emit PrivateBallotsSet(enabled);
+    }
+
+    function openReview(uint256 postId) external onlyFactCheck returns (uint256 proposalId) {
+        if (proposalOfPost[postId] != 0) revert ReviewAlreadyOpen();
+        proposalId = ++proposalCount;
+        Proposal storage proposal = proposals[proposalId];
+        proposal.postId = postId;
+        proposal.snapshotBlock = block.number - 1;
+        proposal.startTime = block.timestamp;
+        proposal.endTime = block.timestamp + votingPeriod;
+        proposalOfPost[postId] = proposalId;
+        if (privateBallots) {
+            proposal.privateBallot = true;
+            EncryptedTally storage tally = encryptedTallies[proposalId];
+            tally.uphold = FHE.allowThis(FHE.asEuint128(0));
+            tally.overturn = FHE.allowThis(FHE.asEuint128(0));
+            tally.escalate = FHE.allowThis(FHE.asEuint128(0));
+        }
+        emit ReviewOpened(proposalId, postId, proposal.endTime);
+    }
+
+    function castVote(uint256 proposalId, VoteChoice choice) external {
+        Proposal storage proposal = _getProposal(proposalId);
+        if (proposal.privateBallot) revert PrivateBallotRequired();
+        uint256 weight = _recordVoter(proposalId, proposal);
+
+        if (choice == VoteChoice.Uphold) {
+            proposal.upholdWeight += weight;
+        } else if (choice == VoteChoice.Overturn) {
+            proposal.overturnWeight += weight;
+        } else {
+            proposal.escalateWeight += weight;
+        }
+        emit VoteCast(proposalId, msg.sender, choice, weight);
+    }
+
+    /// @notice Casts a hidden ballot: 0 = uphold, 1 = overturn, anything else = escalate.
+    /// The voter's weight is public, the choice is only ever revealed as part of the tally.
+    function castEncryptedVote(
+        uint256 proposalId,
+        externalEuint8 encryptedChoice,
+        bytes calldata inputProof
+    ) external {
+        Proposal storage proposal = _getProposal(proposalId);
+        if (!proposal.privateBallot) revert PublicBallotRequired();
+        uint256 weight = _recordVoter(proposalId, proposal);
+        uint256 weightCast = encryptedWeightCast[proposalId] + weight;
+        if (weightCast > type(uint128).max) revert WeightTooLarge();
+        encryptedWeightCast[proposalId] = weightCast;
+
+        euint8 choice = FHE.fromExternal(encryptedChoice, inputProof);
+        ebool isUphold = choice.eq(uint8(VoteChoice.Uphold));
+        ebool isOverturn = choice.eq(uint8(VoteChoice.Overturn));
+        euint128 weightEnc = FHE.asEuint128(uint128(weight));
+        euint128 zero = FHE.asEuint128(0);
+
+        EncryptedTally storage tally = encryptedTallies[proposalId];
+        tally.uphold = FHE.allowThis(tally.uphold.add(FHE.select(isUphold, weightEnc, zero)));
+        tally.overturn = FHE.allowThis(tally.overturn.add(FHE.select(isOverturn, weightEnc, zero)));
+        tally.escalate = FHE.allowThis(tally.escalate.add(FHE.select(FHE.or(isUphold, isOverturn), zero, weightEnc)));
+        emit EncryptedVoteCast(proposalId, msg.sender, weight);
+    }
+
+    function getEncryptedTally(
+        uint256 proposalId
+    ) external view returns (euint128 uphold, euint128 overturn, euint128 escalate) {
+        EncryptedTally storage tally = encryptedTallies[proposalId];
+        return (tally.uphold, tally.overturn, tally.escalate);
+    }
+
+    function requestTallyDecryption(uint256 proposalId) external {
+        Proposal storage proposal = _getProposal(proposalId);
+        if (!proposal.privateBallot) revert PublicBallotRequired();
+        if (proposal.finalized) revert AlreadyFinalized();
+        if (block.timestamp < proposal.endTime) revert VotingStillOpen();
+        if (_hasTallyRequest(proposalId)) revert TallyAlreadyRequested();
+        _requestTally(proposalId);
+    }
+
+    /// @notice Re-sends a tally request the oracle has not answered within tallyTimeout.
+    /// The old request id is retired, so a late callback for it reverts with ReplayError.
+    function retryTallyDecryption(uint256 proposalId) external returns (uint256 requestId) {
+        uint256 oldRequestId = _expireTally(proposalId);
+        requestId = _requestTally(proposalId);
+        emit TallyRetried(proposalId, oldRequestId, requestId);
+    }
+
+    /// @notice Gives up on a timed-out tally. With no counted votes the review finalizes
+    /// as Escalated, the same as a vote that missed quorum.
+    function cancelTallyDecryption(uint256 proposalId) external onlyOwner returns (ReviewOutcome) {
+        uint256 requestId = _expireTally(proposalId);
+        emit TallyCancelled(proposalId, requestId);
+        return _finalize(proposalId, proposals[proposalId]);
+    }
+
+    function onTallyDecrypted(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.processed) revert ReplayError();
+
+        // Rebuild ciphertexts array in the exact same order as in _requestTally
+        if (_hashCiphertexts(_tallyCiphertexts(ctx.proposalId)) != ctx.stateHash) revert StateMismatchError();
+
+        // Verify proof
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        // Decode cleartexts
+        // Expected: 3 values, euint128 (abi-encoded as three 32-byte words)
+        if (cleartexts.length != 96) revert("Invalid cleartext length");
+        (uint128 upholdWeight, uint128 overturnWeight, uint128 escalateWeight) = abi.decode(
+            cleartexts,
+            (uint128, uint128, uint128)
+        );
+
+        // Finalize
+        ctx.processed = true;
+        Proposal storage proposal = proposals[ctx.proposalId];
+        proposal.upholdWeight = upholdWeight;
+        proposal.overturnWeight = overturnWeight;
+        proposal.escalateWeight = escalateWeight;
+        emit TallyDecrypted(ctx.proposalId, upholdWeight, overturnWeight, escalateWeight);
+        _finalize(ctx.proposalId, proposal);
+    }
+
+    function finalize(uint256 proposalId) external returns (ReviewOutcome outcome) {
+        Proposal storage proposal = _getProposal(proposalId);
+        if (proposal.privateBallot) revert PrivateBallotRequired();
+        if (proposal.finalized) revert AlreadyFinalized();
+        if (block.timestamp < proposal.endTime) revert VotingStillOpen();
+        return _finalize(proposalId, proposal);
+    }
+
+    /// @notice Asks the fact-check contract to decrypt the score of an upheld post. Finalizing
+    /// tries this already; anyone can call it again if that attempt failed, e.g. while paused.
+    function unlockScore(uint256 proposalId) external {
+        Proposal storage proposal = _getProposal(proposalId);
+        if (!proposal.finalized || proposal.outcome != ReviewOutcome.Upheld) revert NotUpheld();
+        factCheck.unlockScore(proposal.postId);
+        emit ScoreUnlockRequested(proposalId, proposal.postId);
+    }
+
+    function getVotingWeight(address voter, uint256 snapshotBlock) public view returns (uint256) {
+        if (address(votingToken) != address(0)) {
+            return votingToken.getPastVotes(voter, snapshotBlock);
+        }
+        return voterWeight[voter];
+    }
+
+    function _requestTally(uint256 proposalId) internal returns (uint256 requestId) {
+        bytes32[] memory cts = _tallyCiphertexts(proposalId);
+        requestId = FHE.requestDecryption(cts, this.onTallyDecrypted.selector);
+        decryptionContexts[requestId] = DecryptionContext(proposalId, _hashCiphertexts(cts), false, block.timestamp);
+        tallyRequestId[proposalId] = requestId;
+        emit TallyRequested(proposalId, requestId);
+    }
+
+    // Request ids come from a per-contract counter that starts at 0, so a zero
+    // tallyRequestId alone does not mean "not requested"
+    function _hasTallyRequest(uint256 proposalId) internal view returns (bool) {
+        return decryptionContexts[tallyRequestId[proposalId]].proposalId == proposalId;
+    }
+
+    function _expireTally(uint256 proposalId) internal returns (uint256 requestId) {
+        Proposal storage proposal = _getProposal(proposalId);
+        requestId = tallyRequestId[proposalId];
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (proposal.finalized || !_hasTallyRequest(proposalId) || ctx.processed) revert TallyNotPending();
+        if (block.timestamp < ctx.requestedAt + tallyTimeout) revert TallyNotTimedOut();
+        ctx.processed = true;
+        emit TallyTimedOut(proposalId, requestId);
+    }
+
+    function _recordVoter(uint256 proposalId, Proposal storage proposal) internal returns (uint256 weight) {
+        if (block.timestamp >= proposal.endTime) revert VotingClosed();
+        if (hasVoted[proposalId][msg.sender]) revert AlreadyVoted();
+
+        weight = getVotingWeight(msg.sender, proposal.snapshotBlock);
+        if (weight == 0) revert NoVotingWeight();
+        hasVoted[proposalId][msg.sender] = true;
+    }
+
+    function _finalize(uint256 proposalId, Proposal storage proposal) internal returns (ReviewOutcome outcome) {
+        outcome = _tally(proposal);
+        proposal.finalized = true;
+        proposal.outcome = outcome;
+        factCheck.recordReviewOutcome(proposal.postId, outcome);
+        emit ReviewFinalized(proposalId, proposal.postId, outcome);
+
+        // Upholding the flag is the DAO's vote to reveal a score that only its verdict exposed.
+        // A failed unlock must not undo the outcome, so it is reported and left for unlockScore.
+        if (outcome == ReviewOutcome.Upheld && factCheck.isScoreLocked(proposal.postId)) {
+            try factCheck.unlockScore(proposal.postId) {
+                emit ScoreUnlockRequested(proposalId, proposal.postId);
+            } catch (bytes memory reason) {
+                emit ScoreUnlockFailed(proposalId, proposal.postId, reason);
+            }
+        }
+    }
+
+    // Below quorum, a tie, or an escalate plurality all send the post to escalation.
+    function _tally(Proposal storage proposal) internal view returns (ReviewOutcome) {
+        uint256 total = proposal.upholdWeight + proposal.overturnWeight + proposal.escalateWeight;
+        if (total < quorum) return ReviewOutcome.Escalated;
+        if (proposal.upholdWeight > proposal.overturnWeight && proposal.upholdWeight > proposal.escalateWeight) {
+            return ReviewOutcome.Upheld;
+        }
+        if (proposal.overturnWeight > proposal.upholdWeight && proposal.overturnWeight > proposal.escalateWeight) {
+            return ReviewOutcome.Overturned;
+        }
+        return ReviewOutcome.Escalated;
+    }
+
+    function _tallyCiphertexts(uint256 proposalId) internal view returns (bytes32[] memory cts) {
+        EncryptedTally storage tally = encryptedTallies[proposalId];
+        cts = new bytes32[](3);
+        cts[0] = tally.uphold.toBytes32();
+        cts[1] = tally.overturn.toBytes32();
+        cts[2] = tally.escalate.toBytes32();
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
+    }
+
+    function _getProposal(uint256 proposalId) internal view returns (Proposal storage proposal) {
+        proposal = proposals[proposalId];
+        if (proposal.endTime == 0) revert UnknownProposal();
+    }
+}
@@ -0,0 +1,23 @@
+pragma solidity ^0.8.24;
+
+enum ReviewOutcome {
+    None,
+    Upheld,
+    Overturned,
+    Escalated
+}
+
+/// @notice Implemented by the DAO module that reviews flagged posts.
+interface IFactCheckReview {
+    function openReview(uint256 postId) external returns (uint256 proposalId);
+}
+
+/// @notice Implemented by the fact-check contract that stores the post records.
+interface IFactCheckRegistry {
+    function recordReviewOutcome(uint256 postId, ReviewOutcome outcome) external;
+
+    /// @notice True while a post's score is hidden behind a revealed verdict.
+    function isScoreLocked(uint256 postId) external view returns (bool);
+
+    function unlockScore(uint256 postId) external;
+}
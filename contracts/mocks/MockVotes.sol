@@ -0,0 +1,31 @@
+pragma solidity ^0.8.24;
+
+/// @notice Test stand-in for an ERC-5805 votes token: votes are set directly and
+/// checkpointed per block, so getPastVotes answers for any earlier block.
+contract MockVotes {
+    struct Checkpoint {
+        uint256 fromBlock;
+        uint256 votes;
+    }
+    mapping(address => Checkpoint[]) internal checkpoints;
+
+    error FutureLookup();
+
+    function setVotes(address account, uint256 votes) external {
+        Checkpoint[] storage history = checkpoints[account];
+        if (history.length > 0 && history[history.length - 1].fromBlock == block.number) {
+            history[history.length - 1].votes = votes;
+        } else {
+            history.push(Checkpoint(block.number, votes));
+        }
+    }
+
+    function getPastVotes(address account, uint256 timepoint) external view returns (uint256) {
+        if (timepoint >= block.number) revert FutureLookup();
+        Checkpoint[] storage history = checkpoints[account];
+        for (uint256 i = history.length; i > 0; i--) {
+            if (history[i - 1].fromBlock <= timepoint) return history[i - 1].votes;
+        }
+        return 0;
+    }
+}
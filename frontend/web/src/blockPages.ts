@@ -0,0 +1,11 @@
+// blockPages.ts
+
+// getLogs page size, kept under the range limits common public RPCs enforce
+export const DEFAULT_BLOCK_RANGE = 5000;
+
+// Splits [fromBlock, toBlock] into consecutive inclusive pages of at most blockRange blocks
+export function* blockPages(fromBlock: number, toBlock: number, blockRange = DEFAULT_BLOCK_RANGE) {
+  for (let from = fromBlock; from <= toBlock; from += blockRange) {
+    yield { from, to: Math.min(from + blockRange - 1, toBlock) };
+  }
+}
@@ -0,0 +1,29 @@
+// ConfirmDialog.tsx
+import React from "react";
+
+interface ConfirmDialogProps {
+  title: string;
+  message: React.ReactNode;
+  confirmLabel?: string;
+  danger?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, message, confirmLabel = "Confirm", danger, onConfirm, onCancel }) => (
+  <div className="modal-overlay">
+    <div className="confirm-dialog cyber-card">
+      <div className="modal-header">
+        <h2>{title}</h2>
+        <button onClick={onCancel} className="close-modal">&times;</button>
+      </div>
+      <div className="modal-body">{message}</div>
+      <div className="modal-footer">
+        <button onClick={onCancel} className="cancel-btn cyber-button">Cancel</button>
+        <button onClick={onConfirm} className={`cyber-button ${danger ? "danger" : "primary"}`}>{confirmLabel}</button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ConfirmDialog;
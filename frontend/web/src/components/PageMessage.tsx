@@ -0,0 +1,13 @@
+// PageMessage.tsx
+import React from "react";
+import { Link } from "react-router-dom";
+
+// Placeholder card for routes that are loading, missing or malformed
+const PageMessage: React.FC<{ title: string }> = ({ title }) => (
+  <div className="page-message cyber-card">
+    <h2>{title}</h2>
+    <Link to="/" className="cyber-button">Back to dashboard</Link>
+  </div>
+);
+
+export default PageMessage;
@@ -0,0 +1,57 @@
+// PostTable.tsx
+import React from "react";
+import { Link, useNavigate } from "react-router-dom";
+import type { PostSummary } from "../factCheckClient";
+import { batchPath, postPath, providerPath } from "../routes";
+import RiskMeter from "./RiskMeter";
+
+// Read-only post list for the batch and provider pages; rows link to the post page
+const PostTable: React.FC<{ posts: PostSummary[]; emptyText: string }> = ({ posts, emptyText }) => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="posts-list cyber-card">
+      <div className="table-header">
+        <div className="header-cell">ID</div>
+        <div className="header-cell">Batch</div>
+        <div className="header-cell">Submitter</div>
+        <div className="header-cell">Date</div>
+        <div className="header-cell">Risk Score</div>
+        <div className="header-cell">Status</div>
+        <div className="header-cell">Model</div>
+      </div>
+
+      {posts.length === 0 ? (
+        <div className="no-posts">
+          <p>{emptyText}</p>
+        </div>
+      ) : posts.map(post => (
+        <div
+          className={`post-row ${post.status}`}
+          key={post.id.toString()}
+          onClick={() => navigate(postPath(post.id))}
+        >
+          <div className="table-cell post-id">#{post.id.toString(16).substring(0, 6)}</div>
+          <div className="table-cell">
+            <Link to={batchPath(post.batchId)} onClick={(e) => e.stopPropagation()}>#{post.batchId.toString()}</Link>
+          </div>
+          <div className="table-cell">
+            <Link to={providerPath(post.submitter)} onClick={(e) => e.stopPropagation()}>
+              {post.submitter.substring(0, 6)}...{post.submitter.substring(38)}
+            </Link>
+          </div>
+          <div className="table-cell">{new Date(post.timestamp * 1000).toLocaleDateString()}</div>
+          <div className="table-cell">
+            {post.score !== null ? <RiskMeter score={post.score} /> : <span className="fhe-tag">Encrypted</span>}
+          </div>
+          <div className="table-cell">
+            <span className={`status-badge ${post.status}`}>{post.status}</span>
+          </div>
+          <div className="table-cell">{post.modelVersion > 0n ? `v${post.modelVersion}` : "-"}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PostTable;
@@ -0,0 +1,20 @@
+// RiskMeter.tsx
+import React from "react";
+
+const RiskMeter: React.FC<{ score: number }> = ({ score }) => {
+  const percentage = Math.min(100, Math.max(0, score));
+  const color = percentage > 70 ? "#ff2a2a" :
+               percentage > 40 ? "#ff8c2a" : "#2aff2a";
+
+  return (
+    <div className="risk-meter">
+      <div className="meter-bar" style={{
+        width: `${percentage}%`,
+        backgroundColor: color
+      }}></div>
+      <div className="meter-label">{percentage.toFixed(0)}% Risk</div>
+    </div>
+  );
+};
+
+export default RiskMeter;
@@ -0,0 +1,72 @@
+// TransactionHistory.tsx
+import React, { useEffect, useState } from "react";
+import { getTransactionManager, TrackedTransaction } from "../transactionManager";
+
+const EXPLORERS: Record<number, string> = {
+  1: "https://etherscan.io",
+  11155111: "https://sepolia.etherscan.io",
+};
+
+const IN_FLIGHT = ["signing", "submitted", "mined"];
+
+const txLink = (tx: TrackedTransaction, hash: string) => {
+  const explorer = tx.chainId !== undefined ? EXPLORERS[tx.chainId] : undefined;
+  const short = `${hash.substring(0, 10)}...${hash.substring(58)}`;
+  return explorer ? <a href={`${explorer}/tx/${hash}`} target="_blank" rel="noreferrer">{short}</a> : <span>{short}</span>;
+};
+
+// Header button plus a slide-out list of every write sent from this browser;
+// the history lives in localStorage so it survives reloads.
+const TransactionHistory: React.FC = () => {
+  const manager = getTransactionManager();
+  const [history, setHistory] = useState<TrackedTransaction[]>(manager.getHistory());
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => manager.subscribe(setHistory), [manager]);
+
+  const inFlight = history.filter(tx => IN_FLIGHT.includes(tx.status)).length;
+
+  return (
+    <>
+      <button className="cyber-button tx-history-btn" onClick={() => setOpen(!open)}>
+        Transactions{inFlight > 0 && <span className="tx-count">{inFlight}</span>}
+      </button>
+
+      {open && (
+        <div className="tx-history-panel cyber-card">
+          <div className="tx-history-header">
+            <h3>Transactions</h3>
+            <div>
+              <button className="cyber-button" onClick={() => manager.clear()} disabled={history.length === inFlight}>Clear</button>
+              <button className="close-modal" onClick={() => setOpen(false)}>&times;</button>
+            </div>
+          </div>
+          {history.length === 0 && <p className="tx-empty">No transactions yet</p>}
+          <ul className="tx-list">
+            {history.map(tx => (
+              <li key={tx.id} className={`tx-item ${tx.status}`}>
+                <div className="tx-row">
+                  <strong>{tx.label}</strong>
+                  <span className={`tx-status ${tx.status}`}>{tx.status}</span>
+                </div>
+                <div className="tx-row tx-meta">
+                  {tx.hash ? txLink(tx, tx.hash) : <span>awaiting signature</span>}
+                  <span>{new Date(tx.createdAt).toLocaleTimeString()}</span>
+                </div>
+                {tx.blockNumber !== undefined && <div className="tx-meta">Block {tx.blockNumber}</div>}
+                {tx.replacedBy && tx.replacedBy !== tx.hash && (
+                  <div className="tx-meta">Replaced by {txLink(tx, tx.replacedBy)}</div>
+                )}
+                {tx.error && (
+                  <div className="tx-error">{tx.error.name ? `${tx.error.name}: ` : ""}{tx.error.message}</div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default TransactionHistory;
@@ -1,11 +1,43 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
+import abiJson from "./abi/AIFactCheckFHE.json";
 import configJson from "./config.json";
+import type { AIFactCheckFHE } from "./abi/AIFactCheckFHE";
+import { checkAbi, Deployment, FACT_CHECK_CONTRACT, getDeployment } from "./deployments";
+import { activeChainId, getProviderManager, getReadProvider, hasNetworkConfig } from "./providerManager";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
+export class NoDeploymentError extends Error {
+  constructor(readonly chainId: number) {
+    super(`${FACT_CHECK_CONTRACT} is not deployed on chain ${chainId}`);
+    this.name = "NoDeploymentError";
+  }
+}
+
+// Reads follow the wallet's chain while one is connected, and the configured
+// default chain otherwise. Set by App on every render.
+let selectedChainId = activeChainId;
+
+export function selectChain(chainId: number): void {
+  selectedChainId = chainId;
+}
+
+export function getSelectedChainId(): number {
+  return selectedChainId;
+}
+
+export function getSelectedDeployment(): Deployment | null {
+  return getDeployment(selectedChainId);
+}
+
+export function getContractAddress(chainId: number = selectedChainId): string {
+  const deployment = getDeployment(chainId);
+  if (!deployment) throw new NoDeploymentError(chainId);
+  return deployment.address;
+}
+
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
@@ -18,43 +50,17 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
-};
+export async function getContractReadOnly(): Promise<AIFactCheckFHE | null> {
+  const chainId = selectedChainId;
+  const deployment = getDeployment(chainId);
+  if (!deployment || !hasNetworkConfig(chainId)) return null;
+  checkAbi(chainId, ABI);
 
-export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = await getReadProvider(chainId);
+    const contract = new ethers.Contract(deployment.address, ABI, provider) as unknown as AIFactCheckFHE;
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(deployment.address));
     if (code === "0x") {
       return null;
     }
@@ -62,18 +68,25 @@ export async function getContractReadOnly() {
     return contract;
   } catch (error) {
     console.error("Failed to create read-only contract:", error);
+    getProviderManager(chainId).invalidate();
     return null;
   }
 }
 
-export async function getContractWithSigner() {
+export async function getSigner(): Promise<ethers.Signer> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  return provider.getSigner();
+}
+
+export async function getContractWithSigner(): Promise<AIFactCheckFHE> {
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const signer = await getSigner();
+    // Writes go to the deployment on the wallet's chain, whatever the page last read from
+    const { chainId } = await signer.provider!.getNetwork();
+    const contract = new ethers.Contract(getContractAddress(Number(chainId)), ABI, signer) as unknown as AIFactCheckFHE;
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
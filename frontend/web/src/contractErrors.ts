@@ -0,0 +1,80 @@
+// contractErrors.ts
+import { ethers } from "ethers";
+import { dig, findRevertData } from "./revertData";
+
+// Readable messages for AIFactCheckFHE's custom errors
+const ERROR_MESSAGES: Record<string, string> = {
+  NotOwner: "Only the contract owner can do this",
+  InvalidOwner: "The owner cannot be the zero address",
+  NotPendingOwner: "Only the pending owner can accept ownership",
+  CannotRevokeOwner: "The owner's admin role cannot be revoked",
+  PausedError: "The contract is paused",
+  CooldownActive: "Cooldown is still active, try again later",
+  QuotaExceeded: "Submission quota for this epoch is used up",
+  InvalidEpoch: "Quota epoch length must be greater than zero",
+  BatchClosedError: "No batch is open for submissions",
+  PostAlreadyProcessedError: "This post has already been processed",
+  PostAlreadySubmitted: "This post has already been submitted",
+  ReplayError: "This decryption request was already fulfilled",
+  StateMismatchError: "Decryption result does not match the pending request",
+  InvalidBatchState: "The batch is not in the right state for this action",
+  UnknownPost: "Unknown post",
+  NoActiveModel: "No scoring model is active",
+  UnknownModelVersion: "Unknown scoring model version",
+  ThresholdNotSet: "No flag threshold is set for the active model",
+  NotScoreUnlocker: "Only the score unlocker can do this",
+  ScoreNotLocked: "This score is not locked",
+  NotReviewModule: "Only the review module can do this",
+  ReviewNotOpen: "No review is open for this post",
+  ReviewNotNeeded: "This post is not flagged, has no review module or already has a review",
+  ReviewsStillOpen: "The review module cannot change while its reviews are open",
+  InvalidDeadline: "The batch deadline must be in the future",
+  EmptyBatch: "The batch has no posts waiting to be processed",
+  DecryptionNotPending: "No decryption is pending for this request",
+  DecryptionNotTimedOut: "The decryption request has not timed out yet",
+};
+
+const ROLE_NAMES = ["ADMIN_ROLE", "PROVIDER_ROLE", "ANALYST_ROLE", "MODEL_MANAGER_ROLE", "PAUSER_ROLE"];
+const roleName = (role: string) =>
+  ROLE_NAMES.find((name) => ethers.id(name) === role.toLowerCase()) ?? role;
+
+export interface DecodedError {
+  name: string | null; // custom error name, when the revert carried one
+  message: string;
+}
+
+const stringField = (e: unknown, key: string) => {
+  const value = dig(e, [key]);
+  return typeof value === "string" ? value : undefined;
+};
+
+export function decodeContractError(e: unknown, iface: ethers.Interface): DecodedError {
+  if (ethers.isError(e, "ACTION_REJECTED")) return { name: null, message: "Transaction rejected by user" };
+
+  // ethers v6 decodes reverts against the contract ABI on its own when it can
+  let parsed: { name: string; args: ethers.Result } | null =
+    ethers.isError(e, "CALL_EXCEPTION") && e.revert
+      ? { name: e.revert.name, args: ethers.Result.fromItems(e.revert.args) }
+      : null;
+  if (!parsed) {
+    const data = findRevertData(e);
+    try {
+      parsed = data ? iface.parseError(data) : null;
+    } catch {
+      parsed = null;
+    }
+  }
+
+  if (parsed) {
+    if (parsed.name === "MissingRole") {
+      return { name: parsed.name, message: `${parsed.args[1]} is missing ${roleName(String(parsed.args[0]))}` };
+    }
+    if (parsed.name === "Error") return { name: null, message: String(parsed.args[0]) };
+    return { name: parsed.name, message: ERROR_MESSAGES[parsed.name] ?? parsed.name };
+  }
+
+  return {
+    name: null,
+    message: stringField(e, "shortMessage") ?? stringField(e, "reason") ?? stringField(e, "message") ?? "Unknown error",
+  };
+}
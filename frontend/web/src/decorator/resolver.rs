@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\decorator\resolver.rs
-// Generated at: 2025-10-21T07:53:55.478Z
\ No newline at end of file
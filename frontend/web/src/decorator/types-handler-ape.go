@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\decorator\types-handler-ape.go
-// Generated at: 2025-10-21T07:53:55.477Z
\ No newline at end of file
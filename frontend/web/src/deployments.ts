@@ -0,0 +1,40 @@
+// deployments.ts
+import { ethers } from "ethers";
+import registryJson from "./deployments.json";
+
+// Written by the deploy script (utils/deployments.ts); one entry per chain and contract
+export interface Deployment {
+  address: string;
+  deployBlock: number;
+  abiHash: string;
+  commit: string | null;
+  deployer: string;
+}
+
+export const FACT_CHECK_CONTRACT = "AIFactCheckFHE";
+
+const registry = registryJson as Record<string, Record<string, Deployment>>;
+
+export function getDeployment(chainId: number, contractName: string = FACT_CHECK_CONTRACT): Deployment | null {
+  return registry[String(chainId)]?.[contractName] ?? null;
+}
+
+export function deployedChainIds(contractName: string = FACT_CHECK_CONTRACT): number[] {
+  return Object.keys(registry)
+    .filter((chainId) => registry[chainId][contractName])
+    .map(Number);
+}
+
+const checkedAbis = new Set<string>();
+
+// The bundled ABI is copied at deploy time; a mismatch means the app was built
+// against a different version of the contract than the one on this chain
+export function checkAbi(chainId: number, abi: unknown, contractName: string = FACT_CHECK_CONTRACT): void {
+  const deployment = getDeployment(chainId, contractName);
+  const key = `${chainId}:${contractName}`;
+  if (!deployment || checkedAbis.has(key)) return;
+  checkedAbis.add(key);
+  if (ethers.id(JSON.stringify(abi)) !== deployment.abiHash) {
+    console.warn(`${contractName} ABI does not match the deployment on chain ${chainId} (${deployment.address})`);
+  }
+}
@@ -1,3 +0,0 @@
-import React from 'react';
-
-export default function dynamic() { return <div>Component</div>; }
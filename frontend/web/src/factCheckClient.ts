@@ -0,0 +1,353 @@
+// factCheckClient.ts
+import { BytesLike, ContractTransactionResponse, MaxUint256, TransactionReceipt } from "ethers";
+import type { AIFactCheckFHE } from "./abi/AIFactCheckFHE";
+import type { TypedContractEvent, TypedDeferredTopicFilter } from "./abi/common";
+import { blockPages } from "./blockPages";
+import { getSelectedDeployment } from "./contract";
+
+// Mirrors AIFactCheckFHE.PostStatus
+export enum OnChainPostStatus {
+  None = 0,
+  Submitted = 1,
+  Processing = 2,
+  Decrypted = 3,
+  VerdictRevealed = 4,
+}
+
+export type PostStatus = "pending" | "processing" | "flagged" | "cleared";
+
+// Most posts one processBatch transaction scores, so it stays within the HCU limit;
+// the rest of the batch takes further calls
+export const BATCH_CHUNK_SIZE = 10;
+
+// Display names for the four encrypted features, in contract order
+export const FEATURE_LABELS = ["Interaction", "Propagation Velocity", "Source Risk", "Rumor Similarity"];
+
+export interface EncryptedPostInput {
+  contentHash: BytesLike;
+  // interaction, propagation velocity, source risk, rumor similarity
+  features: [BytesLike, BytesLike, BytesLike, BytesLike];
+  inputProof: BytesLike;
+}
+
+export interface PostSummary {
+  id: bigint;
+  batchId: bigint;
+  submitter: string;
+  timestamp: number;
+  blockNumber: number;
+  status: PostStatus;
+  score: number | null; // public once the oracle callback has landed
+  // Ciphertext handles; only filled when the post is read from the contract directly
+  encryptedScore?: string; // zero until processed
+  contentHandle?: string;
+  modelVersion: bigint;
+}
+
+export interface BatchSummary {
+  id: bigint;
+  submitted: bigint;
+  processed: bigint;
+  flagged: bigint;
+  deadline: bigint;
+  open: boolean;
+}
+
+export interface ProviderSummary {
+  address: string;
+  isProvider: boolean;
+  lastSubmissionTime: bigint;
+  nextSubmissionTime: bigint;
+  remainingQuota: bigint | null; // null when the provider has no quota
+  // Per-provider overrides of the global cooldowns and quota
+  limits: { submissionCooldown: bigint; decryptionCooldown: bigint; epochQuota: bigint } | null;
+}
+
+export interface ContractState {
+  owner: string;
+  paused: boolean;
+  currentBatchId: bigint;
+  batchOpen: boolean;
+  cooldownSeconds: bigint;
+  decryptionCooldownSeconds: bigint;
+  reviewThreshold: number;
+  activeModelVersion: bigint;
+}
+
+export type Unsubscribe = () => void;
+
+export interface FactCheckClientOptions {
+  // Every write goes through here; resolves once the transaction is mined.
+  // Defaults to a plain tx.wait(); the transaction manager plugs in its tracker.
+  send?: (label: string, tx: Promise<ContractTransactionResponse>) => Promise<TransactionReceipt | null>;
+  startBlock?: number; // deploy block; log scans never start earlier. Defaults to the selected deployment's.
+  blockRange?: number; // getLogs page size
+}
+
+const defaultSend = async (_label: string, tx: Promise<ContractTransactionResponse>) => (await tx).wait();
+
+export function toPostStatus(status: bigint | number, flagged: boolean): PostStatus {
+  switch (Number(status)) {
+    case OnChainPostStatus.Processing:
+      return "processing";
+    case OnChainPostStatus.Decrypted:
+    case OnChainPostStatus.VerdictRevealed:
+      return flagged ? "flagged" : "cleared";
+    default:
+      return "pending";
+  }
+}
+
+const findEvent = (contract: AIFactCheckFHE, receipt: TransactionReceipt | null, name: string) => {
+  for (const log of receipt?.logs ?? []) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === name) return parsed;
+  }
+  throw new Error(`${name} not emitted`);
+};
+
+export function createFactCheckClient(contract: AIFactCheckFHE, options: FactCheckClientOptions = {}) {
+  const send = options.send ?? defaultSend;
+  const startBlock = options.startBlock ?? getSelectedDeployment()?.deployBlock ?? 0;
+
+  // Fetches a filter's logs one page at a time from fromBlock up to the head,
+  // the same way the post indexer syncs, so no single query spans the whole chain
+  async function* queryPages<E extends TypedContractEvent>(filter: TypedDeferredTopicFilter<E>, fromBlock: number) {
+    const headBlock = await contract.runner!.provider!.getBlockNumber();
+    for (const { from, to } of blockPages(fromBlock, headBlock, options.blockRange)) {
+      yield await contract.queryFilter(filter, from, to);
+    }
+  }
+
+  const queryAll = async <E extends TypedContractEvent>(filter: TypedDeferredTopicFilter<E>, fromBlock: number) => {
+    const events = [];
+    for await (const page of queryPages(filter, fromBlock)) events.push(...page);
+    return events;
+  };
+
+  const readPost = async (postId: bigint, submitter: string, batchId: bigint, blockNumber: number): Promise<PostSummary> => {
+    const [status, flagged, score, encryptedScore, contentHandle, modelVersion, block] = await Promise.all([
+      contract.postStatus(postId),
+      contract.postFlagged(postId),
+      contract.decryptedMisinfoScore(postId),
+      contract.encryptedMisinfoScores(postId),
+      contract.encryptedPosts(postId),
+      contract.scoreModelVersion(postId),
+      contract.runner?.provider?.getBlock(blockNumber),
+    ]);
+    const decrypted = Number(status) >= OnChainPostStatus.Decrypted;
+    return {
+      id: postId,
+      batchId,
+      submitter,
+      timestamp: block?.timestamp ?? 0,
+      blockNumber,
+      status: toPostStatus(status, flagged),
+      score: decrypted ? Number(score) : null,
+      encryptedScore,
+      contentHandle,
+      modelVersion,
+    };
+  };
+
+  return {
+    contract,
+
+    async submitPost(input: EncryptedPostInput): Promise<bigint> {
+      const receipt = await send("Submit post", contract.submitPost(input.contentHash, input.features, input.inputProof));
+      const event = findEvent(contract, receipt, "PostSubmitted");
+      return event.args.postId as bigint;
+    },
+
+    // Scores the post under the active model and requests public decryption.
+    // Resolves to the oracle request id.
+    async processPost(postId: bigint): Promise<bigint> {
+      const receipt = await send(`Process post 0x${postId.toString(16).substring(0, 8)}`, contract.processPost(postId));
+      const event = findEvent(contract, receipt, "DecryptionRequested");
+      return event.args.requestId as bigint;
+    },
+
+    // Ciphertext handles, user-decryptable by the submitter only.
+    async getPostHandles(postId: bigint): Promise<{ contentHash: string; features: string[] }> {
+      const [contentHash, features] = await Promise.all([
+        contract.encryptedPosts(postId),
+        contract.getPostFeatures(postId),
+      ]);
+      return { contentHash, features: [...features] };
+    },
+
+    // Stops at the first page that holds the post's PostSubmitted log
+    async getPost(postId: bigint): Promise<PostSummary | null> {
+      for await (const [event] of queryPages(contract.filters.PostSubmitted(undefined, undefined, postId), startBlock)) {
+        if (event) return readPost(postId, event.args.submitter, event.args.batchId, event.blockNumber);
+      }
+      return null;
+    },
+
+    // Submitter and batch are indexed topics, so filtered lists only fetch their own logs.
+    async listPosts(filter: { submitter?: string; batchId?: bigint } = {}, fromBlock = startBlock): Promise<PostSummary[]> {
+      const events = await queryAll(contract.filters.PostSubmitted(filter.submitter, filter.batchId), fromBlock);
+      const posts = await Promise.all(
+        events.map((e) => readPost(e.args.postId, e.args.submitter, e.args.batchId, e.blockNumber))
+      );
+      return posts.sort((a, b) => b.blockNumber - a.blockNumber);
+    },
+
+    async getBatchState(): Promise<{ currentBatchId: bigint; batchOpen: boolean }> {
+      const [currentBatchId, batchOpen] = await Promise.all([contract.currentBatchId(), contract.batchOpen()]);
+      return { currentBatchId, batchOpen };
+    },
+
+    async getBatch(batchId: bigint): Promise<BatchSummary> {
+      const summary = await contract.getBatchSummary(batchId);
+      return {
+        id: batchId,
+        submitted: summary.submitted,
+        processed: summary.processed,
+        flagged: summary.flagged,
+        deadline: summary.deadline,
+        open: summary.open,
+      };
+    },
+
+    getBatchPosts(batchId: bigint): Promise<bigint[]> {
+      return contract.getBatchPosts(batchId);
+    },
+
+    async getProvider(address: string): Promise<ProviderSummary> {
+      const [isProvider, lastSubmissionTime, nextSubmissionTime, remainingQuota, limits] = await Promise.all([
+        contract.isProvider(address),
+        contract.lastSubmissionTime(address),
+        contract.nextSubmissionTime(address),
+        contract.remainingQuota(address),
+        contract.providerLimits(address),
+      ]);
+      return {
+        address,
+        isProvider,
+        lastSubmissionTime,
+        nextSubmissionTime,
+        remainingQuota: remainingQuota === MaxUint256 ? null : remainingQuota,
+        limits: limits.overridden
+          ? { submissionCooldown: limits.submissionCooldown, decryptionCooldown: limits.decryptionCooldown, epochQuota: limits.epochQuota }
+          : null,
+      };
+    },
+
+    async getContractState(): Promise<ContractState> {
+      const [owner, paused, currentBatchId, batchOpen, cooldownSeconds, decryptionCooldownSeconds, reviewThreshold, activeModelVersion] =
+        await Promise.all([
+          contract.owner(),
+          contract.paused(),
+          contract.currentBatchId(),
+          contract.batchOpen(),
+          contract.cooldownSeconds(),
+          contract.decryptionCooldownSeconds(),
+          contract.reviewThreshold(),
+          contract.activeModelVersion(),
+        ]);
+      return {
+        owner,
+        paused,
+        currentBatchId,
+        batchOpen,
+        cooldownSeconds,
+        decryptionCooldownSeconds,
+        reviewThreshold: Number(reviewThreshold),
+        activeModelVersion,
+      };
+    },
+
+    // Replays ProviderAdded/ProviderRemoved in chain order, so the list reflects
+    // exactly what the events say rather than the contract's swap-and-pop order.
+    async listProviders(fromBlock = startBlock): Promise<string[]> {
+      const [added, removed] = await Promise.all([
+        queryAll(contract.filters.ProviderAdded(), fromBlock),
+        queryAll(contract.filters.ProviderRemoved(), fromBlock),
+      ]);
+      const events = [...added, ...removed].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+      const providers = new Set<string>();
+      for (const event of events) {
+        if (event.eventName === "ProviderAdded") providers.add(event.args.provider);
+        else providers.delete(event.args.provider);
+      }
+      return [...providers];
+    },
+
+    async getAccountRoles(account: string): Promise<{ admin: boolean; pauser: boolean }> {
+      const [adminRole, pauserRole] = await Promise.all([contract.ADMIN_ROLE(), contract.PAUSER_ROLE()]);
+      const [admin, pauser] = await Promise.all([contract.hasRole(adminRole, account), contract.hasRole(pauserRole, account)]);
+      return { admin, pauser };
+    },
+
+    async addProvider(provider: string): Promise<void> {
+      await send(`Add provider ${provider}`, contract.addProvider(provider));
+    },
+
+    async removeProvider(provider: string): Promise<void> {
+      await send(`Remove provider ${provider}`, contract.removeProvider(provider));
+    },
+
+    async setCooldown(seconds: bigint): Promise<void> {
+      await send(`Set cooldown to ${seconds}s`, contract.setCooldown(seconds));
+    },
+
+    async pause(): Promise<void> {
+      await send("Pause", contract.pause());
+    },
+
+    async unpause(): Promise<void> {
+      await send("Unpause", contract.unpause());
+    },
+
+    // Pass a unix deadline to have the batch stop accepting posts on its own.
+    async openBatch(deadline?: number): Promise<bigint> {
+      const receipt = await send("Open batch", deadline ? contract.openBatchUntil(deadline) : contract.openBatch());
+      const event = findEvent(contract, receipt, "BatchOpened");
+      return event.args.batchId as bigint;
+    },
+
+    async closeBatch(): Promise<void> {
+      await send("Close batch", contract.closeBatch());
+    },
+
+    async closeExpiredBatch(): Promise<void> {
+      await send("Close expired batch", contract.closeExpiredBatch());
+    },
+
+    async processBatch(batchId: bigint, maxPosts = BATCH_CHUNK_SIZE): Promise<bigint> {
+      const receipt = await send(`Process batch #${batchId}`, contract.processBatch(batchId, maxPosts));
+      const event = findEvent(contract, receipt, "BatchDecryptionRequested");
+      return event.args.requestId as bigint;
+    },
+
+    onPostSubmitted(listener: (postId: bigint, submitter: string, batchId: bigint) => void): Unsubscribe {
+      const event = contract.getEvent("PostSubmitted");
+      const handler = (submitter: string, batchId: bigint, postId: bigint) => listener(postId, submitter, batchId);
+      contract.on(event, handler);
+      return () => void contract.off(event, handler);
+    },
+
+    onDecryptionCompleted(listener: (postId: bigint, score: number, requestId: bigint) => void): Unsubscribe {
+      const event = contract.getEvent("DecryptionCompleted");
+      const handler = (requestId: bigint, _batchId: bigint, postId: bigint, score: bigint) =>
+        listener(postId, Number(score), requestId);
+      contract.on(event, handler);
+      return () => void contract.off(event, handler);
+    },
+
+    onBatchOpened(listener: (batchId: bigint) => void): Unsubscribe {
+      const event = contract.getEvent("BatchOpened");
+      contract.on(event, listener);
+      return () => void contract.off(event, listener);
+    },
+
+    onBatchClosed(listener: (batchId: bigint) => void): Unsubscribe {
+      const event = contract.getEvent("BatchClosed");
+      contract.on(event, listener);
+      return () => void contract.off(event, listener);
+    },
+  };
+}
+
+export type FactCheckClient = ReturnType<typeof createFactCheckClient>;
@@ -0,0 +1,174 @@
+// fheBackend.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import configJson from "./config.json";
+
+export type FheBackendKind = "relayer" | "mock";
+
+export interface EncryptedValues {
+  handles: string[];
+  inputProof: string;
+}
+
+export interface HandleContractPair {
+  handle: string;
+  contractAddress: string;
+}
+
+export interface FheBackend {
+  readonly kind: FheBackendKind;
+  // Encrypts uint32 values into handles bound to (contractAddress, user)
+  encrypt(contractAddress: string, user: string, values: number[]): Promise<EncryptedValues>;
+  // EIP-712 user decryption; the signer must hold ACL access to every handle
+  userDecrypt(signer: ethers.Signer, handles: HandleContractPair[]): Promise<Record<string, bigint>>;
+  // Decrypts handles marked publicly decryptable on the ACL
+  publicDecrypt(handles: string[]): Promise<Record<string, bigint>>;
+  getPublicKey(): Promise<string | null>;
+}
+
+// A signed user-decryption grant: the KMS re-encrypts ciphertexts under publicKey
+// for userAddress, for the listed contracts, until startTimestamp + durationDays.
+interface DecryptSession {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  userAddress: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+const SESSION_DAYS = 1;
+
+const toValues = (results: Record<string, bigint | boolean | string>) => {
+  const values: Record<string, bigint> = {};
+  for (const [handle, value] of Object.entries(results)) values[handle.toLowerCase()] = BigInt(value);
+  return values;
+};
+
+// Both backends speak the relayer SDK's FhevmInstance interface; they differ only in
+// how the instance is created.
+function createInstanceBackend(kind: FheBackendKind, loadInstance: () => Promise<FhevmInstance>): FheBackend {
+  let instancePromise: Promise<FhevmInstance> | null = null;
+  const sessions = new Map<string, DecryptSession>();
+
+  const getInstance = () => {
+    if (!instancePromise) {
+      instancePromise = loadInstance().catch((e) => {
+        instancePromise = null;
+        throw e;
+      });
+    }
+    return instancePromise;
+  };
+
+  // Generates a fresh keypair and asks the wallet to sign the EIP-712 grant for it.
+  // Sessions are reused until they expire so the user signs once per day.
+  const getSession = async (signer: ethers.Signer, contractAddresses: string[]) => {
+    const userAddress = await signer.getAddress();
+    const key = `${userAddress}:${contractAddresses.join(",")}`.toLowerCase();
+    const cached = sessions.get(key);
+    if (cached && Date.now() / 1000 < cached.startTimestamp + cached.durationDays * 86400) return cached;
+
+    const instance = await getInstance();
+    const { publicKey, privateKey } = instance.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const eip712 = instance.createEIP712(publicKey, contractAddresses, startTimestamp, SESSION_DAYS);
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message
+    );
+
+    const session = { publicKey, privateKey, signature, userAddress, contractAddresses, startTimestamp, durationDays: SESSION_DAYS };
+    sessions.set(key, session);
+    return session;
+  };
+
+  return {
+    kind,
+
+    async encrypt(contractAddress, user, values) {
+      const instance = await getInstance();
+      const input = instance.createEncryptedInput(contractAddress, user);
+      values.forEach((v) => input.add32(v));
+      const { handles, inputProof } = await input.encrypt();
+      return { handles: handles.map((h) => ethers.hexlify(h)), inputProof: ethers.hexlify(inputProof) };
+    },
+
+    async userDecrypt(signer, handles) {
+      const contractAddresses = [...new Set(handles.map((h) => ethers.getAddress(h.contractAddress)))].sort();
+      const session = await getSession(signer, contractAddresses);
+      const instance = await getInstance();
+      const results = await instance.userDecrypt(
+        handles,
+        session.privateKey,
+        session.publicKey,
+        session.signature.replace("0x", ""),
+        session.contractAddresses,
+        session.userAddress,
+        session.startTimestamp,
+        session.durationDays
+      );
+      return toValues(results);
+    },
+
+    async publicDecrypt(handles) {
+      const instance = await getInstance();
+      return toValues(await instance.publicDecrypt(handles));
+    },
+
+    async getPublicKey() {
+      const instance = await getInstance();
+      const key = instance.getPublicKey();
+      return key ? ethers.hexlify(key.publicKey) : null;
+    },
+  };
+}
+
+export function createRelayerBackend(): FheBackend {
+  return createInstanceBackend("relayer", async () => {
+    const { createInstance, initSDK, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/bundle");
+    await initSDK();
+    return createInstance({ ...SepoliaConfig, network: window.ethereum });
+  });
+}
+
+// Talks to a local `npx hardhat node`: the fhevm hardhat plugin serves the relayer
+// endpoints over JSON-RPC and keeps cleartexts in its mock coprocessor, so results
+// are deterministic and nothing leaves the machine.
+export function createMockBackend(rpcUrl: string): FheBackend {
+  return createInstanceBackend("mock", async () => {
+    const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const metadata = await provider.send("fhevm_relayer_metadata", []);
+    const { chainId } = await provider.getNetwork();
+    const instance = await MockFhevmInstance.create(provider, provider, {
+      aclContractAddress: metadata.ACLAddress,
+      chainId: Number(chainId),
+      gatewayChainId: metadata.gatewayChainId,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      // Fixed gateway addresses used by the fhevm hardhat plugin
+      verifyingContractAddressDecryption: "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64",
+      verifyingContractAddressInputVerification: "0x812b06e1CDCE800494b79fFE4f925A504a9A9810",
+    });
+    return instance as unknown as FhevmInstance;
+  });
+}
+
+const config = configJson as { fheBackend?: FheBackendKind; networks?: Record<string, { rpcUrls: string[] }> };
+
+export const fheBackendKind: FheBackendKind =
+  (import.meta.env.VITE_FHE_BACKEND as FheBackendKind | undefined) ?? config.fheBackend ?? "relayer";
+
+let backend: FheBackend | null = null;
+
+export function getFheBackend(): FheBackend {
+  if (!backend) {
+    backend = fheBackendKind === "mock"
+      ? createMockBackend(config.networks?.["31337"]?.rpcUrls[0] ?? "http://127.0.0.1:8545")
+      : createRelayerBackend();
+  }
+  return backend;
+}
@@ -0,0 +1,35 @@
+// fheService.ts
+import { ethers } from "ethers";
+import type { EncryptedPostInput } from "./factCheckClient";
+import { getFheBackend, HandleContractPair } from "./fheBackend";
+
+// The contract only sees a 32-bit fingerprint of the post text, never the text itself
+export function contentFingerprint(content: string): number {
+  return Number(BigInt(ethers.keccak256(ethers.toUtf8Bytes(content))) >> 224n);
+}
+
+// Handles are bound to (contractAddress, user): only `user` can submit them, to that contract.
+export async function encryptPostInput(
+  contractAddress: string,
+  user: string,
+  content: string,
+  features: number[]
+): Promise<EncryptedPostInput> {
+  if (features.length !== 4) throw new Error("Expected 4 features");
+  const { handles, inputProof } = await getFheBackend().encrypt(contractAddress, user, [
+    contentFingerprint(content),
+    ...features,
+  ]);
+  return {
+    contentHash: handles[0],
+    features: [handles[1], handles[2], handles[3], handles[4]],
+    inputProof,
+  };
+}
+
+// Returns cleartexts in the order of `handles`. Prompts for an EIP-712 signature
+// when the signer has no live decryption session.
+export async function userDecrypt(signer: ethers.Signer, handles: HandleContractPair[]): Promise<bigint[]> {
+  const values = await getFheBackend().userDecrypt(signer, handles);
+  return handles.map(({ handle }) => values[handle.toLowerCase()]);
+}
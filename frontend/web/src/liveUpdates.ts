@@ -0,0 +1,121 @@
+// liveUpdates.ts
+import { ethers } from "ethers";
+import type { IndexedPost, PostIndexer } from "./postIndexer";
+
+export type LiveStatus = "live" | "polling" | "reconnecting";
+
+export interface PostDiff {
+  added: IndexedPost[];
+  updated: IndexedPost[];
+  removed: string[]; // ids whose submission was reorged out
+}
+
+export interface LiveUpdateOptions {
+  wsUrl?: string; // new heads over WebSocket; falls back to polling `pollProvider`
+  pollProvider: ethers.Provider;
+  pollingInterval?: number;
+  onDiff: (diff: PostDiff) => void;
+  onStatus?: (status: LiveStatus) => void;
+}
+
+const MAX_BACKOFF_MS = 30_000;
+
+const fingerprint = (p: IndexedPost) => `${p.status}:${p.flagged}:${p.score}:${p.modelVersion}:${p.blockNumber}`;
+
+// Merges a diff into a newest-first post list without reordering untouched rows.
+export function applyPostDiff<T extends { id: bigint; blockNumber: number }>(
+  posts: T[],
+  diff: { added: T[]; updated: T[]; removed: bigint[] }
+): T[] {
+  const updated = new Map(diff.updated.map((p) => [p.id, p]));
+  const removed = new Set(diff.removed);
+  const known = new Set(posts.map((p) => p.id));
+  const patched = posts.filter((p) => !removed.has(p.id)).map((p) => updated.get(p.id) ?? p);
+  const added = diff.added.filter((p) => !known.has(p.id));
+  return [...added, ...patched].sort((a, b) => b.blockNumber - a.blockNumber);
+}
+
+// Every new head triggers an indexer sync; the indexer does the actual log reading,
+// so a missed head (dropped socket, sleeping tab) costs nothing but latency: the
+// next sync catches up from the checkpoint. Reorgs inside the confirmation window
+// show up as posts whose block or state changed, or that vanished.
+export function subscribeToPosts(indexer: PostIndexer, initial: IndexedPost[], options: LiveUpdateOptions) {
+  const seen = new Map(initial.map((p) => [p.id, fingerprint(p)]));
+  let stopped = false;
+  let wsProvider: ethers.WebSocketProvider | null = null;
+  let pollProvider: ethers.Provider | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let backoff = 1000;
+
+  const refresh = async () => {
+    if (stopped) return;
+    try {
+      const posts = await indexer.sync();
+      const diff: PostDiff = { added: [], updated: [], removed: [] };
+      const current = new Set<string>();
+      for (const p of posts) {
+        current.add(p.id);
+        const prev = seen.get(p.id);
+        if (prev === undefined) diff.added.push(p);
+        else if (prev !== fingerprint(p)) diff.updated.push(p);
+        seen.set(p.id, fingerprint(p));
+      }
+      // A post submitted in a reorged-out block is simply gone; forget it so it
+      // counts as new if it is re-mined
+      for (const id of [...seen.keys()]) {
+        if (current.has(id)) continue;
+        seen.delete(id);
+        diff.removed.push(id);
+      }
+      if (diff.added.length || diff.updated.length || diff.removed.length) options.onDiff(diff);
+    } catch (e) {
+      console.error("Live update failed:", e);
+    }
+  };
+
+  const startPolling = () => {
+    pollProvider = options.pollProvider;
+    if ("pollingInterval" in pollProvider && options.pollingInterval) {
+      (pollProvider as ethers.JsonRpcProvider).pollingInterval = options.pollingInterval;
+    }
+    pollProvider.on("block", refresh);
+    options.onStatus?.("polling");
+  };
+
+  const connect = () => {
+    if (stopped || !options.wsUrl) return;
+    const provider = new ethers.WebSocketProvider(options.wsUrl);
+    wsProvider = provider;
+
+    const socket = provider.websocket as WebSocket;
+    socket.addEventListener("open", () => {
+      backoff = 1000;
+      options.onStatus?.("live");
+      // Catch up on anything that happened while disconnected
+      refresh();
+    });
+    socket.addEventListener("close", () => {
+      if (stopped || wsProvider !== provider) return;
+      wsProvider = null;
+      provider.destroy();
+      options.onStatus?.("reconnecting");
+      reconnectTimer = setTimeout(connect, backoff);
+      backoff = Math.min(backoff * 2, MAX_BACKOFF_MS);
+    });
+    provider.on("block", refresh);
+  };
+
+  if (options.wsUrl) connect();
+  else startPolling();
+
+  return () => {
+    stopped = true;
+    clearTimeout(reconnectTimer);
+    pollProvider?.off("block", refresh);
+    if (wsProvider) {
+      const provider = wsProvider;
+      wsProvider = null;
+      provider.destroy();
+    }
+  };
+}
@@ -5,15 +5,26 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
+import type { Chain } from 'viem';
 import { BrowserRouter } from 'react-router-dom';
+import { deployedChainIds } from './deployments';
+import { activeChainId } from './providerManager';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+// The wallet can switch between every chain with a deployment; the configured one comes first
+const knownChains: Chain[] = [sepolia, hardhat];
+const defaultChain = activeChainId === hardhat.id ? hardhat : sepolia;
+const chains: [Chain, ...Chain[]] = [
+  defaultChain,
+  ...knownChains.filter(chain => chain.id !== defaultChain.id && deployedChainIds().includes(chain.id)),
+];
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains,
 });
 
 const queryClient = new QueryClient();
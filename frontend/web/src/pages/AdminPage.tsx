@@ -0,0 +1,286 @@
+// AdminPage.tsx
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ethers } from "ethers";
+import { useAccount } from "wagmi";
+import { getContractReadOnly } from "../contract";
+import { ContractState, createFactCheckClient, FactCheckClient } from "../factCheckClient";
+import { batchPath, PageProps, providerPath } from "../routes";
+import { errorMessage, getTrackedClient } from "../transactionManager";
+import ConfirmDialog from "../components/ConfirmDialog";
+import PageMessage from "../components/PageMessage";
+
+interface AdminAction {
+  title: string;
+  message: React.ReactNode;
+  danger?: boolean;
+  pending: string;
+  success: string;
+  run: (client: FactCheckClient) => Promise<unknown>;
+}
+
+const AdminPage: React.FC<PageProps> = ({ notify }) => {
+  const { address } = useAccount();
+  const [state, setState] = useState<ContractState | null>(null);
+  const [providers, setProviders] = useState<string[]>([]);
+  const [roles, setRoles] = useState<{ admin: boolean; pauser: boolean } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [action, setAction] = useState<AdminAction | null>(null);
+  const [newProvider, setNewProvider] = useState("");
+  const [cooldown, setCooldown] = useState("");
+  const [deadline, setDeadline] = useState("");
+
+  const loadState = async () => {
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      const client = createFactCheckClient(contract);
+      const [contractState, providerList] = await Promise.all([
+        client.getContractState(),
+        client.listProviders(),
+      ]);
+      setState(contractState);
+      setProviders(providerList);
+      setCooldown(contractState.cooldownSeconds.toString());
+    } catch (e) {
+      console.error("Error loading contract state:", e);
+      notify("error", "Failed to load contract state: " + (e instanceof Error ? e.message : "Unknown error"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadState();
+  }, []);
+
+  // Every write below needs ADMIN_ROLE or PAUSER_ROLE; warn up front instead of
+  // letting the wallet pop up for a transaction that will revert
+  useEffect(() => {
+    if (!address) {
+      setRoles(null);
+      return;
+    }
+    getContractReadOnly().then(contract => contract && createFactCheckClient(contract).getAccountRoles(address).then(setRoles));
+  }, [address]);
+
+  const runAction = async () => {
+    if (!action) return;
+    const current = action;
+    setAction(null);
+
+    notify("pending", current.pending);
+    try {
+      await current.run(await getTrackedClient());
+      notify("success", current.success);
+      await loadState();
+    } catch (e) {
+      console.error(`${current.title} failed:`, e);
+      notify("error", `${current.title} failed: ${errorMessage(e)}`);
+    }
+  };
+
+  const confirmAddProvider = () => {
+    if (!ethers.isAddress(newProvider)) {
+      notify("error", "Enter a valid provider address");
+      return;
+    }
+    const provider = ethers.getAddress(newProvider);
+    setAction({
+      title: "Add Provider",
+      message: <p>Grant PROVIDER_ROLE to <strong>{provider}</strong>? It will be able to submit posts.</p>,
+      pending: "Adding provider...",
+      success: "Provider added",
+      run: async client => {
+        await client.addProvider(provider);
+        setNewProvider("");
+      },
+    });
+  };
+
+  const confirmRemoveProvider = (provider: string) => setAction({
+    title: "Remove Provider",
+    message: <p>Revoke PROVIDER_ROLE from <strong>{provider}</strong>? Its existing posts are kept.</p>,
+    danger: true,
+    pending: "Removing provider...",
+    success: "Provider removed",
+    run: client => client.removeProvider(provider),
+  });
+
+  const confirmSetCooldown = () => {
+    if (!/^\d+$/.test(cooldown)) {
+      notify("error", "Cooldown must be a whole number of seconds");
+      return;
+    }
+    setAction({
+      title: "Set Cooldown",
+      message: <p>Change the submission cooldown from {state?.cooldownSeconds.toString()}s to <strong>{cooldown}s</strong>?</p>,
+      pending: "Updating cooldown...",
+      success: "Cooldown updated",
+      run: client => client.setCooldown(BigInt(cooldown)),
+    });
+  };
+
+  const confirmTogglePause = () => setAction(state?.paused ? {
+    title: "Unpause",
+    message: <p>Resume submissions, processing and batch changes?</p>,
+    pending: "Unpausing...",
+    success: "Contract unpaused",
+    run: client => client.unpause(),
+  } : {
+    title: "Pause",
+    message: <p>Stop all submissions, processing and batch changes until the contract is unpaused?</p>,
+    danger: true,
+    pending: "Pausing...",
+    success: "Contract paused",
+    run: client => client.pause(),
+  });
+
+  const confirmToggleBatch = () => {
+    if (state?.batchOpen) {
+      setAction({
+        title: "Close Batch",
+        message: <p>Close batch <strong>#{state.currentBatchId.toString()}</strong>? No more posts can join it.</p>,
+        danger: true,
+        pending: "Closing batch...",
+        success: "Batch closed",
+        run: client => client.closeBatch(),
+      });
+      return;
+    }
+    const until = deadline ? Math.floor(new Date(deadline).getTime() / 1000) : undefined;
+    setAction({
+      title: "Open Batch",
+      message: <p>Open a new batch{until ? <> that closes at <strong>{new Date(until * 1000).toLocaleString()}</strong></> : ""}?</p>,
+      pending: "Opening batch...",
+      success: "Batch opened",
+      run: async client => {
+        await client.openBatch(until);
+        setDeadline("");
+      },
+    });
+  };
+
+  if (loading) return <PageMessage title="Loading contract state..." />;
+  if (!state) return <PageMessage title="Contract state could not be loaded" />;
+
+  return (
+    <div className="page-card wide cyber-card">
+      <div className="page-header">
+        <h2>Admin Console</h2>
+        <button className="cyber-button" onClick={loadState}>Refresh</button>
+      </div>
+
+      <div className="page-body">
+        {address && roles && !roles.admin && (
+          <div className="admin-warning">
+            {address} does not hold ADMIN_ROLE; {roles.pauser ? "only pause and unpause will succeed" : "actions below will revert"}.
+          </div>
+        )}
+
+        <div className="post-info">
+          <div className="info-item">
+            <span>Owner:</span>
+            <strong>{state.owner}</strong>
+          </div>
+          <div className="info-item">
+            <span>Paused:</span>
+            <strong className={`status-badge ${state.paused ? "flagged" : "cleared"}`}>{state.paused ? "paused" : "active"}</strong>
+          </div>
+          <div className="info-item">
+            <span>Current Batch:</span>
+            <strong>
+              {state.currentBatchId > 0n
+                ? <Link to={batchPath(state.currentBatchId)}>#{state.currentBatchId.toString()}</Link>
+                : "None"}
+              {" "}({state.batchOpen ? "open" : "closed"})
+            </strong>
+          </div>
+          <div className="info-item">
+            <span>Submission Cooldown:</span>
+            <strong>{state.cooldownSeconds.toString()}s</strong>
+          </div>
+          <div className="info-item">
+            <span>Decryption Cooldown:</span>
+            <strong>{state.decryptionCooldownSeconds.toString()}s</strong>
+          </div>
+          <div className="info-item">
+            <span>Review Threshold:</span>
+            <strong>{state.reviewThreshold}</strong>
+          </div>
+          <div className="info-item">
+            <span>Active Model:</span>
+            <strong>{state.activeModelVersion > 0n ? `v${state.activeModelVersion}` : "None"}</strong>
+          </div>
+        </div>
+
+        <h3>Operations</h3>
+        <div className="admin-actions">
+          <div className="admin-action">
+            <button className={`cyber-button ${state.paused ? "primary" : "danger"}`} onClick={confirmTogglePause}>
+              {state.paused ? "Unpause Contract" : "Pause Contract"}
+            </button>
+          </div>
+          <div className="admin-action">
+            {!state.batchOpen && (
+              <input
+                type="datetime-local"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+                className="cyber-input"
+                title="Optional deadline"
+              />
+            )}
+            <button className="cyber-button" onClick={confirmToggleBatch}>
+              {state.batchOpen ? `Close Batch #${state.currentBatchId}` : "Open New Batch"}
+            </button>
+          </div>
+          <div className="admin-action">
+            <input
+              type="number"
+              min="0"
+              value={cooldown}
+              onChange={(e) => setCooldown(e.target.value)}
+              className="cyber-input"
+            />
+            <button className="cyber-button" onClick={confirmSetCooldown}>Set Cooldown (s)</button>
+          </div>
+        </div>
+
+        <h3>Providers ({providers.length})</h3>
+        <div className="admin-action">
+          <input
+            type="text"
+            placeholder="0x... provider address"
+            value={newProvider}
+            onChange={(e) => setNewProvider(e.target.value.trim())}
+            className="cyber-input"
+          />
+          <button className="cyber-button primary" onClick={confirmAddProvider}>Add Provider</button>
+        </div>
+        <ul className="provider-list">
+          {providers.length === 0 && <li>No providers registered</li>}
+          {providers.map(provider => (
+            <li key={provider}>
+              <Link to={providerPath(provider)}>{provider}</Link>
+              <button className="cyber-button danger" onClick={() => confirmRemoveProvider(provider)}>Remove</button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {action && (
+        <ConfirmDialog
+          title={action.title}
+          message={action.message}
+          confirmLabel={action.title}
+          danger={action.danger}
+          onConfirm={runAction}
+          onCancel={() => setAction(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AdminPage;
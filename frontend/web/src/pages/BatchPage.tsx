@@ -0,0 +1,110 @@
+// BatchPage.tsx
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useAccount } from "wagmi";
+import { getContractReadOnly } from "../contract";
+import { BATCH_CHUNK_SIZE, BatchSummary, createFactCheckClient, PostSummary } from "../factCheckClient";
+import { PageProps, parseIdParam } from "../routes";
+import { errorMessage, getTrackedClient } from "../transactionManager";
+import PageMessage from "../components/PageMessage";
+import PostTable from "../components/PostTable";
+
+const BatchPage: React.FC<PageProps> = ({ notify }) => {
+  const params = useParams();
+  const batchId = parseIdParam(params.id);
+  const { isConnected } = useAccount();
+  const [batch, setBatch] = useState<BatchSummary | null>(null);
+  const [posts, setPosts] = useState<PostSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Only this batch's PostSubmitted logs are fetched (batchId is an indexed topic)
+  const loadBatch = async () => {
+    if (batchId === null) return;
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      const client = createFactCheckClient(contract);
+      const [summary, batchPosts] = await Promise.all([client.getBatch(batchId), client.listPosts({ batchId })]);
+      setBatch(summary);
+      setPosts(batchPosts);
+    } catch (e) {
+      console.error("Error loading batch:", e);
+      notify("error", "Failed to load batch: " + (e instanceof Error ? e.message : "Unknown error"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    setBatch(null);
+    setPosts([]);
+    loadBatch();
+  }, [params.id]);
+
+  const processBatch = async () => {
+    if (batchId === null) return;
+    if (!isConnected) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    // Large batches take several clicks, BATCH_CHUNK_SIZE posts at a time
+    notify("pending", `Scoring up to ${BATCH_CHUNK_SIZE} posts of batch #${batchId}...`);
+    try {
+      await (await getTrackedClient()).processBatch(batchId);
+      notify("success", "Batch scored, waiting for decryption");
+      await loadBatch();
+    } catch (e) {
+      notify("error", "Batch processing failed: " + errorMessage(e));
+    }
+  };
+
+  if (batchId === null) return <PageMessage title="Invalid batch id" />;
+  if (loading) return <PageMessage title="Loading batch..." />;
+  // Batches that were never opened read back as all zeroes
+  if (!batch || (batch.submitted === 0n && !batch.open && posts.length === 0)) {
+    return <PageMessage title={`Batch #${batchId} not found`} />;
+  }
+
+  return (
+    <div className="page-card wide cyber-card">
+      <div className="page-header">
+        <h2>Batch #{batch.id.toString()}</h2>
+        <Link to="/" className="cyber-button">Back to dashboard</Link>
+      </div>
+
+      <div className="page-body">
+        <div className="stats-grid">
+          <div className="stat-item">
+            <div className="stat-value">{batch.submitted.toString()}</div>
+            <div className="stat-label">Submitted</div>
+          </div>
+          <div className="stat-item">
+            <div className="stat-value">{batch.processed.toString()}</div>
+            <div className="stat-label">Processed</div>
+          </div>
+          <div className="stat-item">
+            <div className="stat-value">{batch.flagged.toString()}</div>
+            <div className="stat-label">Flagged</div>
+          </div>
+          <div className="stat-item">
+            <div className="stat-value">{batch.open ? "Open" : "Closed"}</div>
+            <div className="stat-label">
+              {batch.deadline > 0n ? `Deadline ${new Date(Number(batch.deadline) * 1000).toLocaleString()}` : "No deadline"}
+            </div>
+          </div>
+        </div>
+
+        {!batch.open && posts.some(p => p.status === "pending") && (
+          <button className="cyber-button primary" onClick={processBatch}>Process Batch</button>
+        )}
+
+        <h3>Posts</h3>
+        <PostTable posts={posts} emptyText="No posts in this batch" />
+      </div>
+    </div>
+  );
+};
+
+export default BatchPage;
@@ -0,0 +1,447 @@
+// DashboardPage.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { useAccount } from "wagmi";
+import { config, getContractReadOnly, getSelectedDeployment } from "../contract";
+import { createFactCheckClient, PostStatus, PostSummary } from "../factCheckClient";
+import { createPostIndexer, IndexedPost, PostIndexer, toPostSummary } from "../postIndexer";
+import { applyPostDiff, LiveStatus, subscribeToPosts } from "../liveUpdates";
+import { DEFAULT_QUERY, POST_STATUSES, PostQuery, queryFromParams, queryToParams, runPostQuery, SortKey } from "../postQuery";
+import { batchPath, PageProps, postPath, providerPath } from "../routes";
+import { errorMessage, getTrackedClient } from "../transactionManager";
+import RiskMeter from "../components/RiskMeter";
+
+interface DashboardPageProps extends PageProps {
+  onCreatePost: () => void;
+}
+
+const DashboardPage: React.FC<DashboardPageProps> = ({ notify, onCreatePost }) => {
+  const { isConnected } = useAccount();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [posts, setPosts] = useState<PostSummary[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [contractAddress, setContractAddress] = useState<string>("");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const indexerRef = useRef<PostIndexer | null>(null);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus | null>(null);
+  const [newItems, setNewItems] = useState(0);
+  const [batchState, setBatchState] = useState<{ currentBatchId: bigint; batchOpen: boolean }>({ currentBatchId: 0n, batchOpen: false });
+
+  // Stats calculations
+  const flaggedCount = posts.filter(p => p.status === "flagged").length;
+  const pendingCount = posts.filter(p => p.status === "pending" || p.status === "processing").length;
+  const clearedCount = posts.filter(p => p.status === "cleared").length;
+  const totalScore = posts.reduce((sum, post) => sum + (post.status === "flagged" ? post.score ?? 0 : 0), 0);
+  const avgFlaggedScore = flaggedCount > 0 ? totalScore / flaggedCount : 0;
+
+  // Filters, sorting and the page cursor live in the URL so a filtered view can be shared
+  const query = useMemo(() => queryFromParams(searchParams), [searchParams]);
+  const page = useMemo(() => runPostQuery(posts, query), [posts, query]);
+
+  const updateQuery = (patch: Partial<PostQuery>) => {
+    // Any change other than paging starts again from the first page
+    const paging = "after" in patch || "before" in patch;
+    const next = { ...query, ...(paging ? {} : { after: undefined, before: undefined }), ...patch };
+    setSearchParams(queryToParams(next), { replace: !paging });
+  };
+
+  const sortBy = (sort: SortKey) => {
+    updateQuery({ sort, order: query.sort === sort && query.order === "desc" ? "asc" : "desc" });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    loadPosts().then(async initial => {
+      const contract = await getContractReadOnly();
+      if (cancelled || !contract || !indexerRef.current || !initial) return;
+      setContractAddress(await contract.getAddress());
+
+      // New posts, scoring and oracle callbacks are patched into the list as they land
+      unsubscribe = subscribeToPosts(indexerRef.current, initial, {
+        wsUrl: import.meta.env.VITE_WS_URL ?? (config as { wsUrl?: string }).wsUrl,
+        pollProvider: contract.runner!.provider!,
+        onStatus: setLiveStatus,
+        onDiff: diff => {
+          setPosts(prev => applyPostDiff(prev, {
+            added: diff.added.map(toPostSummary),
+            updated: diff.updated.map(toPostSummary),
+            removed: diff.removed.map(id => BigInt(id))
+          }));
+          if (diff.added.length > 0) setNewItems(n => n + diff.added.length);
+        }
+      });
+    }).finally(() => setLoading(false));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  const loadPosts = async (): Promise<IndexedPost[] | undefined> => {
+    setIsRefreshing(true);
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+
+      if (!indexerRef.current) {
+        indexerRef.current = createPostIndexer(contract, { startBlock: getSelectedDeployment()?.deployBlock });
+        // Show the last session's posts straight away, then catch up page by page
+        const cached = await indexerRef.current.loadCached();
+        if (cached.length > 0) {
+          setPosts(cached.map(toPostSummary));
+          setLoading(false);
+        }
+      }
+
+      setBatchState(await createFactCheckClient(contract).getBatchState());
+      return await indexerRef.current.sync(page => {
+        setPosts(page.map(toPostSummary));
+        setLoading(false);
+      });
+    } catch (e) { 
+      console.error("Error loading posts:", e); 
+      notify("error", "Failed to load posts: " + (e instanceof Error ? e.message : "Unknown error"));
+    } finally { 
+      setIsRefreshing(false); 
+      setLoading(false); 
+    }
+  };
+
+  const analyzePost = async (postId: bigint) => {
+    if (!isConnected) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    notify("pending", "Analyzing with FHE model...");
+
+    try {
+      const client = await getTrackedClient();
+      await client.processPost(postId);
+      
+      notify("success", "Encrypted score computed, waiting for decryption");
+      await loadPosts();
+    } catch (e) {
+      notify("error", "Analysis failed: " + errorMessage(e));
+    }
+  };
+
+  const toggleBatch = async () => {
+    if (!isConnected) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+
+    notify("pending", batchState.batchOpen ? "Closing batch..." : "Opening batch...");
+
+    try {
+      const client = await getTrackedClient();
+      if (batchState.batchOpen) await client.closeBatch();
+      else await client.openBatch();
+
+      notify("success", batchState.batchOpen ? "Batch closed" : "Batch opened");
+      await loadPosts();
+    } catch (e) {
+      notify("error", "Batch update failed: " + errorMessage(e));
+    }
+  };
+
+  if (loading) return (
+    <div className="loading-screen">
+      <div className="cyber-spinner"></div>
+      <p>Initializing FHE connection...</p>
+    </div>
+  );
+
+  return (
+    <>
+      <div className="dashboard-page">
+        <div className="welcome-banner">
+          <div className="welcome-text">
+            <h2>FHE-Powered Misinformation Detection</h2>
+            <p>Analyze social media content with Zama FHE while preserving privacy</p>
+          </div>
+          <div className="fhe-indicator">
+            <div className="fhe-lock"></div>
+            <span>FHE Encryption Active</span>
+          </div>
+        </div>
+
+        <div className="dashboard-grid">
+          <div className="dashboard-card cyber-card">
+            <h3>Project Introduction</h3>
+            <p>
+              This AI agent uses <strong>Zama FHE technology</strong> to detect potential misinformation in social media posts 
+              while keeping all content encrypted. Posts are analyzed homomorphically against known misinformation patterns.
+            </p>
+            <div className="fhe-badge"><span>FHE-Powered</span></div>
+          </div>
+
+          <div className="dashboard-card cyber-card">
+            <h3>Detection Statistics</h3>
+            <div className="stats-grid">
+              <div className="stat-item">
+                <div className="stat-value">{posts.length}</div>
+                <div className="stat-label">Total Posts</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-value">{flaggedCount}</div>
+                <div className="stat-label">Flagged</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-value">{pendingCount}</div>
+                <div className="stat-label">Pending</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-value">{clearedCount}</div>
+                <div className="stat-label">Cleared</div>
+              </div>
+              <div className="stat-item wide">
+                <div className="stat-value">{avgFlaggedScore.toFixed(1)}%</div>
+                <div className="stat-label">Avg Flagged Score</div>
+              </div>
+            </div>
+          </div>
+
+          <div className="dashboard-card cyber-card">
+            <h3>Quick Actions</h3>
+            <div className="action-buttons">
+              <button onClick={() => loadPosts()} className="cyber-button" disabled={isRefreshing}>
+                {isRefreshing ? "Refreshing..." : "Refresh Data"}
+              </button>
+              <button onClick={onCreatePost} className="cyber-button primary">
+                Submit New Post
+              </button>
+              <button onClick={toggleBatch} className="cyber-button">
+                {batchState.batchOpen ? `Close Batch #${batchState.currentBatchId}` : "Open New Batch"}
+              </button>
+              {batchState.currentBatchId > 0n && (
+                <Link to={batchPath(batchState.currentBatchId)} className="cyber-button">
+                  View Batch #{batchState.currentBatchId.toString()}
+                </Link>
+              )}
+              <button 
+                onClick={() => contractAddress && navigator.clipboard.writeText(contractAddress)} 
+                className="cyber-button"
+              >
+                Copy Contract Address
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="posts-section">
+          <div className="section-header">
+            <h2>
+              Encrypted Post Analysis
+              {liveStatus && <span className={`live-status ${liveStatus}`}>{liveStatus}</span>}
+            </h2>
+            <div className="filter-controls">
+              <div className="search-box">
+                <input
+                  type="text"
+                  placeholder="Search by post ID or submitter..."
+                  value={query.search ?? ""}
+                  onChange={(e) => updateQuery({ search: e.target.value || undefined })}
+                  className="cyber-input"
+                />
+              </div>
+              <button onClick={() => loadPosts()} className="refresh-btn cyber-button" disabled={isRefreshing}>
+                {isRefreshing ? "Refreshing..." : "Refresh"}
+              </button>
+            </div>
+          </div>
+
+          <PostFilters query={query} onChange={updateQuery} />
+
+          <div className="posts-list cyber-card">
+            <div className="table-header">
+              <div className="header-cell">ID</div>
+              <div className="header-cell">Batch</div>
+              <div className="header-cell sortable" onClick={() => sortBy("submitter")}>Submitter{sortMark(query, "submitter")}</div>
+              <div className="header-cell sortable" onClick={() => sortBy("timestamp")}>Date{sortMark(query, "timestamp")}</div>
+              <div className="header-cell sortable" onClick={() => sortBy("score")}>Risk Score{sortMark(query, "score")}</div>
+              <div className="header-cell sortable" onClick={() => sortBy("status")}>Status{sortMark(query, "status")}</div>
+              <div className="header-cell">Actions</div>
+            </div>
+
+            {page.items.length === 0 ? (
+              <div className="no-posts">
+                <div className="no-posts-icon"></div>
+                <p>No posts found matching your criteria</p>
+                <button className="cyber-button primary" onClick={onCreatePost}>
+                  Create First Post
+                </button>
+              </div>
+            ) : page.items.map(post => (
+              <div 
+                className={`post-row ${post.status}`} 
+                key={post.id.toString()} 
+                onClick={() => navigate(postPath(post.id))}
+              >
+                <div className="table-cell post-id">#{post.id.toString(16).substring(0, 6)}</div>
+                <div className="table-cell">
+                  <Link to={batchPath(post.batchId)} onClick={(e) => e.stopPropagation()}>#{post.batchId.toString()}</Link>
+                </div>
+                <div className="table-cell">
+                  <Link to={providerPath(post.submitter)} onClick={(e) => e.stopPropagation()}>
+                    {post.submitter.substring(0, 6)}...{post.submitter.substring(38)}
+                  </Link>
+                </div>
+                <div className="table-cell">{new Date(post.timestamp * 1000).toLocaleDateString()}</div>
+                <div className="table-cell">
+                  {post.score !== null ? <RiskMeter score={post.score} /> : <span className="fhe-tag">Encrypted</span>}
+                </div>
+                <div className="table-cell">
+                  <span className={`status-badge ${post.status}`}>{post.status}</span>
+                </div>
+                <div className="table-cell actions">
+                  {post.status === "pending" && (
+                    <button 
+                      className="action-btn cyber-button" 
+                      onClick={(e) => { e.stopPropagation(); analyzePost(post.id); }}
+                    >
+                      Analyze
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="pagination">
+            <span className="pagination-info">
+              Showing {page.items.length} of {page.total} posts
+            </span>
+            <select
+              value={query.limit}
+              onChange={(e) => updateQuery({ limit: Number(e.target.value) })}
+              className="cyber-select"
+            >
+              {[10, 25, 50, 100].map(n => <option key={n} value={n}>{n} per page</option>)}
+            </select>
+            <button
+              className="cyber-button"
+              disabled={!page.prevCursor}
+              onClick={() => updateQuery({ before: page.prevCursor!, after: undefined })}
+            >
+              Prev
+            </button>
+            <button
+              className="cyber-button"
+              disabled={!page.nextCursor}
+              onClick={() => updateQuery({ after: page.nextCursor!, before: undefined })}
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {newItems > 0 && (
+        <div 
+          className="new-items-toast cyber-card" 
+          onClick={() => { setNewItems(0); updateQuery({ ...DEFAULT_QUERY, limit: query.limit }); window.scrollTo({ top: 0, behavior: "smooth" }); }}
+        >
+          {newItems} new {newItems === 1 ? "post" : "posts"} — click to view
+        </div>
+      )}
+
+    </>
+  );
+};
+
+interface PostFiltersProps {
+  query: PostQuery;
+  onChange: (patch: Partial<PostQuery>) => void;
+}
+
+const toDateInput = (unix?: number) => unix === undefined ? "" : new Date(unix * 1000).toISOString().slice(0, 10);
+const fromDateInput = (value: string, endOfDay: boolean) =>
+  value ? Math.floor(Date.parse(`${value}T${endOfDay ? "23:59:59" : "00:00:00"}Z`) / 1000) : undefined;
+const toScore = (value: string) => value === "" ? undefined : Math.max(0, Math.min(100, Number(value)));
+
+const PostFilters: React.FC<PostFiltersProps> = ({ query, onChange }) => {
+  const toggleStatus = (status: PostStatus) => {
+    const statuses = query.statuses.includes(status)
+      ? query.statuses.filter(s => s !== status)
+      : [...query.statuses, status];
+    onChange({ statuses });
+  };
+
+  return (
+    <div className="post-filters">
+      <div className="status-chips">
+        {POST_STATUSES.map(status => (
+          <button
+            key={status}
+            className={`status-chip ${status} ${query.statuses.includes(status) ? "active" : ""}`}
+            onClick={() => toggleStatus(status)}
+          >
+            {status}
+          </button>
+        ))}
+      </div>
+      <input
+        type="text"
+        placeholder="Submitter address"
+        value={query.submitter ?? ""}
+        onChange={(e) => onChange({ submitter: e.target.value.trim() || undefined })}
+        className="cyber-input"
+      />
+      <label>
+        From
+        <input
+          type="date"
+          value={toDateInput(query.fromTime)}
+          onChange={(e) => onChange({ fromTime: fromDateInput(e.target.value, false) })}
+          className="cyber-input"
+        />
+      </label>
+      <label>
+        To
+        <input
+          type="date"
+          value={toDateInput(query.toTime)}
+          onChange={(e) => onChange({ toTime: fromDateInput(e.target.value, true) })}
+          className="cyber-input"
+        />
+      </label>
+      <label>
+        Score
+        <input
+          type="number"
+          min="0"
+          max="100"
+          placeholder="min"
+          value={query.minScore ?? ""}
+          onChange={(e) => onChange({ minScore: toScore(e.target.value) })}
+          className="cyber-input score-input"
+        />
+        <input
+          type="number"
+          min="0"
+          max="100"
+          placeholder="max"
+          value={query.maxScore ?? ""}
+          onChange={(e) => onChange({ maxScore: toScore(e.target.value) })}
+          className="cyber-input score-input"
+        />
+      </label>
+      <button className="cyber-button" onClick={() => onChange({ ...DEFAULT_QUERY, limit: query.limit })}>
+        Clear
+      </button>
+    </div>
+  );
+};
+
+function sortMark(query: PostQuery, key: SortKey) {
+  if (query.sort !== key) return null;
+  return <span className="sort-mark">{query.order === "asc" ? " \u25B2" : " \u25BC"}</span>;
+}
+
+export default DashboardPage;
@@ -0,0 +1,209 @@
+// PostPage.tsx
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useAccount } from "wagmi";
+import { getContractReadOnly, getSigner } from "../contract";
+import { createFactCheckClient, FEATURE_LABELS, PostSummary } from "../factCheckClient";
+import { userDecrypt } from "../fheService";
+import { batchPath, PageProps, parseIdParam, providerPath } from "../routes";
+import { errorMessage, getTrackedClient } from "../transactionManager";
+import PageMessage from "../components/PageMessage";
+import RiskMeter from "../components/RiskMeter";
+
+// Reads the one post straight from the contract (its PostSubmitted log is found by the
+// indexed post id), so a shared link never waits on the full post list.
+const PostPage: React.FC<PageProps> = ({ notify }) => {
+  const params = useParams();
+  const postId = parseIdParam(params.id);
+  const { address, isConnected } = useAccount();
+  const [post, setPost] = useState<PostSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [decryptedFeatures, setDecryptedFeatures] = useState<number[] | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  const loadPost = async () => {
+    if (postId === null) return;
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      setPost(await createFactCheckClient(contract).getPost(postId));
+    } catch (e) {
+      console.error("Error loading post:", e);
+      notify("error", "Failed to load post: " + (e instanceof Error ? e.message : "Unknown error"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    setPost(null);
+    setDecryptedFeatures(null);
+    loadPost();
+  }, [params.id]);
+
+  // EIP-712 user decryption: only the submitter holds ACL access to a post's features
+  const decryptFeatures = async () => {
+    if (!post) return;
+    if (decryptedFeatures !== null) {
+      setDecryptedFeatures(null);
+      return;
+    }
+    if (!isConnected) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setIsDecrypting(true);
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      const { features } = await createFactCheckClient(contract).getPostHandles(post.id);
+
+      const contractAddress = await contract.getAddress();
+      const values = await userDecrypt(await getSigner(), features.map(handle => ({ handle, contractAddress })));
+      setDecryptedFeatures(values.map(Number));
+    } catch (e) {
+      console.error("Decryption failed:", e);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const analyzePost = async () => {
+    if (!post) return;
+    if (!isConnected) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    notify("pending", "Analyzing with FHE model...");
+    try {
+      await (await getTrackedClient()).processPost(post.id);
+      notify("success", "Encrypted score computed, waiting for decryption");
+      await loadPost();
+    } catch (e) {
+      notify("error", "Analysis failed: " + errorMessage(e));
+    }
+  };
+
+  if (postId === null) return <PageMessage title="Invalid post id" />;
+  if (loading) return <PageMessage title="Loading post..." />;
+  if (!post) return <PageMessage title={`Post 0x${postId.toString(16)} not found`} />;
+
+  const score = post.score;
+  const canDecrypt = address?.toLowerCase() === post.submitter.toLowerCase();
+
+  return (
+    <div className="page-card cyber-card">
+      <div className="page-header">
+        <h2>Post Analysis #{post.id.toString(16).substring(0, 8)}</h2>
+        <Link to="/" className="cyber-button">Back to dashboard</Link>
+      </div>
+
+      <div className="page-body">
+        <div className="post-info">
+          <div className="info-item">
+            <span>Batch:</span>
+            <strong><Link to={batchPath(post.batchId)}>#{post.batchId.toString()}</Link></strong>
+          </div>
+          <div className="info-item">
+            <span>Submitter:</span>
+            <strong>
+              <Link to={providerPath(post.submitter)}>{post.submitter.substring(0, 6)}...{post.submitter.substring(38)}</Link>
+            </strong>
+          </div>
+          <div className="info-item">
+            <span>Date:</span>
+            <strong>{new Date(post.timestamp * 1000).toLocaleString()}</strong>
+          </div>
+          <div className="info-item">
+            <span>Status:</span>
+            <strong className={`status-badge ${post.status}`}>{post.status}</strong>
+          </div>
+          {post.modelVersion > 0n && (
+            <div className="info-item">
+              <span>Model Version:</span>
+              <strong>v{post.modelVersion.toString()}</strong>
+            </div>
+          )}
+        </div>
+
+        <div className="encrypted-data-section">
+          <h3>Encrypted Content</h3>
+          <div className="encrypted-content">{post.contentHandle}</div>
+          <div className="fhe-tag">
+            <div className="fhe-icon"></div>
+            <span>FHE Encrypted</span>
+          </div>
+        </div>
+
+        <div className="score-section">
+          <h3>Misinformation Risk Score</h3>
+          {score !== null ? <RiskMeter score={score} /> : <p>Score is still encrypted on-chain</p>}
+          {post.status === "pending" && (
+            <button className="cyber-button" onClick={analyzePost}>Analyze</button>
+          )}
+          {canDecrypt && (
+            <button
+              className="decrypt-btn cyber-button"
+              onClick={decryptFeatures}
+              disabled={isDecrypting}
+            >
+              {isDecrypting ? (
+                <span className="decrypt-spinner"></span>
+              ) : decryptedFeatures !== null ? (
+                "Hide Decrypted Features"
+              ) : (
+                "Decrypt Features with Wallet Signature"
+              )}
+            </button>
+          )}
+        </div>
+
+        {decryptedFeatures !== null && (
+          <div className="decrypted-data-section">
+            <h3>Decrypted Features</h3>
+            <div className="post-info">
+              {FEATURE_LABELS.map((label, i) => (
+                <div className="info-item" key={label}>
+                  <span>{label}:</span>
+                  <strong>{decryptedFeatures[i]}</strong>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {score !== null && (
+          <div className="decrypted-data-section">
+            <h3>Decrypted Analysis</h3>
+            <div className="analysis-result">
+              {score > 70 ? (
+                <div className="warning-message">
+                  <div className="warning-icon"></div>
+                  <strong>High Risk of Misinformation ({score.toFixed(1)}%)</strong>
+                  <p>This content matches known patterns of misinformation in our encrypted model.</p>
+                </div>
+              ) : score > 40 ? (
+                <div className="caution-message">
+                  <div className="caution-icon"></div>
+                  <strong>Moderate Risk ({score.toFixed(1)}%)</strong>
+                  <p>This content shows some characteristics that may require further review.</p>
+                </div>
+              ) : (
+                <div className="safe-message">
+                  <div className="safe-icon"></div>
+                  <strong>Low Risk ({score.toFixed(1)}%)</strong>
+                  <p>This content appears to be legitimate based on our encrypted analysis.</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PostPage;
@@ -0,0 +1,105 @@
+// ProviderPage.tsx
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { getContractReadOnly } from "../contract";
+import { createFactCheckClient, PostSummary, ProviderSummary } from "../factCheckClient";
+import { PageProps, parseAddressParam } from "../routes";
+import PageMessage from "../components/PageMessage";
+import PostTable from "../components/PostTable";
+
+const formatTime = (unix: bigint) => unix > 0n ? new Date(Number(unix) * 1000).toLocaleString() : "Never";
+
+const ProviderPage: React.FC<PageProps> = ({ notify }) => {
+  const params = useParams();
+  const address = parseAddressParam(params.address);
+  const [provider, setProvider] = useState<ProviderSummary | null>(null);
+  const [posts, setPosts] = useState<PostSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (address === null) return;
+    let cancelled = false;
+    setLoading(true);
+
+    // Submitter is an indexed topic, so only this provider's posts are fetched
+    (async () => {
+      try {
+        const contract = await getContractReadOnly();
+        if (!contract || cancelled) return;
+        const client = createFactCheckClient(contract);
+        const [summary, submitted] = await Promise.all([client.getProvider(address), client.listPosts({ submitter: address })]);
+        if (cancelled) return;
+        setProvider(summary);
+        setPosts(submitted);
+      } catch (e) {
+        console.error("Error loading provider:", e);
+        notify("error", "Failed to load provider: " + (e instanceof Error ? e.message : "Unknown error"));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  if (address === null) return <PageMessage title="Invalid provider address" />;
+  if (loading) return <PageMessage title="Loading provider..." />;
+  if (!provider) return <PageMessage title="Provider could not be loaded" />;
+
+  const flagged = posts.filter(p => p.status === "flagged").length;
+
+  return (
+    <div className="page-card wide cyber-card">
+      <div className="page-header">
+        <h2>Provider {address.substring(0, 6)}...{address.substring(38)}</h2>
+        <Link to="/" className="cyber-button">Back to dashboard</Link>
+      </div>
+
+      <div className="page-body">
+        <div className="post-info">
+          <div className="info-item">
+            <span>Address:</span>
+            <strong>{address}</strong>
+          </div>
+          <div className="info-item">
+            <span>Role:</span>
+            <strong className={`status-badge ${provider.isProvider ? "cleared" : "pending"}`}>
+              {provider.isProvider ? "provider" : "not a provider"}
+            </strong>
+          </div>
+          <div className="info-item">
+            <span>Posts:</span>
+            <strong>{posts.length} ({flagged} flagged)</strong>
+          </div>
+          <div className="info-item">
+            <span>Last Submission:</span>
+            <strong>{formatTime(provider.lastSubmissionTime)}</strong>
+          </div>
+          <div className="info-item">
+            <span>Next Submission:</span>
+            <strong>{formatTime(provider.nextSubmissionTime)}</strong>
+          </div>
+          <div className="info-item">
+            <span>Remaining Quota:</span>
+            <strong>{provider.remainingQuota === null ? "Unlimited" : provider.remainingQuota.toString()}</strong>
+          </div>
+          {provider.limits && (
+            <div className="info-item">
+              <span>Limit Overrides:</span>
+              <strong>
+                {provider.limits.submissionCooldown.toString()}s / {provider.limits.decryptionCooldown.toString()}s / {provider.limits.epochQuota.toString()} per epoch
+              </strong>
+            </div>
+          )}
+        </div>
+
+        <h3>Submitted Posts</h3>
+        <PostTable posts={posts} emptyText="This provider has not submitted any posts" />
+      </div>
+    </div>
+  );
+};
+
+export default ProviderPage;
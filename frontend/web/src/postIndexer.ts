@@ -0,0 +1,303 @@
+// postIndexer.ts
+import { ethers } from "ethers";
+import type { AIFactCheckFHE } from "./abi/AIFactCheckFHE";
+import { blockPages, DEFAULT_BLOCK_RANGE } from "./blockPages";
+import { OnChainPostStatus, PostSummary, toPostStatus } from "./factCheckClient";
+
+// Post state rebuilt purely from contract events. Ids are decimal strings so
+// records can be used as IndexedDB keys.
+export interface IndexedPost {
+  id: string;
+  batchId: string;
+  submitter: string;
+  blockNumber: number;
+  txHash: string;
+  timestamp: number;
+  status: OnChainPostStatus;
+  flagged: boolean;
+  score: number | null;
+  modelVersion: string;
+}
+
+interface PendingRequest {
+  postIds: string[];
+  unlock: boolean; // cancelling an unlock puts the post back to VerdictRevealed
+}
+
+interface Checkpoint {
+  key: "checkpoint";
+  lastBlock: number;
+  reviewThreshold: number;
+  requests: Record<string, PendingRequest>;
+}
+
+export interface SyncProgress {
+  fromBlock: number;
+  toBlock: number;
+  headBlock: number;
+}
+
+export interface PostIndexerOptions {
+  startBlock?: number; // deploy block; nothing before it is scanned
+  blockRange?: number; // getLogs page size, kept under common RPC limits
+  confirmations?: number; // blocks below the head that are still treated as reorgable
+}
+
+// Matches the constructor default; later changes arrive as ReviewThresholdSet
+const INITIAL_REVIEW_THRESHOLD = 70;
+const DB_VERSION = 1;
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDb = (name: string) => {
+  const req = indexedDB.open(name, DB_VERSION);
+  req.onupgradeneeded = () => {
+    req.result.createObjectStore("posts", { keyPath: "id" });
+    req.result.createObjectStore("meta", { keyPath: "key" });
+  };
+  return request(req);
+};
+
+export function toPostSummary(post: IndexedPost): PostSummary {
+  return {
+    id: BigInt(post.id),
+    batchId: BigInt(post.batchId),
+    submitter: post.submitter,
+    timestamp: post.timestamp,
+    blockNumber: post.blockNumber,
+    status: toPostStatus(post.status, post.flagged),
+    score: post.score,
+    modelVersion: BigInt(post.modelVersion),
+  };
+}
+
+export function createPostIndexer(contract: AIFactCheckFHE, options: PostIndexerOptions = {}) {
+  const startBlock = options.startBlock ?? 0;
+  const blockRange = options.blockRange ?? DEFAULT_BLOCK_RANGE;
+  const confirmations = options.confirmations ?? 12;
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  let syncing: Promise<IndexedPost[]> | null = null;
+
+  const getDb = async () => {
+    if (!dbPromise) {
+      const { chainId } = await contract.runner!.provider!.getNetwork();
+      dbPromise = openDb(`factcheck-${chainId}-${(await contract.getAddress()).toLowerCase()}`);
+    }
+    return dbPromise;
+  };
+
+  const readAll = async (): Promise<{ posts: Map<string, IndexedPost>; checkpoint: Checkpoint }> => {
+    const db = await getDb();
+    const tx = db.transaction(["posts", "meta"], "readonly");
+    const [posts, checkpoint] = await Promise.all([
+      request<IndexedPost[]>(tx.objectStore("posts").getAll()),
+      request<Checkpoint | undefined>(tx.objectStore("meta").get("checkpoint")),
+    ]);
+    return {
+      posts: new Map(posts.map((p) => [p.id, p])),
+      checkpoint: checkpoint ?? {
+        key: "checkpoint",
+        lastBlock: startBlock - 1,
+        reviewThreshold: INITIAL_REVIEW_THRESHOLD,
+        requests: {},
+      },
+    };
+  };
+
+  // Posts and checkpoint are written in one transaction, so a reload never sees
+  // events applied without the checkpoint that covers them (or vice versa).
+  const persist = async (changed: IndexedPost[], checkpoint: Checkpoint) => {
+    const db = await getDb();
+    const tx = db.transaction(["posts", "meta"], "readwrite");
+    const store = tx.objectStore("posts");
+    changed.forEach((p) => store.put(p));
+    tx.objectStore("meta").put(checkpoint);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  };
+
+  const apply = (
+    log: ethers.Log,
+    event: ethers.LogDescription,
+    posts: Map<string, IndexedPost>,
+    checkpoint: Checkpoint,
+    scoredInTx: Map<string, string[]>,
+    changed: Set<string>
+  ) => {
+    const post = (id: bigint) => posts.get(id.toString());
+    const touch = (p: IndexedPost | undefined, patch: Partial<IndexedPost>) => {
+      if (!p) return;
+      Object.assign(p, patch);
+      changed.add(p.id);
+    };
+
+    switch (event.name) {
+      case "PostSubmitted": {
+        const id = event.args.postId.toString();
+        posts.set(id, {
+          id,
+          batchId: event.args.batchId.toString(),
+          submitter: event.args.submitter,
+          blockNumber: log.blockNumber,
+          txHash: log.transactionHash,
+          timestamp: 0,
+          status: OnChainPostStatus.Submitted,
+          flagged: false,
+          score: null,
+          modelVersion: "0",
+        });
+        changed.add(id);
+        break;
+      }
+      case "PostScored": {
+        const id = event.args.postId.toString();
+        touch(post(event.args.postId), { status: OnChainPostStatus.Processing, modelVersion: event.args.modelVersion.toString() });
+        scoredInTx.set(log.transactionHash, [...(scoredInTx.get(log.transactionHash) ?? []), id]);
+        break;
+      }
+      case "DecryptionRequested":
+      case "VerdictRequested": {
+        const p = post(event.args.postId);
+        checkpoint.requests[event.args.requestId.toString()] = {
+          postIds: [event.args.postId.toString()],
+          unlock: p?.status === OnChainPostStatus.VerdictRevealed,
+        };
+        touch(p, { status: OnChainPostStatus.Processing });
+        break;
+      }
+      case "BatchDecryptionRequested":
+        // processBatch scores the request's posts in the same transaction
+        checkpoint.requests[event.args.requestId.toString()] = {
+          postIds: scoredInTx.get(log.transactionHash) ?? [],
+          unlock: false,
+        };
+        break;
+      case "DecryptionCompleted": {
+        const score = Number(event.args.misinfoScore);
+        const p = post(event.args.postId);
+        touch(p, {
+          status: OnChainPostStatus.Decrypted,
+          score,
+          flagged: (p?.flagged ?? false) || score >= checkpoint.reviewThreshold,
+        });
+        delete checkpoint.requests[event.args.requestId.toString()];
+        break;
+      }
+      case "VerdictCompleted":
+        touch(post(event.args.postId), {
+          status: OnChainPostStatus.VerdictRevealed,
+          flagged: post(event.args.postId)?.flagged || event.args.flagged,
+        });
+        delete checkpoint.requests[event.args.requestId.toString()];
+        break;
+      case "DecryptionRetried":
+        checkpoint.requests[event.args.newRequestId.toString()] = checkpoint.requests[event.args.oldRequestId.toString()];
+        delete checkpoint.requests[event.args.oldRequestId.toString()];
+        break;
+      case "DecryptionCancelled": {
+        const pending = checkpoint.requests[event.args.requestId.toString()];
+        for (const id of pending?.postIds ?? []) {
+          touch(posts.get(id), { status: pending.unlock ? OnChainPostStatus.VerdictRevealed : OnChainPostStatus.Submitted });
+        }
+        delete checkpoint.requests[event.args.requestId.toString()];
+        break;
+      }
+      case "ReviewThresholdSet":
+        checkpoint.reviewThreshold = Number(event.args.newThreshold);
+        break;
+    }
+  };
+
+  const fillTimestamps = async (posts: IndexedPost[]) => {
+    const provider = contract.runner!.provider!;
+    const blocks = new Map<number, number>();
+    for (const p of posts) {
+      if (p.timestamp) continue;
+      if (!blocks.has(p.blockNumber)) blocks.set(p.blockNumber, (await provider.getBlock(p.blockNumber))?.timestamp ?? 0);
+      p.timestamp = blocks.get(p.blockNumber)!;
+    }
+  };
+
+  const sorted = (posts: Map<string, IndexedPost>) =>
+    [...posts.values()].sort((a, b) => b.blockNumber - a.blockNumber);
+
+  const applyLogs = (logs: ethers.Log[], posts: Map<string, IndexedPost>, checkpoint: Checkpoint) => {
+    const changed = new Set<string>();
+    const scoredInTx = new Map<string, string[]>();
+    for (const log of logs) {
+      const event = contract.interface.parseLog(log);
+      if (event) apply(log, event, posts, checkpoint, scoredInTx, changed);
+    }
+    return [...changed].map((id) => posts.get(id)!);
+  };
+
+  const runSync = async (onPage?: (posts: IndexedPost[], progress: SyncProgress) => void) => {
+    const provider = contract.runner!.provider!;
+    const address = await contract.getAddress();
+    const { posts, checkpoint } = await readAll();
+    const headBlock = await provider.getBlockNumber();
+    const safeBlock = Math.max(checkpoint.lastBlock, headBlock - confirmations);
+
+    for (const { from, to } of blockPages(checkpoint.lastBlock + 1, safeBlock, blockRange)) {
+      const logs = await provider.getLogs({ address, fromBlock: from, toBlock: to });
+      const changedPosts = applyLogs(logs, posts, checkpoint);
+      await fillTimestamps(changedPosts);
+      checkpoint.lastBlock = to;
+      await persist(changedPosts, checkpoint);
+      onPage?.(sorted(posts), { fromBlock: from, toBlock: to, headBlock });
+    }
+
+    if (safeBlock >= headBlock) return sorted(posts);
+
+    // The unconfirmed tail is applied to a copy and never persisted: if it gets
+    // reorged, the next sync simply replays whatever the canonical chain now holds.
+    const tailPosts = new Map([...posts].map(([id, p]) => [id, { ...p }]));
+    const tailCheckpoint = structuredClone(checkpoint);
+    const logs = await provider.getLogs({ address, fromBlock: safeBlock + 1, toBlock: headBlock });
+    await fillTimestamps(applyLogs(logs, tailPosts, tailCheckpoint));
+    onPage?.(sorted(tailPosts), { fromBlock: safeBlock + 1, toBlock: headBlock, headBlock });
+    return sorted(tailPosts);
+  };
+
+  return {
+    // Whatever was indexed in a previous session, without touching the RPC
+    async loadCached(): Promise<IndexedPost[]> {
+      return sorted((await readAll()).posts);
+    },
+
+    // Scans from the checkpoint to the head one page at a time, persisting only
+    // confirmed blocks. Concurrent callers share the running scan.
+    sync(onPage?: (posts: IndexedPost[], progress: SyncProgress) => void): Promise<IndexedPost[]> {
+      if (!syncing) syncing = runSync(onPage).finally(() => (syncing = null));
+      return syncing;
+    },
+
+    async getPost(postId: bigint): Promise<IndexedPost | null> {
+      const db = await getDb();
+      const post = await request<IndexedPost | undefined>(
+        db.transaction("posts", "readonly").objectStore("posts").get(postId.toString())
+      );
+      return post ?? null;
+    },
+
+    async clear(): Promise<void> {
+      const db = await getDb();
+      const tx = db.transaction(["posts", "meta"], "readwrite");
+      tx.objectStore("posts").clear();
+      tx.objectStore("meta").clear();
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      });
+    },
+  };
+}
+
+export type PostIndexer = ReturnType<typeof createPostIndexer>;
@@ -0,0 +1,169 @@
+// postQuery.ts
+import type { PostStatus, PostSummary } from "./factCheckClient";
+
+export type SortKey = "timestamp" | "score" | "status" | "submitter";
+export type SortOrder = "asc" | "desc";
+
+export const POST_STATUSES: PostStatus[] = ["pending", "processing", "cleared", "flagged"];
+
+export interface PostQuery {
+  statuses: PostStatus[]; // empty matches every status
+  submitter?: string;
+  search?: string; // post id (hex) or submitter substring
+  fromTime?: number; // unix seconds, inclusive
+  toTime?: number; // unix seconds, inclusive
+  minScore?: number; // posts without a public score never match a score range
+  maxScore?: number;
+  sort: SortKey;
+  order: SortOrder;
+  after?: string; // opaque cursors from a previous page
+  before?: string;
+  limit: number;
+}
+
+export interface PostPage {
+  items: PostSummary[];
+  total: number; // matches across all pages
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export const DEFAULT_QUERY: PostQuery = { statuses: [], sort: "timestamp", order: "desc", limit: 25 };
+
+// Status order used for sorting: least to most severe
+const STATUS_RANK: Record<PostStatus, number> = { pending: 0, processing: 1, cleared: 2, flagged: 3 };
+
+type SortValue = number | string;
+
+const sortValue = (post: PostSummary, key: SortKey): SortValue => {
+  switch (key) {
+    case "timestamp":
+      return post.blockNumber;
+    case "score":
+      return post.score ?? -1;
+    case "status":
+      return STATUS_RANK[post.status];
+    case "submitter":
+      return post.submitter.toLowerCase();
+  }
+};
+
+// Keyset ordering: the sort value, then the post id, so every post has a unique
+// position and cursors stay valid while new posts arrive.
+const compareKeys = (a: [SortValue, bigint], b: [SortValue, bigint], order: SortOrder) => {
+  const dir = order === "asc" ? 1 : -1;
+  if (a[0] !== b[0]) return a[0] < b[0] ? -dir : dir;
+  if (a[1] !== b[1]) return a[1] < b[1] ? -dir : dir;
+  return 0;
+};
+
+const encodeCursor = (post: PostSummary, key: SortKey) =>
+  btoa(JSON.stringify([sortValue(post, key), post.id.toString()]));
+
+const decodeCursor = (cursor: string): [SortValue, bigint] | null => {
+  try {
+    const [value, id] = JSON.parse(atob(cursor));
+    return [value, BigInt(id)];
+  } catch {
+    return null;
+  }
+};
+
+export function matchesQuery(post: PostSummary, query: PostQuery): boolean {
+  if (query.statuses.length > 0 && !query.statuses.includes(post.status)) return false;
+  if (query.submitter && post.submitter.toLowerCase() !== query.submitter.toLowerCase()) return false;
+  if (query.fromTime !== undefined && post.timestamp < query.fromTime) return false;
+  if (query.toTime !== undefined && post.timestamp > query.toTime) return false;
+  if (query.minScore !== undefined || query.maxScore !== undefined) {
+    if (post.score === null) return false;
+    if (query.minScore !== undefined && post.score < query.minScore) return false;
+    if (query.maxScore !== undefined && post.score > query.maxScore) return false;
+  }
+  if (query.search) {
+    const term = query.search.toLowerCase().replace(/^#|^0x/, "");
+    if (!post.id.toString(16).includes(term) && !post.submitter.toLowerCase().includes(term)) return false;
+  }
+  return true;
+}
+
+export function runPostQuery(posts: PostSummary[], query: PostQuery): PostPage {
+  const keyOf = (p: PostSummary): [SortValue, bigint] => [sortValue(p, query.sort), p.id];
+  const matches = posts
+    .filter((p) => matchesQuery(p, query))
+    .sort((a, b) => compareKeys(keyOf(a), keyOf(b), query.order));
+
+  let start = 0;
+  let end = Math.min(query.limit, matches.length);
+  const after = query.after ? decodeCursor(query.after) : null;
+  const before = query.before ? decodeCursor(query.before) : null;
+  if (after) {
+    start = matches.findIndex((p) => compareKeys(keyOf(p), after, query.order) > 0);
+    if (start < 0) start = matches.length;
+    end = Math.min(start + query.limit, matches.length);
+  } else if (before) {
+    end = matches.findIndex((p) => compareKeys(keyOf(p), before, query.order) >= 0);
+    if (end < 0) end = matches.length;
+    start = Math.max(0, end - query.limit);
+  }
+
+  const items = matches.slice(start, end);
+  return {
+    items,
+    total: matches.length,
+    nextCursor: end < matches.length && items.length > 0 ? encodeCursor(items[items.length - 1], query.sort) : null,
+    prevCursor: start > 0 && items.length > 0 ? encodeCursor(items[0], query.sort) : null,
+  };
+}
+
+// URL <-> query. Dates travel as YYYY-MM-DD so shared links stay readable.
+const toDate = (unix: number) => new Date(unix * 1000).toISOString().slice(0, 10);
+const fromDate = (value: string | null, endOfDay: boolean) => {
+  if (!value) return undefined;
+  const ms = Date.parse(`${value}T${endOfDay ? "23:59:59" : "00:00:00"}Z`);
+  return Number.isNaN(ms) ? undefined : Math.floor(ms / 1000);
+};
+const toNumber = (value: string | null) => {
+  if (value === null || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+export function queryFromParams(params: URLSearchParams): PostQuery {
+  const sort = params.get("sort") as SortKey | null;
+  const order = params.get("order");
+  const limit = toNumber(params.get("limit"));
+  return {
+    statuses: (params.get("status") ?? "")
+      .split(",")
+      .filter((s): s is PostStatus => POST_STATUSES.includes(s as PostStatus)),
+    submitter: params.get("submitter") || undefined,
+    search: params.get("q") || undefined,
+    fromTime: fromDate(params.get("from"), false),
+    toTime: fromDate(params.get("to"), true),
+    minScore: toNumber(params.get("minScore")),
+    maxScore: toNumber(params.get("maxScore")),
+    sort: sort && ["timestamp", "score", "status", "submitter"].includes(sort) ? sort : DEFAULT_QUERY.sort,
+    order: order === "asc" || order === "desc" ? order : DEFAULT_QUERY.order,
+    after: params.get("after") || undefined,
+    before: params.get("before") || undefined,
+    limit: limit && limit > 0 && limit <= 200 ? Math.floor(limit) : DEFAULT_QUERY.limit,
+  };
+}
+
+// Defaults are left out so an unfiltered view has a clean URL.
+export function queryToParams(query: PostQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.statuses.length > 0) params.set("status", query.statuses.join(","));
+  if (query.submitter) params.set("submitter", query.submitter);
+  if (query.search) params.set("q", query.search);
+  if (query.fromTime !== undefined) params.set("from", toDate(query.fromTime));
+  if (query.toTime !== undefined) params.set("to", toDate(query.toTime));
+  if (query.minScore !== undefined) params.set("minScore", String(query.minScore));
+  if (query.maxScore !== undefined) params.set("maxScore", String(query.maxScore));
+  if (query.sort !== DEFAULT_QUERY.sort) params.set("sort", query.sort);
+  if (query.order !== DEFAULT_QUERY.order) params.set("order", query.order);
+  if (query.after) params.set("after", query.after);
+  if (query.before) params.set("before", query.before);
+  if (query.limit !== DEFAULT_QUERY.limit) params.set("limit", String(query.limit));
+  return params;
+}
@@ -0,0 +1,222 @@
+// providerManager.ts
+import { ethers } from "ethers";
+import configJson from "./config.json";
+import { fheBackendKind } from "./fheBackend";
+
+export interface NetworkConfig {
+  name: string;
+  rpcUrls: string[];
+  quorum?: number; // endpoints that must agree on a read (default 1)
+  stallTimeout?: number; // ms before FallbackProvider also asks the next endpoint
+}
+
+export interface EndpointHealth {
+  url: string;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  latencyMs: number | null; // moving average of successful probes
+  openUntil: number; // circuit open (endpoint skipped) until this time
+  lastError?: string;
+}
+
+export interface ProviderManagerOptions {
+  probeTimeout?: number;
+  failureThreshold?: number; // consecutive failures that open the circuit
+  circuitCooldown?: number; // first open period; doubles while failures continue
+  maxCircuitCooldown?: number;
+  refreshInterval?: number; // how long a built provider is reused before re-ranking
+}
+
+const LATENCY_SMOOTHING = 0.3;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  Promise.race([
+    promise,
+    new Promise<never>((_, reject) => setTimeout(() => reject(new Error(`RPC timeout after ${ms}ms`)), ms)),
+  ]);
+
+// Ranks a chain's endpoints by health and latency and serves them as one
+// FallbackProvider. Endpoints that keep failing are skipped for a cooling-off
+// period; the last endpoint that answered is remembered across reloads and
+// probed first.
+export function createProviderManager(chainId: number, network: NetworkConfig, options: ProviderManagerOptions = {}) {
+  const probeTimeout = options.probeTimeout ?? 5000;
+  const failureThreshold = options.failureThreshold ?? 3;
+  const circuitCooldown = options.circuitCooldown ?? 30_000;
+  const maxCircuitCooldown = options.maxCircuitCooldown ?? 300_000;
+  const refreshInterval = options.refreshInterval ?? 60_000;
+  const lastGoodKey = `factcheck-rpc-${chainId}`;
+  const staticNetwork = new ethers.Network(network.name, chainId);
+
+  if (network.rpcUrls.length === 0) throw new Error(`No RPC endpoints configured for chain ${chainId}`);
+
+  const health = new Map<string, EndpointHealth>(
+    network.rpcUrls.map((url) => [
+      url,
+      { url, successes: 0, failures: 0, consecutiveFailures: 0, latencyMs: null, openUntil: 0 },
+    ])
+  );
+  const providers = new Map<string, ethers.JsonRpcProvider>();
+  let built: { provider: ethers.Provider; at: number } | null = null;
+  let building: Promise<ethers.Provider> | null = null;
+
+  const endpoint = (url: string) => {
+    let provider = providers.get(url);
+    if (!provider) {
+      provider = new ethers.JsonRpcProvider(url, staticNetwork, { staticNetwork });
+      providers.set(url, provider);
+    }
+    return provider;
+  };
+
+  const lastGood = () => {
+    try {
+      return localStorage.getItem(lastGoodKey);
+    } catch {
+      return null;
+    }
+  };
+
+  const recordSuccess = (url: string, latencyMs: number) => {
+    const h = health.get(url)!;
+    h.successes++;
+    h.consecutiveFailures = 0;
+    h.openUntil = 0;
+    h.latencyMs = h.latencyMs === null ? latencyMs : h.latencyMs + LATENCY_SMOOTHING * (latencyMs - h.latencyMs);
+    try {
+      localStorage.setItem(lastGoodKey, url);
+    } catch {
+      // Storage may be unavailable (private mode); the cache is only an optimisation
+    }
+  };
+
+  const recordFailure = (url: string, e: unknown) => {
+    const h = health.get(url)!;
+    h.failures++;
+    h.consecutiveFailures++;
+    h.lastError = e instanceof Error ? e.message : String(e);
+    if (h.consecutiveFailures >= failureThreshold) {
+      const trips = h.consecutiveFailures - failureThreshold;
+      h.openUntil = Date.now() + Math.min(circuitCooldown * 2 ** trips, maxCircuitCooldown);
+    }
+  };
+
+  const probe = async (url: string) => {
+    const started = performance.now();
+    try {
+      await withTimeout(endpoint(url).getBlockNumber(), probeTimeout);
+      recordSuccess(url, performance.now() - started);
+      return true;
+    } catch (e) {
+      recordFailure(url, e);
+      return false;
+    }
+  };
+
+  // Lower is better: measured latency, plus a penalty for the recent failure rate.
+  // Unmeasured endpoints sort after measured ones, the cached last-good one first.
+  const score = (h: EndpointHealth) => {
+    if (h.latencyMs === null) return h.url === lastGood() ? 0 : Number.MAX_SAFE_INTEGER;
+    const failureRate = h.failures / (h.successes + h.failures);
+    return h.latencyMs * (1 + 4 * failureRate);
+  };
+
+  const ranked = () => {
+    const now = Date.now();
+    return [...health.values()].filter((h) => h.openUntil <= now).sort((a, b) => score(a) - score(b));
+  };
+
+  const build = async (): Promise<ethers.Provider> => {
+    // Probe every closed (or half-open) endpoint in parallel; it costs one
+    // eth_blockNumber each and gives the ranking real latencies
+    const candidates = ranked();
+    await Promise.all(candidates.map((h) => probe(h.url)));
+    const healthy = ranked().filter((h) => h.consecutiveFailures === 0);
+    if (healthy.length === 0) {
+      const errors = [...health.values()].map((h) => `${h.url}: ${h.lastError ?? "circuit open"}`);
+      throw new Error(`All RPC endpoints for chain ${chainId} failed\n${errors.join("\n")}`);
+    }
+
+    // A single endpoint is served directly so node-specific RPC methods
+    // (e.g. the hardhat fhevm plugin's) stay reachable through send()
+    if (healthy.length === 1) return endpoint(healthy[0].url);
+
+    const quorum = Math.min(network.quorum ?? 1, healthy.length);
+    return new ethers.FallbackProvider(
+      healthy.map((h, i) => ({
+        provider: endpoint(h.url),
+        priority: i + 1,
+        weight: 1,
+        stallTimeout: network.stallTimeout ?? 1500,
+      })),
+      staticNetwork,
+      { quorum }
+    );
+  };
+
+  return {
+    chainId,
+    network,
+
+    async getProvider(): Promise<ethers.Provider> {
+      if (built && Date.now() - built.at < refreshInterval) return built.provider;
+      if (!building) {
+        building = build()
+          .then((provider) => {
+            built = { provider, at: Date.now() };
+            return provider;
+          })
+          .finally(() => (building = null));
+      }
+      return building;
+    },
+
+    // Forces a re-probe and re-rank on the next getProvider(), for callers
+    // whose reads failed through the current provider
+    invalidate(): void {
+      built = null;
+    },
+
+    getHealth(): EndpointHealth[] {
+      return [...health.values()].map((h) => ({ ...h }));
+    },
+  };
+}
+
+export type ProviderManager = ReturnType<typeof createProviderManager>;
+
+const config = configJson as { chainId?: number; networks?: Record<string, NetworkConfig> };
+
+// The mock FHE backend only exists on a local hardhat node
+export const activeChainId: number = Number(
+  import.meta.env.VITE_CHAIN_ID ?? (fheBackendKind === "mock" ? 31337 : config.chainId ?? 11155111)
+);
+
+export function hasNetworkConfig(chainId: number): boolean {
+  return Boolean(config.networks?.[String(chainId)]);
+}
+
+// RPC URLs with API keys belong in VITE_RPC_URLS (comma separated), not in config.json
+export function getNetworkConfig(chainId: number = activeChainId): NetworkConfig {
+  const network = config.networks?.[String(chainId)];
+  if (!network) throw new Error(`No network configured for chain ${chainId}`);
+  const envUrls = chainId === activeChainId ? import.meta.env.VITE_RPC_URLS : undefined;
+  const rpcUrls = envUrls ? envUrls.split(",").map((url) => url.trim()).filter(Boolean) : network.rpcUrls;
+  return { ...network, rpcUrls };
+}
+
+const managers = new Map<number, ProviderManager>();
+
+export function getProviderManager(chainId: number = activeChainId): ProviderManager {
+  let manager = managers.get(chainId);
+  if (!manager) {
+    manager = createProviderManager(chainId, getNetworkConfig(chainId));
+    managers.set(chainId, manager);
+  }
+  return manager;
+}
+
+export function getReadProvider(chainId: number = activeChainId): Promise<ethers.Provider> {
+  return getProviderManager(chainId).getProvider();
+}
@@ -0,0 +1,30 @@
+// revertData.ts
+// Dependency-free so the hardhat tasks can share it with the app
+
+// Follows `path` through nested objects, or gives undefined where it breaks off
+export function dig(value: unknown, path: string[]): unknown {
+  for (const key of path) {
+    if (typeof value !== "object" || value === null || !(key in value)) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+// Revert data sits at different depths depending on the node and wallet: hardhat
+// nests it in the JSON-RPC error's data, ethers keeps it on the error itself, and
+// injected wallets wrap the RPC error once more
+const REVERT_DATA_PATHS = [
+  ["data"],
+  ["data", "data"],
+  ["error", "data"],
+  ["info", "error", "data"],
+  ["info", "error", "data", "data"],
+];
+
+export function findRevertData(error: unknown): string | null {
+  for (const path of REVERT_DATA_PATHS) {
+    const candidate = dig(error, path);
+    if (typeof candidate === "string" && candidate.startsWith("0x") && candidate.length >= 10) return candidate;
+  }
+  return null;
+}
@@ -0,0 +1,28 @@
+// routes.ts
+import { ethers } from "ethers";
+
+// Post ids are keccak hashes, so they travel as hex; batch ids stay decimal.
+export const postPath = (id: bigint) => `/posts/0x${id.toString(16)}`;
+export const batchPath = (id: bigint) => `/batches/${id}`;
+export const providerPath = (address: string) => `/providers/${address}`;
+export const adminPath = "/admin";
+
+export function parseIdParam(value: string | undefined): bigint | null {
+  if (!value) return null;
+  try {
+    return BigInt(value);
+  } catch {
+    return null;
+  }
+}
+
+export function parseAddressParam(value: string | undefined): string | null {
+  return value && ethers.isAddress(value) ? ethers.getAddress(value) : null;
+}
+
+export type NoticeStatus = "pending" | "success" | "error";
+
+// Every page reports transaction progress through the shared overlay in App
+export interface PageProps {
+  notify: (status: NoticeStatus, message: string) => void;
+}
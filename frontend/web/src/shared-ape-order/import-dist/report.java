@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\shared-ape-order\import-dist\report.java
-// Generated at: 2025-10-21T07:53:55.471Z
\ No newline at end of file
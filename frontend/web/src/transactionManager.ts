@@ -0,0 +1,33 @@
+// transactionManager.ts
+import { ethers } from "ethers";
+import { ABI, getContractWithSigner, getSelectedChainId } from "./contract";
+import { decodeContractError } from "./contractErrors";
+import { createFactCheckClient, FactCheckClient } from "./factCheckClient";
+import { getReadProvider } from "./providerManager";
+import { createTransactionManager, TransactionError, TransactionManager } from "./transactionTracker";
+
+export type { TrackedTransaction, TxStatus } from "./transactionTracker";
+export { TransactionError };
+
+const factCheckInterface = new ethers.Interface(ABI);
+
+let manager: TransactionManager | null = null;
+
+export function getTransactionManager(): TransactionManager {
+  if (!manager) {
+    manager = createTransactionManager({ iface: factCheckInterface, getProvider: () => getReadProvider(getSelectedChainId()) });
+    manager.resume().catch((e) => console.error("Failed to resume transactions:", e));
+  }
+  return manager;
+}
+
+// Signer-backed client whose writes show up in the transaction history
+export async function getTrackedClient(): Promise<FactCheckClient> {
+  return createFactCheckClient(await getContractWithSigner(), { send: getTransactionManager().track });
+}
+
+// Message for any failure around a write: decoded reverts, rejections, or plain errors
+export function errorMessage(e: unknown): string {
+  if (e instanceof TransactionError) return e.message;
+  return decodeContractError(e, factCheckInterface).message;
+}
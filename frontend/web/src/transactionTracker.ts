@@ -0,0 +1,269 @@
+// transactionTracker.ts
+import { ethers } from "ethers";
+import { decodeContractError, DecodedError } from "./contractErrors";
+
+// signing -> submitted -> mined -> confirmed, or one of the terminal failures.
+// "unknown" means the node stopped answering; a later resume() picks the watch back up.
+export type TxStatus = "signing" | "submitted" | "mined" | "confirmed" | "failed" | "replaced" | "dropped" | "unknown";
+
+export interface TrackedTransaction {
+  id: string;
+  label: string;
+  status: TxStatus;
+  hash?: string;
+  from?: string;
+  nonce?: number;
+  chainId?: number;
+  blockNumber?: number;
+  replacedBy?: string;
+  error?: DecodedError;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export class TransactionError extends Error {
+  constructor(message: string, readonly errorName: string | null, readonly hash?: string) {
+    super(message);
+    this.name = "TransactionError";
+  }
+}
+
+export interface TransactionManagerOptions {
+  iface: ethers.Interface;
+  getProvider: () => Promise<ethers.Provider>; // used to resume tracking after a reload
+  confirmations?: number;
+  pollInterval?: number;
+  maxPollFailures?: number; // consecutive RPC errors before the watcher gives up
+  dropTimeout?: number; // ms a transaction may be unknown to the node before it counts as dropped
+  storageKey?: string;
+  historyLimit?: number;
+}
+
+const TERMINAL: TxStatus[] = ["confirmed", "failed", "replaced", "dropped"];
+const SETTLED: TxStatus[] = ["mined", "unknown", ...TERMINAL];
+
+const REPLACEMENT_GRACE_MS = 30_000;
+const MAX_BACKOFF_MS = 60_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function createTransactionManager(options: TransactionManagerOptions) {
+  const confirmations = options.confirmations ?? 3;
+  const pollInterval = options.pollInterval ?? 4000;
+  const maxPollFailures = options.maxPollFailures ?? 5;
+  const dropTimeout = options.dropTimeout ?? 120_000;
+  const storageKey = options.storageKey ?? "factcheck-transactions";
+  const historyLimit = options.historyLimit ?? 50;
+  const listeners = new Set<(history: TrackedTransaction[]) => void>();
+  const watching = new Set<string>();
+
+  const load = (): TrackedTransaction[] => {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey) ?? "[]");
+    } catch {
+      return [];
+    }
+  };
+  let history = load();
+
+  const save = () => {
+    history = history.slice(0, historyLimit);
+    localStorage.setItem(storageKey, JSON.stringify(history));
+    listeners.forEach((listener) => listener(history));
+  };
+
+  const find = (id: string) => history.find((t) => t.id === id);
+
+  // Terminal records are never reopened, so a late event from one watcher
+  // cannot overwrite what another already decided
+  const update = (id: string, patch: Partial<TrackedTransaction>) => {
+    const current = find(id);
+    if (!current || TERMINAL.includes(current.status)) return;
+    history = history.map((t) => (t.id === id ? { ...t, ...patch, updatedAt: Date.now() } : t));
+    save();
+  };
+
+  const fail = (id: string, e: unknown, hash?: string) => {
+    const error = decodeContractError(e, options.iface);
+    update(id, { status: "failed", error });
+    return new TransactionError(error.message, error.name, hash);
+  };
+
+  // Mined reverts carry no revert data; replaying the call against the parent
+  // block recovers the custom error.
+  const revertError = async (provider: ethers.Provider, hash: string, blockNumber: number) => {
+    const tx = await provider.getTransaction(hash);
+    if (!tx) return new Error("Transaction reverted");
+    try {
+      await provider.call({ to: tx.to, from: tx.from, data: tx.data, value: tx.value, blockTag: blockNumber - 1 });
+    } catch (e) {
+      return e;
+    }
+    return new Error("Transaction reverted");
+  };
+
+  // Polls the node until the transaction is confirmed, reverts, loses its nonce to
+  // another transaction, or stays unknown for longer than dropTimeout. RPC errors
+  // (rate limits, timeouts) are retried with backoff; after maxPollFailures in a row
+  // the record is marked unknown so nothing waits on it forever.
+  const watch = async (id: string, provider: ethers.Provider) => {
+    if (watching.has(id)) return;
+    watching.add(id);
+    let missingSince: number | null = null;
+    let nonceTakenSince: number | null = null;
+    let failures = 0;
+    try {
+      for (;;) {
+        const record = find(id);
+        if (!record?.hash || TERMINAL.includes(record.status)) return;
+
+        try {
+          const receipt = await provider.getTransactionReceipt(record.hash);
+          if (receipt) {
+            missingSince = null;
+            if (receipt.status === 0) {
+              fail(id, await revertError(provider, record.hash, receipt.blockNumber), record.hash);
+              return;
+            }
+            if ((await receipt.confirmations()) >= confirmations) {
+              update(id, { status: "confirmed", blockNumber: receipt.blockNumber, error: undefined });
+              return;
+            }
+            if (record.status !== "mined") update(id, { status: "mined", blockNumber: receipt.blockNumber, error: undefined });
+          } else {
+            // A mined transaction without a receipt was reorged out; it is pending again
+            if (record.status === "mined" || record.status === "unknown") {
+              update(id, { status: "submitted", blockNumber: undefined, error: undefined });
+            }
+
+            if (await provider.getTransaction(record.hash)) {
+              missingSince = null;
+            } else if (
+              record.from !== undefined &&
+              record.nonce !== undefined &&
+              (await provider.getTransactionCount(record.from, "latest")) > record.nonce
+            ) {
+              // Give tx.wait() a few blocks to report the replacement with its hash
+              nonceTakenSince ??= Date.now();
+              if (Date.now() - nonceTakenSince > REPLACEMENT_GRACE_MS) {
+                update(id, { status: "replaced", error: { name: null, message: "Replaced by another transaction" } });
+                return;
+              }
+            } else {
+              missingSince ??= Date.now();
+              if (Date.now() - missingSince > dropTimeout) {
+                update(id, { status: "dropped", error: { name: null, message: "Dropped from the mempool" } });
+                return;
+              }
+            }
+          }
+          failures = 0;
+        } catch (e) {
+          failures++;
+          if (failures >= maxPollFailures) {
+            console.error("Transaction watcher gave up:", e);
+            update(id, {
+              status: "unknown",
+              error: { name: null, message: "Lost contact with the node; the transaction may still go through" },
+            });
+            return;
+          }
+          console.warn(`Transaction watcher retrying after an RPC error (${failures}/${maxPollFailures}):`, e);
+          await sleep(Math.min(pollInterval * 2 ** failures, MAX_BACKOFF_MS));
+          continue;
+        }
+        await sleep(pollInterval);
+      }
+    } finally {
+      watching.delete(id);
+    }
+  };
+
+  const settled = (id: string) =>
+    new Promise<TrackedTransaction>((resolve) => {
+      const check = () => {
+        const record = find(id);
+        if (record && SETTLED.includes(record.status)) {
+          listeners.delete(check);
+          resolve(record);
+        }
+      };
+      listeners.add(check);
+      check();
+    });
+
+  return {
+    // Sends through the tracker and resolves with the receipt once mined;
+    // confirmation tracking carries on in the background.
+    async track(label: string, txPromise: Promise<ethers.TransactionResponse>): Promise<ethers.TransactionReceipt | null> {
+      const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      history = [{ id, label, status: "signing", createdAt: Date.now(), updatedAt: Date.now() }, ...history];
+      save();
+
+      let response: ethers.TransactionResponse;
+      try {
+        response = await txPromise;
+      } catch (e) {
+        throw fail(id, e);
+      }
+      update(id, {
+        status: "submitted",
+        hash: response.hash,
+        from: response.from,
+        nonce: response.nonce,
+        chainId: Number(response.chainId),
+      });
+
+      const provider = response.provider;
+      watch(id, provider);
+      // ethers spots replacements (wallet speed-up or cancel) and names the new hash
+      response.wait(1).catch((e) => {
+        if (!ethers.isError(e, "TRANSACTION_REPLACED")) return;
+        if (e.reason === "repriced") {
+          update(id, { hash: e.replacement.hash });
+        } else {
+          update(id, {
+            status: "replaced",
+            replacedBy: e.replacement.hash,
+            error: { name: null, message: e.reason === "cancelled" ? "Cancelled in the wallet" : "Replaced by another transaction" },
+          });
+        }
+      });
+
+      const record = await settled(id);
+      if (record.status === "mined" || record.status === "confirmed") {
+        return provider.getTransactionReceipt(record.hash!);
+      }
+      throw new TransactionError(record.error?.message ?? `Transaction ${record.status}`, record.error?.name ?? null, record.hash);
+    },
+
+    // Picks up transactions that were still in flight when the page was closed
+    async resume(): Promise<void> {
+      const interrupted = history.filter((t) => t.status === "signing");
+      interrupted.forEach((t) => update(t.id, { status: "failed", error: { name: null, message: "Interrupted before it was sent" } }));
+
+      const pending = history.filter((t) => t.status === "submitted" || t.status === "mined" || t.status === "unknown");
+      if (pending.length === 0) return;
+      const provider = await options.getProvider();
+      const { chainId } = await provider.getNetwork();
+      pending.filter((t) => t.chainId === Number(chainId)).forEach((t) => watch(t.id, provider));
+    },
+
+    getHistory(): TrackedTransaction[] {
+      return history;
+    },
+
+    subscribe(listener: (history: TrackedTransaction[]) => void): () => void {
+      listeners.add(listener);
+      return () => void listeners.delete(listener);
+    },
+
+    // Drops finished records; anything still in flight stays
+    clear(): void {
+      history = history.filter((t) => !TERMINAL.includes(t.status));
+      save();
+    },
+  };
+}
+
+export type TransactionManager = ReturnType<typeof createTransactionManager>;
@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_FHE_BACKEND?: "relayer" | "mock";
+  readonly VITE_WS_URL?: string;
+  readonly VITE_CHAIN_ID?: string;
+  readonly VITE_RPC_URLS?: string; // comma separated, for the active chain
+}
@@ -1,3 +0,0 @@
-import React from 'react';
-
-export default function constants-types() { return <div>Component</div>; }
@@ -1,18 +1,33 @@
-import { HardhatUserConfig } from "hardhat/config";
+import { HardhatUserConfig, vars } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+import "./tasks/compile";
+import "./tasks/config";
+import "./tasks/deploy";
+import "./tasks/factcheck";
+
+// Set with `npx hardhat vars set DEPLOYER_PRIVATE_KEY` (and optionally SEPOLIA_RPC_URL)
+const deployerKey = vars.get("DEPLOYER_PRIVATE_KEY", "");
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
+  namedAccounts: {
+    deployer: 0,
+  },
   networks: {
     hardhat: {
       chainId: 31337,
     },
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: vars.get("SEPOLIA_RPC_URL", "https://sepolia.drpc.org"),
+      accounts: deployerKey ? [deployerKey] : [],
     },
   },
   solidity: {
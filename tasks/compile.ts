@@ -0,0 +1,16 @@
+// tasks/compile.ts
+import path from "path";
+import { TASK_COMPILE } from "hardhat/builtin-tasks/task-names";
+import { task } from "hardhat/config";
+import { FACT_CHECK_CONTRACT } from "../utils/deployments";
+import { FRONTEND_ABI_DIR, writeFrontendArtifacts } from "../utils/frontendArtifacts";
+
+// Runs after TypeChain's own compile override, so the bindings it copies are fresh
+task(TASK_COMPILE).setAction(async (args, hre, runSuper) => {
+  const result = await runSuper(args);
+  const written = await writeFrontendArtifacts(hre, FACT_CHECK_CONTRACT);
+  if (written.length > 0 && !args.quiet) {
+    console.log(`Updated ${written.join(", ")} in ${path.relative(process.cwd(), FRONTEND_ABI_DIR)}`);
+  }
+  return result;
+});
@@ -0,0 +1,41 @@
+// tasks/config.ts
+import path from "path";
+import { task, types } from "hardhat/config";
+import { resolveFactCheck } from "../utils/factCheckContract";
+import { applyChanges, formatPlan, planChanges, readOnChainState } from "../utils/factCheckPlan";
+import { loadSettings, settingsPath } from "../utils/factCheckSettings";
+
+// Prints what it would take to bring a deployment in line with
+// config/<network>.json; with --apply it also sends those transactions.
+// Running it again afterwards prints an empty plan.
+//   npx hardhat factcheck:config --network sepolia
+//   npx hardhat factcheck:config --network sepolia --apply
+task("factcheck:config", "Diff AIFactCheckFHE admin settings against config/<network>.json and apply the plan")
+  .addOptionalParam("settings", "Settings file under config/ (defaults to the network name)", undefined, types.string)
+  .addOptionalParam("address", "Contract address (defaults to the recorded deployment)", undefined, types.string)
+  .addFlag("apply", "Send the planned transactions instead of only printing them")
+  .setAction(async (args, hre) => {
+    const settingsName: string = args.settings ?? hre.network.name;
+    const settings = loadSettings(settingsName);
+    const { factCheck } = await resolveFactCheck(hre, args.address);
+
+    const state = await readOnChainState(factCheck);
+    const changes = planChanges(settings, state);
+
+    console.log(`AIFactCheckFHE at ${await factCheck.getAddress()} on ${hre.network.name}`);
+    console.log(`Settings: ${path.relative(process.cwd(), settingsPath(settingsName))}`);
+    console.log(`Current: ${state.providers.length} providers, cooldown ${state.cooldownSeconds}s, ` +
+      `batch ${state.batchOpen ? "open" : "closed"}, ${state.paused ? "paused" : "active"}`);
+    console.log(`Plan:\n${formatPlan(changes)}`);
+
+    if (changes.length === 0) return;
+    if (!args.apply) {
+      console.log("Re-run with --apply to send these transactions");
+      return;
+    }
+    await applyChanges(factCheck, changes);
+
+    const remaining = planChanges(settings, await readOnChainState(factCheck));
+    if (remaining.length > 0) throw new Error(`Applied, but the state still differs:\n${formatPlan(remaining)}`);
+    console.log("Applied; on-chain state matches the settings");
+  });
@@ -0,0 +1,27 @@
+// tasks/deploy.ts
+import { task, types } from "hardhat/config";
+
+export interface DeployRunOptions {
+  dryRun: boolean;
+  settings: string; // name of the config/<name>.json file the deploy script applies
+}
+
+declare module "hardhat/types/runtime" {
+  interface HardhatRuntimeEnvironment {
+    deployRun?: DeployRunOptions;
+  }
+}
+
+// A dry run deploys and configures on the in-process hardhat network, using
+// another network's settings, and leaves the registry alone:
+//   npx hardhat deploy --dry-run --settings sepolia
+task("deploy")
+  .addFlag("dryRun", "Rehearse on the in-process hardhat network without recording anything")
+  .addOptionalParam("settings", "Settings file under config/ to apply (defaults to the network name)", undefined, types.string)
+  .setAction(async (args, hre, runSuper) => {
+    if (args.dryRun && hre.network.name !== "hardhat") {
+      throw new Error(`--dry-run only runs on the in-process hardhat network; drop --network ${hre.network.name}`);
+    }
+    hre.deployRun = { dryRun: args.dryRun, settings: args.settings ?? hre.network.name };
+    return runSuper(args);
+  });
@@ -0,0 +1,270 @@
+// tasks/factcheck.ts
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ethers } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { findRevertData } from "../frontend/web/src/revertData";
+import { AIFactCheckFHE } from "../types";
+import { resolveFactCheck } from "../utils/factCheckContract";
+import { printJson, printResult, Row } from "../utils/taskOutput";
+
+// Mirrors the contract's PostStatus enum
+const POST_STATUS = ["none", "submitted", "processing", "decrypted", "verdict revealed"];
+const PROCESSING = 2n;
+const DECRYPTED = 3n;
+
+const FEATURE_NAMES = ["interaction", "velocity", "sourceRisk", "rumorSimilarity"];
+
+// Same fingerprint as the frontend: the contract only ever sees 32 bits of the text's hash
+const contentFingerprint = (content: string) => Number(BigInt(ethers.keccak256(ethers.toUtf8Bytes(content))) >> 224n);
+
+const postIdHex = (postId: bigint) => ethers.toBeHex(postId, 32);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Post and batch ids are accepted in decimal or 0x-hex, the form the frontend shows
+function parseId(value: string, name: string): bigint {
+  try {
+    return BigInt(value);
+  } catch {
+    throw new Error(`--${name} must be a number or 0x-prefixed hex, got "${value}"`);
+  }
+}
+
+function parseFeatures(value: string): number[] {
+  const features = value.split(",").map((f) => Number(f.trim()));
+  if (features.length !== FEATURE_NAMES.length || features.some((f) => !Number.isInteger(f) || f < 0 || f > 100)) {
+    throw new Error(`--features takes ${FEATURE_NAMES.length} comma-separated whole numbers from 0 to 100`);
+  }
+  return features;
+}
+
+// A unix timestamp or anything Date.parse understands, e.g. 2026-11-01T12:00Z
+function parseDeadline(value: string): number {
+  const seconds = /^\d+$/.test(value) ? Number(value) : Math.floor(Date.parse(value) / 1000);
+  if (Number.isNaN(seconds)) throw new Error(`--deadline must be a unix timestamp or a date, got "${value}"`);
+  return seconds;
+}
+
+// The contract as seen by --account (one of the network's configured signers), or the deployer
+async function connect(hre: HardhatRuntimeEnvironment, args: { address?: string; account?: string }) {
+  const resolved = await resolveFactCheck(hre, args.address);
+  const factCheck = args.account ? resolved.factCheck.connect(await hre.ethers.getSigner(args.account)) : resolved.factCheck;
+  return { ...resolved, factCheck };
+}
+
+// Sends a transaction and waits for it to be mined, naming the custom error on a revert
+async function send(factCheck: AIFactCheckFHE, tx: Promise<ethers.ContractTransactionResponse>) {
+  try {
+    return (await (await tx).wait())!;
+  } catch (error) {
+    const data = findRevertData(error);
+    const parsed = data ? factCheck.interface.parseError(data) : null;
+    if (parsed) throw new Error(`Reverted with ${parsed.name}(${parsed.args.join(", ")})`, { cause: error });
+    throw error;
+  }
+}
+
+async function readPost(factCheck: AIFactCheckFHE, postId: bigint, fromBlock: number): Promise<Row> {
+  const [[event], status, flagged, score, batchId, modelVersion] = await Promise.all([
+    factCheck.queryFilter(factCheck.filters.PostSubmitted(undefined, undefined, postId), fromBlock),
+    factCheck.postStatus(postId),
+    factCheck.postFlagged(postId),
+    factCheck.decryptedMisinfoScore(postId),
+    factCheck.postBatchId(postId),
+    factCheck.scoreModelVersion(postId),
+  ]);
+  if (!event) throw new Error(`Post ${postIdHex(postId)} was not found`);
+  return {
+    postId: postIdHex(postId),
+    batchId,
+    submitter: event.args.submitter,
+    status: POST_STATUS[Number(status)],
+    score: status === DECRYPTED ? score : null,
+    flagged,
+    modelVersion: modelVersion || null,
+  };
+}
+
+async function readBatch(factCheck: AIFactCheckFHE, batchId: bigint): Promise<Row> {
+  const summary = await factCheck.getBatchSummary(batchId);
+  return {
+    batchId,
+    open: summary.open,
+    deadline: summary.deadline > 0n ? new Date(Number(summary.deadline) * 1000).toISOString() : null,
+    submitted: summary.submitted,
+    processed: summary.processed,
+    flagged: summary.flagged,
+  };
+}
+
+// The mock oracle only answers when asked to; on a real network the relayer
+// calls back on its own, so poll until no post is left processing
+async function awaitCallback(hre: HardhatRuntimeEnvironment, factCheck: AIFactCheckFHE, postIds: bigint[], timeoutSeconds: number) {
+  if (hre.fhevm.isMock) {
+    await hre.fhevm.awaitDecryptionOracle();
+    return;
+  }
+  const deadline = Date.now() + timeoutSeconds * 1000;
+  for (;;) {
+    const statuses = await Promise.all(postIds.map((postId) => factCheck.postStatus(postId)));
+    const pending = statuses.filter((status) => status === PROCESSING).length;
+    if (pending === 0) return;
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out after ${timeoutSeconds}s with ${pending} post(s) still waiting for the oracle`);
+    }
+    console.error(`Waiting for the decryption oracle (${pending} pending)...`);
+    await sleep(10_000);
+  }
+}
+
+const withCommonParams = (name: string, description: string) =>
+  task(name, description)
+    .addOptionalParam("address", "Contract address (defaults to the recorded deployment)", undefined, types.string)
+    .addFlag("json", "Print JSON instead of a table");
+
+withCommonParams("factcheck:submit", "Encrypt a post and submit it to the open batch")
+  .addParam("content", "Post text; only its 32-bit fingerprint is encrypted and sent", undefined, types.string)
+  .addOptionalParam("features", `Comma-separated ${FEATURE_NAMES.join(",")} scores, 0-100`, "50,50,50,50", types.string)
+  .addOptionalParam("account", "Submitting provider (defaults to the deployer)", undefined, types.string)
+  .setAction(async (args, hre) => {
+    const features = parseFeatures(args.features);
+    await hre.fhevm.initializeCLIApi();
+    const { factCheck, fromBlock } = await connect(hre, args);
+    const submitter = await (factCheck.runner as ethers.Signer).getAddress();
+
+    const input = hre.fhevm.createEncryptedInput(await factCheck.getAddress(), submitter);
+    input.add32(contentFingerprint(args.content));
+    features.forEach((feature) => input.add32(feature));
+    const enc = await input.encrypt();
+
+    const receipt = await send(
+      factCheck,
+      factCheck.submitPost(enc.handles[0], [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]], enc.inputProof)
+    );
+    const event = receipt.logs
+      .map((log) => factCheck.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "PostSubmitted");
+    printResult({ ...(await readPost(factCheck, event!.args.postId, fromBlock)), tx: receipt.hash }, args.json);
+  });
+
+withCommonParams("factcheck:process", "Score a post, or the next submitted posts of a closed batch, and wait for the decrypted scores")
+  .addOptionalParam("post", "Post id to process", undefined, types.string)
+  .addOptionalParam("batch", "Closed batch to process in one oracle request", undefined, types.string)
+  .addOptionalParam("maxPosts", "Most batch posts to score in one transaction; run again for the rest", 10, types.int)
+  .addOptionalParam("timeout", "Seconds to wait for the oracle callback", 600, types.int)
+  .addFlag("noWait", "Return once the decryption is requested")
+  .setAction(async (args, hre) => {
+    if (!args.post === !args.batch) throw new Error("Pass exactly one of --post or --batch");
+    await hre.fhevm.initializeCLIApi();
+    const { factCheck, fromBlock } = await connect(hre, args);
+
+    let postIds: bigint[];
+    if (args.post) {
+      postIds = [parseId(args.post, "post")];
+      await send(factCheck, factCheck.processPost(postIds[0]));
+    } else {
+      const receipt = await send(factCheck, factCheck.processBatch(parseId(args.batch, "batch"), args.maxPosts));
+      postIds = receipt.logs
+        .map((log) => factCheck.interface.parseLog(log))
+        .filter((parsed) => parsed?.name === "PostScored")
+        .map((parsed) => parsed!.args.postId as bigint);
+    }
+
+    if (!args.noWait) await awaitCallback(hre, factCheck, postIds, args.timeout);
+    printResult(await Promise.all(postIds.map((postId) => readPost(factCheck, postId, fromBlock))), args.json);
+  });
+
+withCommonParams("factcheck:batch:open", "Open a new batch")
+  .addOptionalParam("deadline", "Close automatically at this unix timestamp or date", undefined, types.string)
+  .setAction(async (args, hre) => {
+    const { factCheck } = await connect(hre, args);
+    const receipt = await send(
+      factCheck,
+      args.deadline ? factCheck.openBatchUntil(parseDeadline(args.deadline)) : factCheck.openBatch()
+    );
+    printResult({ ...(await readBatch(factCheck, await factCheck.currentBatchId())), tx: receipt.hash }, args.json);
+  });
+
+withCommonParams("factcheck:batch:close", "Close the current batch")
+  .setAction(async (args, hre) => {
+    const { factCheck } = await connect(hre, args);
+    const receipt = await send(factCheck, factCheck.closeBatch());
+    printResult({ ...(await readBatch(factCheck, await factCheck.currentBatchId())), tx: receipt.hash }, args.json);
+  });
+
+withCommonParams("factcheck:status", "Show the contract, a batch and its posts, or a single post")
+  .addOptionalParam("post", "Post id", undefined, types.string)
+  .addOptionalParam("batch", "Batch id", undefined, types.string)
+  .setAction(async (args, hre) => {
+    const { factCheck, fromBlock } = await connect(hre, args);
+
+    if (args.post) {
+      printResult(await readPost(factCheck, parseId(args.post, "post"), fromBlock), args.json);
+      return;
+    }
+    if (args.batch) {
+      const batchId = parseId(args.batch, "batch");
+      const posts = await factCheck.getBatchPosts(batchId);
+      const rows = await Promise.all(posts.map((postId) => readPost(factCheck, postId, fromBlock)));
+      if (args.json) {
+        printJson({ ...(await readBatch(factCheck, batchId)), posts: rows });
+        return;
+      }
+      printResult(await readBatch(factCheck, batchId), false);
+      console.log();
+      printResult(rows, false);
+      return;
+    }
+
+    const [owner, paused, currentBatchId, cooldown, decryptionCooldown, activeModel, reviewThreshold] = await Promise.all([
+      factCheck.owner(),
+      factCheck.paused(),
+      factCheck.currentBatchId(),
+      factCheck.cooldownSeconds(),
+      factCheck.decryptionCooldownSeconds(),
+      factCheck.activeModelVersion(),
+      factCheck.reviewThreshold(),
+    ]);
+    const batch = currentBatchId > 0n ? await factCheck.getBatchSummary(currentBatchId) : null;
+    printResult(
+      {
+        address: await factCheck.getAddress(),
+        network: hre.network.name,
+        owner,
+        paused,
+        currentBatch: currentBatchId || null,
+        batchOpen: batch?.open ?? false,
+        cooldownSeconds: cooldown,
+        decryptionCooldownSeconds: decryptionCooldown,
+        activeModelVersion: activeModel || null,
+        reviewThreshold,
+      },
+      args.json
+    );
+  });
+
+withCommonParams("factcheck:decrypt", "User-decrypt a post's content fingerprint and features as its submitter")
+  .addParam("post", "Post id", undefined, types.string)
+  .addOptionalParam("account", "Account with ACL access, normally the submitter (defaults to the deployer)", undefined, types.string)
+  .setAction(async (args, hre) => {
+    await hre.fhevm.initializeCLIApi();
+    const { factCheck } = await connect(hre, args);
+    const postId = parseId(args.post, "post");
+    const signer = factCheck.runner as ethers.Signer;
+    const contractAddress = await factCheck.getAddress();
+
+    const [contentHash, features] = await Promise.all([factCheck.encryptedPosts(postId), factCheck.getPostFeatures(postId)]);
+    if (contentHash === ethers.ZeroHash) throw new Error(`Post ${postIdHex(postId)} was not found`);
+    const decrypt = (handle: string) => hre.fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signer);
+    const values = await Promise.all([contentHash, ...features].map(decrypt));
+
+    printResult(
+      {
+        postId: postIdHex(postId),
+        contentFingerprint: values[0],
+        ...Object.fromEntries(FEATURE_NAMES.map((name, i) => [name, values[i + 1]])),
+      },
+      args.json
+    );
+  });
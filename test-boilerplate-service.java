@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\test-boilerplate-service.java
-// Generated at: 2025-10-21T07:53:55.457Z
\ No newline at end of file
@@ -0,0 +1,1103 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AIFactCheckFHE, AIFactCheckFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+// Weights and bias use two decimals: 50 == 0.50.
+const WEIGHTS = [50, 30, 20, 10];
+const FEATURES = [80, 60, 40, 20];
+// (50*80 + 30*60 + 20*40 + 10*20) / 100
+const EXPECTED_SCORE = 68n;
+
+async function deployFixture(owner: string) {
+  const factory = (await ethers.getContractFactory("AIFactCheckFHE")) as AIFactCheckFHE__factory;
+  const factCheck = (await factory.deploy(owner)) as AIFactCheckFHE;
+  const factCheckAddress = await factCheck.getAddress();
+
+  return { factCheck, factCheckAddress };
+}
+
+describe("AIFactCheckFHE", function () {
+  let signers: Signers;
+  let factCheck: AIFactCheckFHE;
+  let factCheckAddress: string;
+
+  async function uploadModel(weights: number[], bias: number) {
+    const input = fhevm.createEncryptedInput(factCheckAddress, signers.deployer.address);
+    weights.forEach((w) => input.add32(w));
+    input.add32(bias);
+    const enc = await input.encrypt();
+    await (
+      await factCheck.uploadScoringModel(
+        [enc.handles[0], enc.handles[1], enc.handles[2], enc.handles[3]],
+        enc.handles[4],
+        enc.inputProof,
+      )
+    ).wait();
+    const version = await factCheck.modelVersionCount();
+    await (await factCheck.activateScoringModel(version)).wait();
+  }
+
+  async function encryptPost(submitter: HardhatEthersSigner, contentHash: number, features: number[]) {
+    const input = fhevm.createEncryptedInput(factCheckAddress, submitter.address);
+    input.add32(contentHash);
+    features.forEach((f) => input.add32(f));
+    return input.encrypt();
+  }
+
+  async function submitPost(submitter: HardhatEthersSigner, contentHash: number, features: number[] = FEATURES) {
+    const enc = await encryptPost(submitter, contentHash, features);
+    const tx = await factCheck
+      .connect(submitter)
+      .submitPost(enc.handles[0], [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]], enc.inputProof);
+    const receipt = await tx.wait();
+    const event = receipt!.logs
+      .map((log) => factCheck.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "PostSubmitted");
+    return event!.args.postId as bigint;
+  }
+
+  async function processPost(postId: bigint) {
+    const receipt = await (await factCheck.processPost(postId)).wait();
+    const event = receipt!.logs
+      .map((log) => factCheck.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "DecryptionRequested");
+    return event!.args.requestId as bigint;
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ factCheck, factCheckAddress } = await deployFixture(signers.deployer.address));
+  });
+
+  describe("providers", function () {
+    it("registers the deployer as a provider", async function () {
+      expect(await factCheck.isProvider(signers.deployer.address)).to.eq(true);
+    });
+
+    it("gives the initial owner every role, not the deploying account", async function () {
+      const factory = (await ethers.getContractFactory("AIFactCheckFHE")) as AIFactCheckFHE__factory;
+      const owned = await factory.deploy(signers.alice.address);
+
+      expect(await owned.owner()).to.eq(signers.alice.address);
+      expect(await owned.isProvider(signers.alice.address)).to.eq(true);
+      expect(await owned.isProvider(signers.deployer.address)).to.eq(false);
+      await expect(owned.setCooldown(0))
+        .to.be.revertedWithCustomError(owned, "MissingRole")
+        .withArgs(await owned.ADMIN_ROLE(), signers.deployer.address);
+    });
+
+    it("rejects a zero initial owner", async function () {
+      const factory = (await ethers.getContractFactory("AIFactCheckFHE")) as AIFactCheckFHE__factory;
+      await expect(factory.deploy(ethers.ZeroAddress)).to.be.revertedWithCustomError(factCheck, "InvalidOwner");
+    });
+
+    it("adds and removes providers", async function () {
+      await expect(factCheck.addProvider(signers.alice.address))
+        .to.emit(factCheck, "ProviderAdded")
+        .withArgs(signers.alice.address);
+      expect(await factCheck.isProvider(signers.alice.address)).to.eq(true);
+
+      await expect(factCheck.removeProvider(signers.alice.address))
+        .to.emit(factCheck, "ProviderRemoved")
+        .withArgs(signers.alice.address);
+      expect(await factCheck.isProvider(signers.alice.address)).to.eq(false);
+    });
+
+    it("only lets admins manage providers", async function () {
+      await expect(factCheck.connect(signers.alice).addProvider(signers.bob.address))
+        .to.be.revertedWithCustomError(factCheck, "MissingRole")
+        .withArgs(await factCheck.ADMIN_ROLE(), signers.alice.address);
+    });
+
+    it("rejects submissions from non-providers", async function () {
+      await factCheck.openBatch();
+      const enc = await encryptPost(signers.alice, 1, FEATURES);
+      await expect(
+        factCheck
+          .connect(signers.alice)
+          .submitPost(enc.handles[0], [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]], enc.inputProof),
+      ).to.be.revertedWithCustomError(factCheck, "MissingRole");
+    });
+  });
+
+  describe("ownership", function () {
+    it("transfers ownership in two steps", async function () {
+      const adminRole = await factCheck.ADMIN_ROLE();
+      await expect(
+        factCheck.connect(signers.alice).transferOwnership(signers.alice.address),
+      ).to.be.revertedWithCustomError(factCheck, "NotOwner");
+      await expect(factCheck.transferOwnership(signers.alice.address))
+        .to.emit(factCheck, "OwnershipTransferStarted")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      // Nothing moves until the new owner accepts
+      expect(await factCheck.owner()).to.eq(signers.deployer.address);
+      expect(await factCheck.pendingOwner()).to.eq(signers.alice.address);
+
+      await expect(factCheck.connect(signers.alice).acceptOwnership())
+        .to.emit(factCheck, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await factCheck.owner()).to.eq(signers.alice.address);
+      expect(await factCheck.pendingOwner()).to.eq(ethers.ZeroAddress);
+      expect(await factCheck.hasRole(adminRole, signers.alice.address)).to.eq(true);
+      expect(await factCheck.hasRole(adminRole, signers.deployer.address)).to.eq(false);
+      // The other roles stay with the previous owner until they are revoked
+      expect(await factCheck.isProvider(signers.deployer.address)).to.eq(true);
+    });
+
+    it("only lets the pending owner accept", async function () {
+      await expect(factCheck.connect(signers.alice).acceptOwnership()).to.be.revertedWithCustomError(
+        factCheck,
+        "NotPendingOwner",
+      );
+      await factCheck.transferOwnership(signers.alice.address);
+      await expect(factCheck.connect(signers.bob).acceptOwnership()).to.be.revertedWithCustomError(
+        factCheck,
+        "NotPendingOwner",
+      );
+      await expect(factCheck.acceptOwnership()).to.be.revertedWithCustomError(factCheck, "NotPendingOwner");
+
+      // A second transfer replaces the pending owner
+      await factCheck.transferOwnership(signers.bob.address);
+      await expect(factCheck.connect(signers.alice).acceptOwnership()).to.be.revertedWithCustomError(
+        factCheck,
+        "NotPendingOwner",
+      );
+      await factCheck.connect(signers.bob).acceptOwnership();
+      expect(await factCheck.owner()).to.eq(signers.bob.address);
+    });
+
+    it("cannot revoke the owner's admin role", async function () {
+      const adminRole = await factCheck.ADMIN_ROLE();
+      await factCheck.grantRole(adminRole, signers.alice.address);
+      await expect(
+        factCheck.connect(signers.alice).revokeRole(adminRole, signers.deployer.address),
+      ).to.be.revertedWithCustomError(factCheck, "CannotRevokeOwner");
+      await expect(factCheck.revokeRole(adminRole, signers.alice.address))
+        .to.emit(factCheck, "RoleRevoked")
+        .withArgs(adminRole, signers.alice.address, signers.deployer.address);
+    });
+  });
+
+  describe("role enumeration", function () {
+    it("lists the members of a role", async function () {
+      const providerRole = await factCheck.PROVIDER_ROLE();
+      await factCheck.addProvider(signers.alice.address);
+      await factCheck.addProvider(signers.bob.address);
+      // Granting twice does not add a duplicate
+      await factCheck.addProvider(signers.alice.address);
+
+      expect(await factCheck.getRoleMemberCount(providerRole)).to.eq(3n);
+      expect(await factCheck.getRoleMembers(providerRole)).to.deep.eq([
+        signers.deployer.address,
+        signers.alice.address,
+        signers.bob.address,
+      ]);
+    });
+
+    it("keeps the list dense when a member is removed", async function () {
+      const providerRole = await factCheck.PROVIDER_ROLE();
+      await factCheck.addProvider(signers.alice.address);
+      await factCheck.addProvider(signers.bob.address);
+
+      // The last member takes the removed member's slot
+      await factCheck.removeProvider(signers.deployer.address);
+      expect(await factCheck.getRoleMembers(providerRole)).to.deep.eq([signers.bob.address, signers.alice.address]);
+      expect(await factCheck.getRoleMemberCount(providerRole)).to.eq(2n);
+
+      await factCheck.removeProvider(signers.alice.address);
+      expect(await factCheck.getRoleMembers(providerRole)).to.deep.eq([signers.bob.address]);
+
+      // Removing a non-member changes nothing, and a removed member can come back
+      await expect(factCheck.removeProvider(signers.alice.address)).to.not.emit(factCheck, "ProviderRemoved");
+      await factCheck.addProvider(signers.alice.address);
+      expect(await factCheck.getRoleMembers(providerRole)).to.deep.eq([signers.bob.address, signers.alice.address]);
+      await factCheck.removeProvider(signers.bob.address);
+      expect(await factCheck.getRoleMembers(providerRole)).to.deep.eq([signers.alice.address]);
+    });
+
+    it("tracks each role separately", async function () {
+      const analystRole = await factCheck.ANALYST_ROLE();
+      await factCheck.grantRole(analystRole, signers.alice.address);
+      await factCheck.revokeRole(analystRole, signers.deployer.address);
+
+      expect(await factCheck.getRoleMembers(analystRole)).to.deep.eq([signers.alice.address]);
+      expect(await factCheck.getRoleMembers(await factCheck.PROVIDER_ROLE())).to.deep.eq([signers.deployer.address]);
+      expect(await factCheck.hasRole(analystRole, signers.deployer.address)).to.eq(false);
+    });
+  });
+
+  describe("pause", function () {
+    it("blocks submissions while paused", async function () {
+      await factCheck.openBatch();
+      await expect(factCheck.pause()).to.emit(factCheck, "Paused").withArgs(signers.deployer.address);
+
+      const enc = await encryptPost(signers.deployer, 1, FEATURES);
+      await expect(
+        factCheck.submitPost(
+          enc.handles[0],
+          [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]],
+          enc.inputProof,
+        ),
+      ).to.be.revertedWithCustomError(factCheck, "PausedError");
+
+      await factCheck.unpause();
+      await submitPost(signers.deployer, 1);
+    });
+
+    it("cannot pause twice", async function () {
+      await factCheck.pause();
+      await expect(factCheck.pause()).to.be.revertedWithCustomError(factCheck, "PausedError");
+    });
+  });
+
+  describe("cooldowns", function () {
+    it("reverts a second submission inside the cooldown", async function () {
+      await factCheck.openBatch();
+      await submitPost(signers.deployer, 1);
+
+      const enc = await encryptPost(signers.deployer, 2, FEATURES);
+      await expect(
+        factCheck.submitPost(
+          enc.handles[0],
+          [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]],
+          enc.inputProof,
+        ),
+      ).to.be.revertedWithCustomError(factCheck, "CooldownActive");
+
+      await time.increase(60);
+      await submitPost(signers.deployer, 2);
+    });
+
+    it("reverts a second decryption request inside the cooldown", async function () {
+      await factCheck.setCooldown(0);
+      await uploadModel(WEIGHTS, 0);
+      await factCheck.openBatch();
+      const first = await submitPost(signers.deployer, 1);
+      const second = await submitPost(signers.deployer, 2);
+
+      await processPost(first);
+      await expect(factCheck.processPost(second)).to.be.revertedWithCustomError(factCheck, "CooldownActive");
+    });
+
+    it("applies a provider's own cooldowns instead of the defaults", async function () {
+      await uploadModel(WEIGHTS, 0);
+      await factCheck.openBatch();
+      await expect(factCheck.setProviderLimits(signers.deployer.address, 300, 0, 0))
+        .to.emit(factCheck, "ProviderLimitsSet")
+        .withArgs(signers.deployer.address, 300, 0, 0);
+
+      const first = await submitPost(signers.deployer, 1);
+      const submittedAt = await time.latest();
+      expect(await factCheck.nextSubmissionTime(signers.deployer.address)).to.eq(submittedAt + 300);
+      await time.increase(60);
+      const enc = await encryptPost(signers.deployer, 2, FEATURES);
+      await expect(
+        factCheck.submitPost(
+          enc.handles[0],
+          [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]],
+          enc.inputProof,
+        ),
+      ).to.be.revertedWithCustomError(factCheck, "CooldownActive");
+      await time.increaseTo(submittedAt + 300);
+      const second = await submitPost(signers.deployer, 2);
+
+      // No decryption cooldown for this provider
+      await processPost(first);
+      await processPost(second);
+      const requestedAt = await time.latest();
+      expect(await factCheck.nextDecryptionTime(signers.deployer.address)).to.eq(requestedAt);
+
+      await expect(factCheck.clearProviderLimits(signers.deployer.address))
+        .to.emit(factCheck, "ProviderLimitsCleared")
+        .withArgs(signers.deployer.address);
+      expect(await factCheck.nextDecryptionTime(signers.deployer.address)).to.eq(requestedAt + 60);
+    });
+  });
+
+  describe("quotas", function () {
+    const EPOCH = 3600;
+    let epochStart: number;
+
+    async function submitReverts(submitter: HardhatEthersSigner, contentHash: number, error: string) {
+      const enc = await encryptPost(submitter, contentHash, FEATURES);
+      await expect(
+        factCheck
+          .connect(submitter)
+          .submitPost(enc.handles[0], [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]], enc.inputProof),
+      ).to.be.revertedWithCustomError(factCheck, error);
+    }
+
+    beforeEach(async function () {
+      await factCheck.setCooldown(0);
+      await factCheck.addProvider(signers.alice.address);
+      await factCheck.openBatch();
+      // Start each test at the beginning of an epoch
+      epochStart = (Math.floor((await time.latest()) / EPOCH) + 1) * EPOCH;
+      await time.increaseTo(epochStart);
+    });
+
+    it("is unlimited by default", async function () {
+      expect(await factCheck.remainingQuota(signers.deployer.address)).to.eq(ethers.MaxUint256);
+      for (let i = 1; i <= 3; i++) await submitPost(signers.deployer, i);
+      expect(await factCheck.remainingQuota(signers.deployer.address)).to.eq(ethers.MaxUint256);
+    });
+
+    it("caps submissions per epoch and resets in the next one", async function () {
+      await expect(factCheck.setQuota(EPOCH, 2)).to.emit(factCheck, "QuotaSet").withArgs(EPOCH, 2);
+      expect(await factCheck.remainingQuota(signers.deployer.address)).to.eq(2n);
+
+      await submitPost(signers.deployer, 1);
+      await submitPost(signers.deployer, 2);
+      expect(await factCheck.remainingQuota(signers.deployer.address)).to.eq(0n);
+      expect(await factCheck.nextSubmissionTime(signers.deployer.address)).to.eq(epochStart + EPOCH);
+      await submitReverts(signers.deployer, 3, "QuotaExceeded");
+
+      // Each provider has its own count
+      expect(await factCheck.remainingQuota(signers.alice.address)).to.eq(2n);
+      await submitPost(signers.alice, 4);
+
+      await time.increaseTo(epochStart + EPOCH);
+      expect(await factCheck.remainingQuota(signers.deployer.address)).to.eq(2n);
+      await submitPost(signers.deployer, 3);
+      expect(await factCheck.remainingQuota(signers.deployer.address)).to.eq(1n);
+    });
+
+    it("gives a provider its own quota until its limits are cleared", async function () {
+      await factCheck.setQuota(EPOCH, 3);
+      await factCheck.setProviderLimits(signers.alice.address, 0, 0, 1);
+      expect(await factCheck.remainingQuota(signers.alice.address)).to.eq(1n);
+
+      await submitPost(signers.alice, 1);
+      await submitReverts(signers.alice, 2, "QuotaExceeded");
+
+      // Back on the defaults, including the 60s submission cooldown
+      await factCheck.setCooldown(60);
+      await factCheck.clearProviderLimits(signers.alice.address);
+      expect(await factCheck.remainingQuota(signers.alice.address)).to.eq(2n);
+      await submitReverts(signers.alice, 2, "CooldownActive");
+      await time.increase(60);
+      await submitPost(signers.alice, 2);
+    });
+
+    it("lets an override lift the default quota", async function () {
+      await factCheck.setQuota(EPOCH, 1);
+      await factCheck.setProviderLimits(signers.alice.address, 0, 0, 0);
+
+      for (let i = 1; i <= 3; i++) await submitPost(signers.alice, i);
+      expect(await factCheck.remainingQuota(signers.alice.address)).to.eq(ethers.MaxUint256);
+      await submitPost(signers.deployer, 4);
+      await submitReverts(signers.deployer, 5, "QuotaExceeded");
+    });
+
+    it("rejects a zero epoch", async function () {
+      await expect(factCheck.setQuota(0, 1)).to.be.revertedWithCustomError(factCheck, "InvalidEpoch");
+    });
+
+    it("only lets admins change limits", async function () {
+      const adminRole = await factCheck.ADMIN_ROLE();
+      await expect(factCheck.connect(signers.alice).setQuota(EPOCH, 1))
+        .to.be.revertedWithCustomError(factCheck, "MissingRole")
+        .withArgs(adminRole, signers.alice.address);
+      await expect(factCheck.connect(signers.alice).setProviderLimits(signers.alice.address, 0, 0, 0))
+        .to.be.revertedWithCustomError(factCheck, "MissingRole")
+        .withArgs(adminRole, signers.alice.address);
+      await expect(factCheck.connect(signers.alice).clearProviderLimits(signers.alice.address))
+        .to.be.revertedWithCustomError(factCheck, "MissingRole")
+        .withArgs(adminRole, signers.alice.address);
+    });
+  });
+
+  describe("batches", function () {
+    it("rejects closing a batch that is not open", async function () {
+      await expect(factCheck.closeBatch()).to.be.revertedWithCustomError(factCheck, "InvalidBatchState");
+    });
+
+    it("rejects opening a batch twice", async function () {
+      await expect(factCheck.openBatch()).to.emit(factCheck, "BatchOpened").withArgs(1);
+      await expect(factCheck.openBatch()).to.be.revertedWithCustomError(factCheck, "InvalidBatchState");
+    });
+
+    it("rejects submissions when no batch is open", async function () {
+      const enc = await encryptPost(signers.deployer, 1, FEATURES);
+      await expect(
+        factCheck.submitPost(
+          enc.handles[0],
+          [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]],
+          enc.inputProof,
+        ),
+      ).to.be.revertedWithCustomError(factCheck, "BatchClosedError");
+    });
+
+    it("records posts per batch", async function () {
+      await factCheck.setCooldown(0);
+      await factCheck.openBatch();
+      const first = await submitPost(signers.deployer, 1);
+      const second = await submitPost(signers.deployer, 2);
+
+      expect(await factCheck.getBatchPosts(1)).to.deep.eq([first, second]);
+      const summary = await factCheck.getBatchSummary(1);
+      expect(summary.submitted).to.eq(2n);
+      expect(summary.open).to.eq(true);
+    });
+  });
+
+  describe("batch processing", function () {
+    beforeEach(async function () {
+      await factCheck.setCooldown(0);
+      await factCheck.setDecryptionCooldown(0);
+      await uploadModel(WEIGHTS, 0);
+    });
+
+    it("decrypts every post of a closed batch with one request, in post order", async function () {
+      await factCheck.openBatch();
+      // 68, clamped 110 -> 100, 0, 10
+      const featureSets = [FEATURES, [100, 100, 100, 100], [0, 0, 0, 0], [0, 0, 0, 100]];
+      const postIds: bigint[] = [];
+      for (const [i, features] of featureSets.entries()) {
+        postIds.push(await submitPost(signers.deployer, i + 1, features));
+      }
+
+      await expect(factCheck.processBatch(1, 10)).to.be.revertedWithCustomError(factCheck, "InvalidBatchState");
+      await factCheck.closeBatch();
+      await expect(factCheck.processBatch(1, 10)).to.emit(factCheck, "BatchDecryptionRequested");
+      for (const postId of postIds) {
+        expect(await factCheck.postStatus(postId)).to.eq(2n); // Processing
+      }
+
+      await fhevm.awaitDecryptionOracle();
+
+      const expected = [EXPECTED_SCORE, 100n, 0n, 10n];
+      for (const [i, postId] of postIds.entries()) {
+        expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(expected[i]);
+        expect(await factCheck.postStatus(postId)).to.eq(3n); // Decrypted
+      }
+      const completed = await factCheck.queryFilter(factCheck.filters.DecryptionCompleted());
+      expect(completed.map((e) => [e.args.batchId, e.args.postId, e.args.misinfoScore])).to.deep.eq(
+        postIds.map((postId, i) => [1n, postId, expected[i]]),
+      );
+      // 100 reaches the default review threshold of 70
+      const summary = await factCheck.getBatchSummary(1);
+      expect(summary.processed).to.eq(4n);
+      expect(summary.flagged).to.eq(1n);
+      expect(await factCheck.postFlagged(postIds[1])).to.eq(true);
+    });
+
+    it("leaves out posts that were already processed one by one", async function () {
+      await factCheck.openBatch();
+      const first = await submitPost(signers.deployer, 1);
+      const second = await submitPost(signers.deployer, 2, [0, 0, 0, 100]);
+      await factCheck.closeBatch();
+      await processPost(first);
+
+      const receipt = await (await factCheck.processBatch(1, 10)).wait();
+      const requested = receipt!.logs
+        .map((log) => factCheck.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "BatchDecryptionRequested");
+      expect(requested!.args.postCount).to.eq(1n);
+
+      await fhevm.awaitDecryptionOracle();
+      expect(await factCheck.decryptedMisinfoScore(first)).to.eq(EXPECTED_SCORE);
+      expect(await factCheck.decryptedMisinfoScore(second)).to.eq(10n);
+      await expect(factCheck.processBatch(1, 10)).to.be.revertedWithCustomError(factCheck, "EmptyBatch");
+    });
+
+    it("processes a large batch in chunks of maxPosts", async function () {
+      await factCheck.openBatch();
+      const postIds: bigint[] = [];
+      for (let i = 1; i <= 3; i++) postIds.push(await submitPost(signers.deployer, i));
+      await factCheck.closeBatch();
+
+      const chunk = async (maxPosts: number) => {
+        const receipt = await (await factCheck.processBatch(1, maxPosts)).wait();
+        return receipt!.logs
+          .map((log) => factCheck.interface.parseLog(log))
+          .filter((parsed) => parsed?.name === "PostScored")
+          .map((parsed) => parsed!.args.postId as bigint);
+      };
+      expect(await chunk(2)).to.deep.eq(postIds.slice(0, 2));
+      expect(await factCheck.postStatus(postIds[2])).to.eq(1n); // Submitted
+      expect(await chunk(2)).to.deep.eq(postIds.slice(2));
+      await expect(factCheck.processBatch(1, 2)).to.be.revertedWithCustomError(factCheck, "EmptyBatch");
+      await expect(factCheck.processBatch(1, 0)).to.be.revertedWithCustomError(factCheck, "EmptyBatch");
+
+      await fhevm.awaitDecryptionOracle();
+      for (const postId of postIds) {
+        expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(EXPECTED_SCORE);
+      }
+      expect((await factCheck.getBatchSummary(1)).processed).to.eq(3n);
+    });
+
+    it("keeps a resubmitted post from blocking its batch", async function () {
+      await factCheck.openBatch();
+      const enc = await encryptPost(signers.deployer, 1, FEATURES);
+      const resubmit = () =>
+        factCheck.submitPost(
+          enc.handles[0],
+          [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]],
+          enc.inputProof,
+        );
+      await resubmit();
+      await expect(resubmit()).to.be.revertedWithCustomError(factCheck, "PostAlreadySubmitted");
+      const postIds = await factCheck.getBatchPosts(1);
+      expect(postIds).to.have.lengthOf(1);
+      expect((await factCheck.getBatchSummary(1)).submitted).to.eq(1n);
+
+      await factCheck.closeBatch();
+      await factCheck.processBatch(1, 10);
+      await fhevm.awaitDecryptionOracle();
+      expect(await factCheck.decryptedMisinfoScore(postIds[0])).to.eq(EXPECTED_SCORE);
+    });
+
+    it("rejects batches that were never opened", async function () {
+      await expect(factCheck.processBatch(0, 10)).to.be.revertedWithCustomError(factCheck, "InvalidBatchState");
+      await expect(factCheck.processBatch(1, 10)).to.be.revertedWithCustomError(factCheck, "InvalidBatchState");
+    });
+  });
+
+  describe("batch deadlines", function () {
+    let deadline: number;
+
+    beforeEach(async function () {
+      await factCheck.setCooldown(0);
+      deadline = (await time.latest()) + 3600;
+    });
+
+    it("rejects a deadline that is not in the future", async function () {
+      await expect(factCheck.openBatchUntil(await time.latest())).to.be.revertedWithCustomError(
+        factCheck,
+        "InvalidDeadline",
+      );
+    });
+
+    it("stops taking posts once the deadline passes", async function () {
+      await expect(factCheck.openBatchUntil(deadline))
+        .to.emit(factCheck, "BatchOpened")
+        .withArgs(1)
+        .and.to.emit(factCheck, "BatchDeadlineSet")
+        .withArgs(1, deadline);
+      await submitPost(signers.deployer, 1);
+      expect((await factCheck.getBatchSummary(1)).open).to.eq(true);
+
+      await time.increaseTo(deadline);
+      expect((await factCheck.getBatchSummary(1)).open).to.eq(false);
+      const enc = await encryptPost(signers.deployer, 2, FEATURES);
+      await expect(
+        factCheck.submitPost(
+          enc.handles[0],
+          [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]],
+          enc.inputProof,
+        ),
+      ).to.be.revertedWithCustomError(factCheck, "BatchClosedError");
+    });
+
+    it("processes an expired batch without closing it first", async function () {
+      await uploadModel(WEIGHTS, 0);
+      await factCheck.openBatchUntil(deadline);
+      const postId = await submitPost(signers.deployer, 1);
+      await expect(factCheck.processBatch(1, 10)).to.be.revertedWithCustomError(factCheck, "InvalidBatchState");
+
+      await time.increaseTo(deadline);
+      await factCheck.processBatch(1, 10);
+      await fhevm.awaitDecryptionOracle();
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(EXPECTED_SCORE);
+    });
+
+    it("lets anyone close a batch once its deadline has passed", async function () {
+      await factCheck.openBatchUntil(deadline);
+      await expect(factCheck.connect(signers.alice).closeExpiredBatch()).to.be.revertedWithCustomError(
+        factCheck,
+        "InvalidBatchState",
+      );
+
+      await time.increaseTo(deadline);
+      await expect(factCheck.connect(signers.alice).closeExpiredBatch()).to.emit(factCheck, "BatchClosed").withArgs(1);
+      expect(await factCheck.batchOpen()).to.eq(false);
+      await expect(factCheck.closeExpiredBatch()).to.be.revertedWithCustomError(factCheck, "InvalidBatchState");
+    });
+
+    it("closes an expired batch when the next one opens", async function () {
+      await factCheck.openBatchUntil(deadline);
+      await time.increaseTo(deadline);
+
+      await expect(factCheck.openBatch())
+        .to.emit(factCheck, "BatchClosed")
+        .withArgs(1)
+        .and.to.emit(factCheck, "BatchOpened")
+        .withArgs(2);
+      expect((await factCheck.getBatchSummary(2)).deadline).to.eq(0n);
+      await submitPost(signers.deployer, 1);
+      expect(await factCheck.getBatchPosts(2)).to.have.lengthOf(1);
+    });
+  });
+
+  describe("submission", function () {
+    it("stores encrypted features the submitter can decrypt", async function () {
+      await factCheck.openBatch();
+      const postId = await submitPost(signers.deployer, 1234);
+
+      expect(await factCheck.postStatus(postId)).to.eq(1n); // Submitted
+      const features = await factCheck.getPostFeatures(postId);
+      const clearFeature = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        features[0],
+        factCheckAddress,
+        signers.deployer,
+      );
+      expect(clearFeature).to.eq(BigInt(FEATURES[0]));
+    });
+
+    it("emits PostSubmitted with the current batch", async function () {
+      await factCheck.openBatch();
+      const enc = await encryptPost(signers.deployer, 1, FEATURES);
+      await expect(
+        factCheck.submitPost(
+          enc.handles[0],
+          [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]],
+          enc.inputProof,
+        ),
+      ).to.emit(factCheck, "PostSubmitted");
+    });
+
+    it("cannot overwrite a post by resending its ciphertexts", async function () {
+      await factCheck.setCooldown(0);
+      await uploadModel(WEIGHTS, 0);
+      await factCheck.openBatch();
+      const enc = await encryptPost(signers.deployer, 1, FEATURES);
+      const resubmit = () =>
+        factCheck.submitPost(
+          enc.handles[0],
+          [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]],
+          enc.inputProof,
+        );
+      await resubmit();
+      const [postId] = await factCheck.getBatchPosts(1);
+      await processPost(postId);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(resubmit()).to.be.revertedWithCustomError(factCheck, "PostAlreadySubmitted");
+      expect(await factCheck.postStatus(postId)).to.eq(3n); // still Decrypted
+      expect(await factCheck.postProcessed(postId)).to.eq(true);
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(EXPECTED_SCORE);
+    });
+  });
+
+  describe("processPost", function () {
+    beforeEach(async function () {
+      await factCheck.setCooldown(0);
+      await factCheck.setDecryptionCooldown(0);
+      await factCheck.openBatch();
+    });
+
+    it("requires an active scoring model", async function () {
+      const postId = await submitPost(signers.deployer, 1);
+      await expect(factCheck.processPost(postId)).to.be.revertedWithCustomError(factCheck, "NoActiveModel");
+    });
+
+    it("rejects unknown posts", async function () {
+      await uploadModel(WEIGHTS, 0);
+      await expect(factCheck.processPost(42)).to.be.revertedWithCustomError(factCheck, "UnknownPost");
+    });
+
+    it("scores a post homomorphically and decrypts the result", async function () {
+      await uploadModel(WEIGHTS, 0);
+      const postId = await submitPost(signers.deployer, 1);
+
+      await expect(factCheck.processPost(postId)).to.emit(factCheck, "PostScored").withArgs(postId, 1);
+      expect(await factCheck.postStatus(postId)).to.eq(2n); // Processing
+
+      const encryptedScore = await factCheck.encryptedMisinfoScores(postId);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, encryptedScore)).to.eq(EXPECTED_SCORE);
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(EXPECTED_SCORE);
+      expect(await factCheck.postStatus(postId)).to.eq(3n); // Decrypted
+      expect(await factCheck.scoreModelVersion(postId)).to.eq(1n);
+    });
+
+    it("clamps the score to 100", async function () {
+      await uploadModel(WEIGHTS, 50_000);
+      const postId = await submitPost(signers.deployer, 1);
+      await factCheck.processPost(postId);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(100n);
+    });
+
+    it("caps uploaded weights so the weighted sum cannot wrap", async function () {
+      // Uncapped, 2^30 * 80 wraps to 0 in a euint32 and the post would score 0
+      await uploadModel([2 ** 30, 2 ** 30, 2 ** 30, 2 ** 30], 2 ** 30);
+      const postId = await submitPost(signers.deployer, 1);
+      await factCheck.processPost(postId);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(100n);
+    });
+
+    it("clamps features above 100 before weighting them", async function () {
+      // Uncapped, 2^31 * 2 wraps to 0; clamped, it is 100 * 2 / 100
+      await uploadModel([2, 0, 0, 0], 0);
+      const postId = await submitPost(signers.deployer, 1, [2 ** 31, 0, 0, 0]);
+      await factCheck.processPost(postId);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(2n);
+    });
+
+    it("reports the post in DecryptionCompleted", async function () {
+      await uploadModel(WEIGHTS, 0);
+      const postId = await submitPost(signers.deployer, 1);
+      const requestId = await processPost(postId);
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await factCheck.queryFilter(factCheck.filters.DecryptionCompleted(requestId));
+      expect(events.length).to.eq(1);
+      expect(events[0].args.postId).to.eq(postId);
+      expect(events[0].args.batchId).to.eq(1n);
+      expect(events[0].args.misinfoScore).to.eq(EXPECTED_SCORE);
+    });
+
+    it("cannot process the same post twice", async function () {
+      await uploadModel(WEIGHTS, 0);
+      const postId = await submitPost(signers.deployer, 1);
+      await factCheck.processPost(postId);
+
+      await expect(factCheck.processPost(postId)).to.be.revertedWithCustomError(
+        factCheck,
+        "PostAlreadyProcessedError",
+      );
+    });
+  });
+
+  describe("verdicts", function () {
+    async function setFlagThreshold(threshold: number) {
+      const input = fhevm.createEncryptedInput(factCheckAddress, signers.deployer.address);
+      input.add32(threshold);
+      const enc = await input.encrypt();
+      await (await factCheck.setFlagThreshold(enc.handles[0], enc.inputProof)).wait();
+    }
+
+    async function revealVerdict(postId: bigint) {
+      await factCheck.processPostVerdict(postId);
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    beforeEach(async function () {
+      await factCheck.setCooldown(0);
+      await factCheck.setDecryptionCooldown(0);
+      await uploadModel(WEIGHTS, 0);
+      await factCheck.openBatch();
+    });
+
+    it("requires a flag threshold", async function () {
+      const postId = await submitPost(signers.deployer, 1);
+      await expect(factCheck.processPostVerdict(postId)).to.be.revertedWithCustomError(factCheck, "ThresholdNotSet");
+    });
+
+    it("reveals only the flag when the score reaches the threshold", async function () {
+      await setFlagThreshold(60);
+      const postId = await submitPost(signers.deployer, 1);
+      await revealVerdict(postId);
+
+      const [event] = await factCheck.queryFilter(factCheck.filters.VerdictCompleted());
+      expect(event.args.postId).to.eq(postId);
+      expect(event.args.flagged).to.eq(true);
+      expect(await factCheck.postStatus(postId)).to.eq(4n); // VerdictRevealed
+      expect(await factCheck.postFlagged(postId)).to.eq(true);
+      expect(await factCheck.isScoreLocked(postId)).to.eq(true);
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(0n);
+      expect((await factCheck.getBatchSummary(1)).flagged).to.eq(1n);
+    });
+
+    it("does not flag a score below the threshold", async function () {
+      await setFlagThreshold(Number(EXPECTED_SCORE) + 1);
+      const postId = await submitPost(signers.deployer, 1);
+      await revealVerdict(postId);
+
+      expect(await factCheck.postStatus(postId)).to.eq(4n); // VerdictRevealed
+      expect(await factCheck.postFlagged(postId)).to.eq(false);
+    });
+
+    it("keeps a revealed verdict's score locked against resubmission", async function () {
+      await setFlagThreshold(60);
+      const enc = await encryptPost(signers.deployer, 1, FEATURES);
+      const resubmit = () =>
+        factCheck.submitPost(
+          enc.handles[0],
+          [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]],
+          enc.inputProof,
+        );
+      await resubmit();
+      const [postId] = await factCheck.getBatchPosts(1);
+      await revealVerdict(postId);
+
+      // Resubmitting would put the post back to Submitted, and processPost would then decrypt the raw score
+      await expect(resubmit()).to.be.revertedWithCustomError(factCheck, "PostAlreadySubmitted");
+      expect(await factCheck.postStatus(postId)).to.eq(4n); // VerdictRevealed
+      await expect(factCheck.processPost(postId)).to.be.revertedWithCustomError(factCheck, "PostAlreadyProcessedError");
+      await expect(factCheck.processPostVerdict(postId)).to.be.revertedWithCustomError(
+        factCheck,
+        "PostAlreadyProcessedError",
+      );
+      expect(await factCheck.isScoreLocked(postId)).to.eq(true);
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(0n);
+    });
+
+    it("only lets the score unlocker reveal a locked score", async function () {
+      await setFlagThreshold(60);
+      const postId = await submitPost(signers.deployer, 1);
+      await revealVerdict(postId);
+
+      await expect(factCheck.unlockScore(postId)).to.be.revertedWithCustomError(factCheck, "NotScoreUnlocker");
+
+      await expect(factCheck.setScoreUnlocker(signers.alice.address))
+        .to.emit(factCheck, "ScoreUnlockerSet")
+        .withArgs(ethers.ZeroAddress, signers.alice.address);
+      await expect(factCheck.connect(signers.alice).unlockScore(postId))
+        .to.emit(factCheck, "ScoreUnlocked")
+        .withArgs(postId, signers.alice.address);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(EXPECTED_SCORE);
+      expect(await factCheck.postStatus(postId)).to.eq(3n); // Decrypted
+      expect(await factCheck.isScoreLocked(postId)).to.eq(false);
+    });
+
+    it("rejects unlocking a score that is not locked", async function () {
+      await factCheck.setScoreUnlocker(signers.alice.address);
+      const postId = await submitPost(signers.deployer, 1);
+      await expect(factCheck.connect(signers.alice).unlockScore(postId)).to.be.revertedWithCustomError(
+        factCheck,
+        "ScoreNotLocked",
+      );
+    });
+  });
+
+  describe("decryption timeouts", function () {
+    const TIMEOUT = 3600;
+    let postId: bigint;
+    let requestId: bigint;
+    let requestedAt: number;
+
+    async function retryDecryption(id: bigint) {
+      const receipt = await (await factCheck.retryDecryption(id)).wait();
+      const event = receipt!.logs
+        .map((log) => factCheck.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "DecryptionRetried");
+      return event!.args.newRequestId as bigint;
+    }
+
+    beforeEach(async function () {
+      await factCheck.setCooldown(0);
+      await factCheck.setDecryptionCooldown(0);
+      await expect(factCheck.setDecryptionTimeout(TIMEOUT))
+        .to.emit(factCheck, "DecryptionTimeoutSet")
+        .withArgs(24 * 3600, TIMEOUT);
+      await uploadModel(WEIGHTS, 0);
+      await factCheck.openBatch();
+      postId = await submitPost(signers.deployer, 1);
+      requestId = await processPost(postId);
+      requestedAt = await time.latest();
+    });
+
+    it("only gives up on a request once the timeout has passed", async function () {
+      await expect(factCheck.retryDecryption(requestId)).to.be.revertedWithCustomError(
+        factCheck,
+        "DecryptionNotTimedOut",
+      );
+      await time.setNextBlockTimestamp(requestedAt + TIMEOUT - 1);
+      await expect(factCheck.cancelDecryption(requestId)).to.be.revertedWithCustomError(
+        factCheck,
+        "DecryptionNotTimedOut",
+      );
+
+      await time.setNextBlockTimestamp(requestedAt + TIMEOUT);
+      await expect(factCheck.retryDecryption(requestId))
+        .to.emit(factCheck, "DecryptionTimedOut")
+        .withArgs(requestId, 1, postId)
+        .and.to.emit(factCheck, "DecryptionRetried");
+
+      // The mock oracle still answers the retired request, which reverts
+      await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(factCheck, "ReplayError");
+    });
+
+    it("retries a request under a new id and retires the old one", async function () {
+      await time.increase(TIMEOUT);
+      const newRequestId = await retryDecryption(requestId);
+      expect(newRequestId).to.not.eq(requestId);
+      expect(await factCheck.postStatus(postId)).to.eq(2n); // still Processing
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [0]);
+      await expect(factCheck.myCallback(requestId, cleartexts, "0x")).to.be.revertedWithCustomError(
+        factCheck,
+        "ReplayError",
+      );
+      await expect(factCheck.retryDecryption(requestId)).to.be.revertedWithCustomError(
+        factCheck,
+        "DecryptionNotPending",
+      );
+
+      // The mock oracle answers the retired request first; its revert aborts the whole run, dropping the
+      // answer to the new request as well, so the new request times out and is retried once more
+      await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(factCheck, "ReplayError");
+      await time.increase(TIMEOUT);
+      const lastRequestId = await retryDecryption(newRequestId);
+      await fhevm.awaitDecryptionOracle();
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(EXPECTED_SCORE);
+      expect(await factCheck.postStatus(postId)).to.eq(3n); // Decrypted
+      await expect(factCheck.retryDecryption(lastRequestId)).to.be.revertedWithCustomError(
+        factCheck,
+        "DecryptionNotPending",
+      );
+    });
+
+    it("cancels a request and lets the post be processed again", async function () {
+      expect((await factCheck.getBatchSummary(1)).processed).to.eq(1n);
+      await time.increase(TIMEOUT);
+      await expect(factCheck.cancelDecryption(requestId))
+        .to.emit(factCheck, "DecryptionCancelled")
+        .withArgs(requestId, 1, postId);
+      expect(await factCheck.postStatus(postId)).to.eq(1n); // Submitted
+      expect((await factCheck.getBatchSummary(1)).processed).to.eq(0n);
+      await expect(factCheck.cancelDecryption(requestId)).to.be.revertedWithCustomError(
+        factCheck,
+        "DecryptionNotPending",
+      );
+
+      // A late answer cannot record a score for the cancelled request
+      await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(factCheck, "ReplayError");
+      expect(await factCheck.postStatus(postId)).to.eq(1n);
+
+      await processPost(postId);
+      await fhevm.awaitDecryptionOracle();
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(EXPECTED_SCORE);
+    });
+
+    it("puts every post of a cancelled batch request back", async function () {
+      const second = await submitPost(signers.deployer, 2);
+      await factCheck.closeBatch();
+      // Clear the single-post request so the batch only holds the second post
+      await fhevm.awaitDecryptionOracle();
+      const receipt = await (await factCheck.processBatch(1, 10)).wait();
+      const requested = receipt!.logs
+        .map((log) => factCheck.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "BatchDecryptionRequested");
+      const batchRequestId = requested!.args.requestId as bigint;
+
+      await time.increase(TIMEOUT);
+      await expect(factCheck.cancelDecryption(batchRequestId))
+        .to.emit(factCheck, "DecryptionCancelled")
+        .withArgs(batchRequestId, 1, 0);
+      expect(await factCheck.postStatus(second)).to.eq(1n); // Submitted
+      expect(await factCheck.postStatus(postId)).to.eq(3n); // answered before the batch, untouched
+      expect((await factCheck.getBatchSummary(1)).processed).to.eq(1n);
+
+      await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(factCheck, "ReplayError");
+      await factCheck.processBatch(1, 10);
+      await fhevm.awaitDecryptionOracle();
+      expect(await factCheck.decryptedMisinfoScore(second)).to.eq(EXPECTED_SCORE);
+    });
+
+    it("rejects answered and unknown requests", async function () {
+      await fhevm.awaitDecryptionOracle();
+      await time.increase(TIMEOUT);
+      await expect(factCheck.retryDecryption(requestId)).to.be.revertedWithCustomError(
+        factCheck,
+        "DecryptionNotPending",
+      );
+      await expect(factCheck.cancelDecryption(requestId + 100n)).to.be.revertedWithCustomError(
+        factCheck,
+        "DecryptionNotPending",
+      );
+    });
+
+    it("only lets providers retry or cancel", async function () {
+      await time.increase(TIMEOUT);
+      const providerRole = await factCheck.PROVIDER_ROLE();
+      await expect(factCheck.connect(signers.alice).retryDecryption(requestId))
+        .to.be.revertedWithCustomError(factCheck, "MissingRole")
+        .withArgs(providerRole, signers.alice.address);
+      await expect(factCheck.connect(signers.alice).cancelDecryption(requestId))
+        .to.be.revertedWithCustomError(factCheck, "MissingRole")
+        .withArgs(providerRole, signers.alice.address);
+    });
+  });
+
+  describe("myCallback", function () {
+    let postId: bigint;
+    let requestId: bigint;
+
+    beforeEach(async function () {
+      await factCheck.setCooldown(0);
+      await uploadModel(WEIGHTS, 0);
+      await factCheck.openBatch();
+      postId = await submitPost(signers.deployer, 1);
+      requestId = await processPost(postId);
+    });
+
+    it("rejects cleartexts that are not signed by the KMS", async function () {
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [0]);
+      // KMS proof layout: signer count, signatures, extra data. A random key is not a KMS signer.
+      const digest = ethers.keccak256(forged);
+      const signature = await ethers.Wallet.createRandom().signingKey.sign(digest).serialized;
+      const proof = ethers.concat([ethers.solidityPacked(["uint8"], [1]), signature, "0x00"]);
+
+      await expect(factCheck.myCallback(requestId, forged, proof)).to.be.reverted;
+      expect(await factCheck.postStatus(postId)).to.eq(2n); // still Processing
+    });
+
+    it("rejects a replayed callback", async function () {
+      await fhevm.awaitDecryptionOracle();
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(EXPECTED_SCORE);
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [0]);
+      await expect(factCheck.myCallback(requestId, cleartexts, "0x")).to.be.revertedWithCustomError(
+        factCheck,
+        "ReplayError",
+      );
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(EXPECTED_SCORE);
+    });
+
+    it("rejects requests that were not issued for a score", async function () {
+      await factCheck.setDecryptionCooldown(0);
+      const second = await submitPost(signers.deployer, 2);
+      await factCheck.closeBatch();
+      const receipt = await (await factCheck.processBatch(1, 10)).wait();
+      const requested = receipt!.logs
+        .map((log) => factCheck.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "BatchDecryptionRequested");
+      const batchRequestId = requested!.args.requestId as bigint;
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [0]);
+      await expect(factCheck.myCallback(batchRequestId, cleartexts, "0x")).to.be.revertedWithCustomError(
+        factCheck,
+        "StateMismatchError",
+      );
+      // Nor ones that were never issued
+      await expect(factCheck.myCallback(batchRequestId + 1n, cleartexts, "0x")).to.be.revertedWithCustomError(
+        factCheck,
+        "StateMismatchError",
+      );
+      expect(await factCheck.postStatus(second)).to.eq(2n); // still Processing
+    });
+  });
+});
@@ -0,0 +1,581 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  AIFactCheckFHE,
+  AIFactCheckFHE__factory,
+  FactCheckReview,
+  FactCheckReview__factory,
+  MockVotes,
+  MockVotes__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+// Mirrors FactCheckReview.VoteChoice and ReviewOutcome
+const UPHOLD = 0;
+const OVERTURN = 1;
+const ESCALATE = 2;
+const UPHELD = 1n;
+const OVERTURNED = 2n;
+const ESCALATED = 3n;
+
+const QUORUM = 10;
+const VOTING_PERIOD = 3600;
+// Scores 68 with the features below; the flag threshold sits under it
+const WEIGHTS = [50, 30, 20, 10];
+const FEATURES = [80, 60, 40, 20];
+const EXPECTED_SCORE = 68n;
+const FLAG_THRESHOLD = 60;
+
+async function deployFixture(owner: string) {
+  const factCheckFactory = (await ethers.getContractFactory("AIFactCheckFHE")) as AIFactCheckFHE__factory;
+  const factCheck = (await factCheckFactory.deploy(owner)) as AIFactCheckFHE;
+  const factCheckAddress = await factCheck.getAddress();
+
+  const reviewFactory = (await ethers.getContractFactory("FactCheckReview")) as FactCheckReview__factory;
+  const review = (await reviewFactory.deploy(factCheckAddress, QUORUM, VOTING_PERIOD)) as FactCheckReview;
+  await (await factCheck.setReviewModule(await review.getAddress(), true)).wait();
+
+  return { factCheck, factCheckAddress, review };
+}
+
+describe("FactCheckReview", function () {
+  let signers: Signers;
+  let factCheck: AIFactCheckFHE;
+  let factCheckAddress: string;
+  let review: FactCheckReview;
+
+  async function encrypt32(values: number[]) {
+    const input = fhevm.createEncryptedInput(factCheckAddress, signers.deployer.address);
+    values.forEach((value) => input.add32(value));
+    return input.encrypt();
+  }
+
+  async function submitPost(contentHash: number) {
+    const enc = await encrypt32([contentHash, ...FEATURES]);
+    const receipt = await (
+      await factCheck.submitPost(
+        enc.handles[0],
+        [enc.handles[1], enc.handles[2], enc.handles[3], enc.handles[4]],
+        enc.inputProof,
+      )
+    ).wait();
+    const event = receipt!.logs
+      .map((log) => factCheck.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "PostSubmitted");
+    return event!.args.postId as bigint;
+  }
+
+  // Flags a post through the verdict path, which opens its review with the score still hidden
+  async function flagThroughVerdict(contentHash: number) {
+    const postId = await submitPost(contentHash);
+    await factCheck.processPostVerdict(postId);
+    await fhevm.awaitDecryptionOracle();
+    return { postId, proposalId: await review.proposalOfPost(postId) };
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ factCheck, factCheckAddress, review } = await deployFixture(signers.deployer.address));
+    await factCheck.setCooldown(0);
+    await factCheck.setDecryptionCooldown(0);
+
+    const model = await encrypt32([...WEIGHTS, 0]);
+    await factCheck.uploadScoringModel(
+      [model.handles[0], model.handles[1], model.handles[2], model.handles[3]],
+      model.handles[4],
+      model.inputProof,
+    );
+    await factCheck.activateScoringModel(1);
+    const threshold = await encrypt32([FLAG_THRESHOLD]);
+    await factCheck.setFlagThreshold(threshold.handles[0], threshold.inputProof);
+    await factCheck.openBatch();
+
+    await review.setVoterWeight(signers.alice.address, QUORUM);
+    await review.setVoterWeight(signers.bob.address, QUORUM / 2);
+    await review.setVoterWeight(signers.carol.address, 3);
+  });
+
+  describe("opening reviews", function () {
+    it("opens a review when a decrypted score reaches the review threshold", async function () {
+      await factCheck.setReviewThreshold(FLAG_THRESHOLD);
+      const postId = await submitPost(1);
+      await factCheck.processPost(postId);
+      await fhevm.awaitDecryptionOracle();
+
+      const [event] = await review.queryFilter(review.filters.ReviewOpened());
+      expect(event.args.proposalId).to.eq(1n);
+      expect(event.args.postId).to.eq(postId);
+      expect(await factCheck.reviewProposalId(postId)).to.eq(1n);
+
+      const proposal = await review.proposals(1);
+      expect(proposal.postId).to.eq(postId);
+      expect(proposal.endTime - proposal.startTime).to.eq(BigInt(VOTING_PERIOD));
+    });
+
+    it("does not open a review for a score below the threshold", async function () {
+      const postId = await submitPost(1);
+      await factCheck.processPost(postId);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await factCheck.postFlagged(postId)).to.eq(false);
+      expect(await review.proposalCount()).to.eq(0n);
+    });
+
+    it("only takes reviews from the fact-check contract", async function () {
+      await expect(review.openReview(1)).to.be.revertedWithCustomError(review, "NotFactCheck");
+    });
+
+    it("finishes the callback when the module rejects the review, and retries on request", async function () {
+      // Bound to another registry, this module reverts every openReview from factCheck
+      const reviewFactory = (await ethers.getContractFactory("FactCheckReview")) as FactCheckReview__factory;
+      const misconfigured = await reviewFactory.deploy(signers.bob.address, QUORUM, VOTING_PERIOD);
+      await factCheck.setReviewModule(await misconfigured.getAddress(), true);
+
+      const { postId } = await flagThroughVerdict(1);
+      expect(await factCheck.postStatus(postId)).to.eq(4n); // VerdictRevealed, not stuck in Processing
+      expect(await factCheck.reviewProposalId(postId)).to.eq(0n);
+      const [failed] = await factCheck.queryFilter(factCheck.filters.ReviewRequestFailed());
+      expect(failed.args.postId).to.eq(postId);
+      expect(failed.args.reason).to.eq(misconfigured.interface.encodeErrorResult("NotFactCheck"));
+
+      await factCheck.setReviewModule(await review.getAddress(), true);
+      await expect(factCheck.requestReview(postId)).to.emit(factCheck, "ReviewRequested").withArgs(postId, 1);
+      await expect(factCheck.requestReview(postId)).to.be.revertedWithCustomError(factCheck, "ReviewNotNeeded");
+    });
+
+    it("only requests reviews for flagged posts", async function () {
+      const postId = await submitPost(1);
+      await expect(factCheck.requestReview(postId)).to.be.revertedWithCustomError(factCheck, "ReviewNotNeeded");
+    });
+  });
+
+  describe("changing the module", function () {
+    let replacement: FactCheckReview;
+
+    beforeEach(async function () {
+      const reviewFactory = (await ethers.getContractFactory("FactCheckReview")) as FactCheckReview__factory;
+      replacement = await reviewFactory.deploy(factCheckAddress, QUORUM, VOTING_PERIOD);
+    });
+
+    it("waits until the current module has finalized its open reviews", async function () {
+      const { postId, proposalId } = await flagThroughVerdict(1);
+      expect(await factCheck.openReviewCount()).to.eq(1n);
+      await expect(factCheck.setReviewModule(await replacement.getAddress(), true)).to.be.revertedWithCustomError(
+        factCheck,
+        "ReviewsStillOpen",
+      );
+
+      await review.connect(signers.alice).castVote(proposalId, OVERTURN);
+      await time.increase(VOTING_PERIOD);
+      await review.finalize(proposalId);
+      expect(await factCheck.reviewOutcome(postId)).to.eq(OVERTURNED);
+      expect(await factCheck.openReviewCount()).to.eq(0n);
+
+      await expect(factCheck.setReviewModule(await replacement.getAddress(), true))
+        .to.emit(factCheck, "ReviewModuleSet")
+        .withArgs(await review.getAddress(), await replacement.getAddress())
+        .and.to.emit(factCheck, "ScoreUnlockerSet")
+        .withArgs(await review.getAddress(), await replacement.getAddress());
+      const next = await flagThroughVerdict(2);
+      expect(await replacement.proposalOfPost(next.postId)).to.eq(1n);
+    });
+
+    it("only moves the score unlocker when asked to", async function () {
+      await factCheck.setScoreUnlocker(signers.bob.address);
+      await expect(factCheck.setReviewModule(await replacement.getAddress(), false))
+        .to.emit(factCheck, "ReviewModuleSet")
+        .and.not.to.emit(factCheck, "ScoreUnlockerSet");
+      expect(await factCheck.scoreUnlocker()).to.eq(signers.bob.address);
+    });
+  });
+
+  describe("allowlist voting", function () {
+    let postId: bigint;
+    let proposalId: bigint;
+
+    beforeEach(async function () {
+      ({ postId, proposalId } = await flagThroughVerdict(1));
+    });
+
+    it("counts each voter's allowlist weight", async function () {
+      await expect(review.connect(signers.alice).castVote(proposalId, OVERTURN))
+        .to.emit(review, "VoteCast")
+        .withArgs(proposalId, signers.alice.address, OVERTURN, QUORUM);
+      await review.connect(signers.bob).castVote(proposalId, UPHOLD);
+
+      const proposal = await review.proposals(proposalId);
+      expect(proposal.overturnWeight).to.eq(BigInt(QUORUM));
+      expect(proposal.upholdWeight).to.eq(BigInt(QUORUM / 2));
+
+      await time.increase(VOTING_PERIOD);
+      await expect(review.finalize(proposalId))
+        .to.emit(review, "ReviewFinalized")
+        .withArgs(proposalId, postId, OVERTURNED)
+        .and.to.emit(factCheck, "ReviewOutcomeRecorded")
+        .withArgs(postId, OVERTURNED);
+    });
+
+    it("rejects voters without weight and second votes", async function () {
+      await expect(review.castVote(proposalId, UPHOLD)).to.be.revertedWithCustomError(review, "NoVotingWeight");
+
+      await review.connect(signers.alice).castVote(proposalId, UPHOLD);
+      await expect(review.connect(signers.alice).castVote(proposalId, OVERTURN)).to.be.revertedWithCustomError(
+        review,
+        "AlreadyVoted",
+      );
+    });
+
+    it("only accepts votes inside the voting period and finalizes after it", async function () {
+      await expect(review.finalize(proposalId)).to.be.revertedWithCustomError(review, "VotingStillOpen");
+
+      await time.increase(VOTING_PERIOD);
+      await expect(review.connect(signers.alice).castVote(proposalId, UPHOLD)).to.be.revertedWithCustomError(
+        review,
+        "VotingClosed",
+      );
+      await review.finalize(proposalId);
+      await expect(review.finalize(proposalId)).to.be.revertedWithCustomError(review, "AlreadyFinalized");
+    });
+
+    it("escalates below quorum even with a clear majority", async function () {
+      await review.connect(signers.bob).castVote(proposalId, UPHOLD);
+      await time.increase(VOTING_PERIOD);
+      await review.finalize(proposalId);
+
+      expect((await review.proposals(proposalId)).outcome).to.eq(ESCALATED);
+      expect(await factCheck.reviewOutcome(postId)).to.eq(ESCALATED);
+    });
+
+    it("escalates a tie and an escalate plurality", async function () {
+      await review.setVoterWeight(signers.bob.address, QUORUM);
+      await review.connect(signers.alice).castVote(proposalId, UPHOLD);
+      await review.connect(signers.bob).castVote(proposalId, OVERTURN);
+      await time.increase(VOTING_PERIOD);
+      await review.finalize(proposalId);
+      expect(await factCheck.reviewOutcome(postId)).to.eq(ESCALATED);
+
+      const second = await flagThroughVerdict(2);
+      await review.connect(signers.alice).castVote(second.proposalId, ESCALATE);
+      await review.connect(signers.bob).castVote(second.proposalId, UPHOLD);
+      await time.increase(VOTING_PERIOD);
+      await review.finalize(second.proposalId);
+      expect(await factCheck.reviewOutcome(second.postId)).to.eq(ESCALATED);
+    });
+
+    it("applies quorum and voting period changes", async function () {
+      await expect(review.setQuorum(1)).to.emit(review, "QuorumSet").withArgs(QUORUM, 1);
+      await expect(review.setVotingPeriod(60)).to.emit(review, "VotingPeriodSet").withArgs(VOTING_PERIOD, 60);
+      await expect(review.connect(signers.alice).setQuorum(0)).to.be.revertedWithCustomError(review, "NotOwner");
+
+      // The open proposal keeps its end time; a new one uses the new period
+      const second = await flagThroughVerdict(2);
+      const proposal = await review.proposals(second.proposalId);
+      expect(proposal.endTime - proposal.startTime).to.eq(60n);
+
+      await review.connect(signers.bob).castVote(second.proposalId, UPHOLD);
+      await time.increase(60);
+      await review.finalize(second.proposalId);
+      expect(await factCheck.reviewOutcome(second.postId)).to.eq(UPHELD);
+      expect((await review.proposals(proposalId)).finalized).to.eq(false);
+    });
+  });
+
+  describe("token voting", function () {
+    let votes: MockVotes;
+
+    beforeEach(async function () {
+      const votesFactory = (await ethers.getContractFactory("MockVotes")) as MockVotes__factory;
+      votes = await votesFactory.deploy();
+      await votes.setVotes(signers.alice.address, QUORUM * 2);
+      await expect(review.setVotingToken(await votes.getAddress()))
+        .to.emit(review, "VotingTokenSet")
+        .withArgs(await votes.getAddress());
+    });
+
+    it("weighs votes by delegated votes instead of the allowlist", async function () {
+      const { proposalId } = await flagThroughVerdict(1);
+
+      await expect(review.connect(signers.alice).castVote(proposalId, UPHOLD))
+        .to.emit(review, "VoteCast")
+        .withArgs(proposalId, signers.alice.address, UPHOLD, QUORUM * 2);
+      // bob is on the allowlist but holds no votes
+      await expect(review.connect(signers.bob).castVote(proposalId, UPHOLD)).to.be.revertedWithCustomError(
+        review,
+        "NoVotingWeight",
+      );
+    });
+
+    it("uses the votes held at the proposal snapshot", async function () {
+      const { proposalId } = await flagThroughVerdict(1);
+      await votes.setVotes(signers.bob.address, QUORUM);
+      await votes.setVotes(signers.alice.address, 1);
+
+      await expect(review.connect(signers.bob).castVote(proposalId, UPHOLD)).to.be.revertedWithCustomError(
+        review,
+        "NoVotingWeight",
+      );
+      await expect(review.connect(signers.alice).castVote(proposalId, UPHOLD))
+        .to.emit(review, "VoteCast")
+        .withArgs(proposalId, signers.alice.address, UPHOLD, QUORUM * 2);
+    });
+  });
+
+  describe("private ballots", function () {
+    let postId: bigint;
+    let proposalId: bigint;
+
+    async function castEncryptedVote(voter: HardhatEthersSigner, choice: number) {
+      const input = fhevm.createEncryptedInput(await review.getAddress(), voter.address);
+      input.add8(choice);
+      const enc = await input.encrypt();
+      return review.connect(voter).castEncryptedVote(proposalId, enc.handles[0], enc.inputProof);
+    }
+
+    async function requestTally() {
+      const receipt = await (await review.requestTallyDecryption(proposalId)).wait();
+      const event = receipt!.logs
+        .map((log) => review.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "TallyRequested");
+      return event!.args.requestId as bigint;
+    }
+
+    beforeEach(async function () {
+      await expect(review.setPrivateBallots(true)).to.emit(review, "PrivateBallotsSet").withArgs(true);
+      ({ postId, proposalId } = await flagThroughVerdict(1));
+    });
+
+    it("only takes encrypted ballots on private proposals", async function () {
+      expect((await review.proposals(proposalId)).privateBallot).to.eq(true);
+      await expect(review.connect(signers.alice).castVote(proposalId, UPHOLD)).to.be.revertedWithCustomError(
+        review,
+        "PrivateBallotRequired",
+      );
+      await expect(review.finalize(proposalId)).to.be.revertedWithCustomError(review, "PrivateBallotRequired");
+
+      await review.setPrivateBallots(false);
+      const publicReview = await flagThroughVerdict(2);
+      proposalId = publicReview.proposalId;
+      await expect(castEncryptedVote(signers.alice, UPHOLD)).to.be.revertedWithCustomError(
+        review,
+        "PublicBallotRequired",
+      );
+    });
+
+    it("adds each weight to the chosen option's encrypted tally", async function () {
+      await expect(castEncryptedVote(signers.alice, UPHOLD))
+        .to.emit(review, "EncryptedVoteCast")
+        .withArgs(proposalId, signers.alice.address, QUORUM);
+      await castEncryptedVote(signers.bob, OVERTURN);
+      // Anything past Overturn counts as escalate
+      await castEncryptedVote(signers.carol, 7);
+      await expect(castEncryptedVote(signers.alice, OVERTURN)).to.be.revertedWithCustomError(review, "AlreadyVoted");
+
+      const tally = await review.getEncryptedTally(proposalId);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint128, tally.uphold)).to.eq(BigInt(QUORUM));
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint128, tally.overturn)).to.eq(BigInt(QUORUM / 2));
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint128, tally.escalate)).to.eq(3n);
+      // Nothing is public before the tally is decrypted
+      expect((await review.proposals(proposalId)).upholdWeight).to.eq(0n);
+    });
+
+    it("tallies 18-decimal token votes", async function () {
+      const votes = await ((await ethers.getContractFactory("MockVotes")) as MockVotes__factory).deploy();
+      const aliceVotes = ethers.parseEther("1000000");
+      const bobVotes = ethers.parseEther("250000.5");
+      await votes.setVotes(signers.alice.address, aliceVotes);
+      await votes.setVotes(signers.bob.address, bobVotes);
+      await review.setVotingToken(await votes.getAddress());
+      ({ postId, proposalId } = await flagThroughVerdict(2));
+
+      await expect(castEncryptedVote(signers.alice, UPHOLD))
+        .to.emit(review, "EncryptedVoteCast")
+        .withArgs(proposalId, signers.alice.address, aliceVotes);
+      await castEncryptedVote(signers.bob, OVERTURN);
+      expect(await review.encryptedWeightCast(proposalId)).to.eq(aliceVotes + bobVotes);
+
+      await time.increase(VOTING_PERIOD);
+      await requestTally();
+      await fhevm.awaitDecryptionOracle();
+      const [decrypted] = await review.queryFilter(review.filters.TallyDecrypted(proposalId));
+      expect(decrypted.args.upholdWeight).to.eq(aliceVotes);
+      expect(decrypted.args.overturnWeight).to.eq(bobVotes);
+      expect(await factCheck.reviewOutcome(postId)).to.eq(UPHELD);
+    });
+
+    it("refuses a ballot that could wrap the encrypted tally", async function () {
+      const votes = await ((await ethers.getContractFactory("MockVotes")) as MockVotes__factory).deploy();
+      const half = 2n ** 127n;
+      await votes.setVotes(signers.alice.address, half);
+      await votes.setVotes(signers.bob.address, half);
+      await votes.setVotes(signers.carol.address, half - 1n);
+      await review.setVotingToken(await votes.getAddress());
+      ({ proposalId } = await flagThroughVerdict(2));
+
+      await castEncryptedVote(signers.alice, UPHOLD);
+      await expect(castEncryptedVote(signers.bob, UPHOLD)).to.be.revertedWithCustomError(review, "WeightTooLarge");
+      // Exactly filling the 128 bits is fine
+      await castEncryptedVote(signers.carol, UPHOLD);
+      const tally = await review.getEncryptedTally(proposalId);
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint128, tally.uphold)).to.eq(2n ** 128n - 1n);
+    });
+
+    it("decrypts only the totals and finalizes from them", async function () {
+      await castEncryptedVote(signers.alice, OVERTURN);
+      await castEncryptedVote(signers.bob, UPHOLD);
+      await castEncryptedVote(signers.carol, ESCALATE);
+
+      await expect(review.requestTallyDecryption(proposalId)).to.be.revertedWithCustomError(review, "VotingStillOpen");
+      await time.increase(VOTING_PERIOD);
+      const requestId = await requestTally();
+      await expect(review.requestTallyDecryption(proposalId)).to.be.revertedWithCustomError(
+        review,
+        "TallyAlreadyRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      const [decrypted] = await review.queryFilter(review.filters.TallyDecrypted(proposalId));
+      expect(decrypted.args.upholdWeight).to.eq(BigInt(QUORUM / 2));
+      expect(decrypted.args.overturnWeight).to.eq(BigInt(QUORUM));
+      expect(decrypted.args.escalateWeight).to.eq(3n);
+      expect((await review.proposals(proposalId)).finalized).to.eq(true);
+      expect(await factCheck.reviewOutcome(postId)).to.eq(OVERTURNED);
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint128", "uint128", "uint128"], [100, 0, 0]);
+      await expect(review.onTallyDecrypted(requestId, cleartexts, "0x")).to.be.revertedWithCustomError(
+        review,
+        "ReplayError",
+      );
+    });
+
+    it("retries a tally the oracle has not answered in time", async function () {
+      await castEncryptedVote(signers.alice, UPHOLD);
+      await time.increase(VOTING_PERIOD);
+      const requestId = await requestTally();
+
+      await expect(review.retryTallyDecryption(proposalId)).to.be.revertedWithCustomError(review, "TallyNotTimedOut");
+      await time.increase(24 * 3600);
+      const retry = review.connect(signers.bob).retryTallyDecryption(proposalId);
+      await expect(retry).to.emit(review, "TallyTimedOut").withArgs(proposalId, requestId);
+      await expect(retry).to.emit(review, "TallyRetried");
+      const newRequestId = await review.tallyRequestId(proposalId);
+      expect(newRequestId).to.not.eq(requestId);
+
+      // The retired request can no longer finalize the review
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint128", "uint128", "uint128"], [0, 100, 0]);
+      await expect(review.onTallyDecrypted(requestId, cleartexts, "0x")).to.be.revertedWithCustomError(
+        review,
+        "ReplayError",
+      );
+
+      // The mock oracle answers the retired request first; its revert aborts the whole run, dropping the
+      // answer to the new request as well, so the tally times out and is retried once more
+      await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(review, "ReplayError");
+      expect(await review.tallyRequestId(proposalId)).to.eq(newRequestId);
+      await time.increase(24 * 3600);
+      await review.retryTallyDecryption(proposalId);
+
+      await fhevm.awaitDecryptionOracle();
+      expect(await factCheck.reviewOutcome(postId)).to.eq(UPHELD);
+      await expect(review.retryTallyDecryption(proposalId)).to.be.revertedWithCustomError(review, "TallyNotPending");
+    });
+
+    it("lets the owner cancel a stuck tally, escalating the post", async function () {
+      await castEncryptedVote(signers.alice, UPHOLD);
+      await expect(review.cancelTallyDecryption(proposalId)).to.be.revertedWithCustomError(review, "TallyNotPending");
+      await time.increase(VOTING_PERIOD);
+      const requestId = await requestTally();
+      await expect(review.setTallyTimeout(60))
+        .to.emit(review, "TallyTimeoutSet")
+        .withArgs(24 * 3600, 60);
+      await time.increase(60);
+
+      await expect(review.connect(signers.alice).cancelTallyDecryption(proposalId)).to.be.revertedWithCustomError(
+        review,
+        "NotOwner",
+      );
+      await expect(review.cancelTallyDecryption(proposalId))
+        .to.emit(review, "TallyCancelled")
+        .withArgs(proposalId, requestId)
+        .and.to.emit(review, "ReviewFinalized")
+        .withArgs(proposalId, postId, ESCALATED);
+      expect(await factCheck.reviewOutcome(postId)).to.eq(ESCALATED);
+
+      // A late answer cannot reopen the cancelled tally
+      await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(review, "ReplayError");
+      expect(await factCheck.reviewOutcome(postId)).to.eq(ESCALATED);
+    });
+  });
+
+  describe("score unlock", function () {
+    it("makes the review module the score unlocker", async function () {
+      expect(await factCheck.scoreUnlocker()).to.eq(await review.getAddress());
+    });
+
+    it("reveals the score when the DAO upholds a verdict-only flag", async function () {
+      const { postId, proposalId } = await flagThroughVerdict(1);
+      expect(proposalId).to.eq(1n);
+      expect(await factCheck.isScoreLocked(postId)).to.eq(true);
+
+      await review.connect(signers.alice).castVote(proposalId, UPHOLD);
+      await time.increase(VOTING_PERIOD);
+      await expect(review.finalize(proposalId))
+        .to.emit(review, "ScoreUnlockRequested")
+        .withArgs(proposalId, postId)
+        .and.to.emit(factCheck, "ScoreUnlocked")
+        .withArgs(postId, await review.getAddress());
+      expect(await factCheck.reviewOutcome(postId)).to.eq(UPHELD);
+
+      await fhevm.awaitDecryptionOracle();
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(EXPECTED_SCORE);
+      expect(await factCheck.postStatus(postId)).to.eq(3n); // Decrypted
+    });
+
+    it("keeps the score hidden when the flag is overturned", async function () {
+      const { postId, proposalId } = await flagThroughVerdict(1);
+
+      await review.connect(signers.alice).castVote(proposalId, OVERTURN);
+      await time.increase(VOTING_PERIOD);
+      await expect(review.finalize(proposalId)).not.to.emit(review, "ScoreUnlockRequested");
+
+      expect(await factCheck.reviewOutcome(postId)).to.eq(OVERTURNED);
+      expect(await factCheck.isScoreLocked(postId)).to.eq(true);
+      await expect(review.unlockScore(proposalId)).to.be.revertedWithCustomError(review, "NotUpheld");
+    });
+
+    it("records the outcome when the unlock fails and lets anyone retry it", async function () {
+      const { postId, proposalId } = await flagThroughVerdict(1);
+      await review.connect(signers.alice).castVote(proposalId, UPHOLD);
+      await time.increase(VOTING_PERIOD);
+
+      await factCheck.pause();
+      await expect(review.finalize(proposalId)).to.emit(review, "ScoreUnlockFailed");
+      expect(await factCheck.reviewOutcome(postId)).to.eq(UPHELD);
+      expect(await factCheck.isScoreLocked(postId)).to.eq(true);
+
+      await factCheck.unpause();
+      await expect(review.connect(signers.bob).unlockScore(proposalId))
+        .to.emit(review, "ScoreUnlockRequested")
+        .withArgs(proposalId, postId);
+      await fhevm.awaitDecryptionOracle();
+      expect(await factCheck.decryptedMisinfoScore(postId)).to.eq(EXPECTED_SCORE);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/// <reference lib="dom" />
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { createTransactionManager, TransactionError } from "../frontend/web/src/transactionTracker";
+
+const HASH = ethers.id("tx");
+const FROM = ethers.Wallet.createRandom().address;
+
+// In-memory stand-in for the browser's localStorage
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+// Provider whose receipt lookups fail `failures` times before returning a confirmed receipt
+function flakyProvider(failures: number) {
+  let calls = 0;
+  const provider = {
+    getNetwork: async () => ({ chainId: 31337n }),
+    getTransactionReceipt: async () => {
+      calls++;
+      if (calls <= failures) throw new Error("429 Too Many Requests");
+      return { status: 1, blockNumber: 5, confirmations: async () => 3 };
+    },
+    getTransaction: async () => null,
+    getTransactionCount: async () => 0,
+  };
+  return {
+    provider: provider as unknown as ethers.Provider,
+    get calls() {
+      return calls;
+    },
+  };
+}
+
+function sentTransaction(provider: ethers.Provider) {
+  return Promise.resolve({
+    hash: HASH,
+    from: FROM,
+    nonce: 0,
+    chainId: 31337n,
+    provider,
+    wait: () => new Promise(() => {}),
+  } as unknown as ethers.TransactionResponse);
+}
+
+describe("transactionTracker", function () {
+  const { warn, error } = console;
+
+  beforeEach(function () {
+    (globalThis as { localStorage?: unknown }).localStorage = new MemoryStorage();
+    console.warn = () => {};
+    console.error = () => {};
+  });
+
+  afterEach(function () {
+    console.warn = warn;
+    console.error = error;
+  });
+
+  function manager(provider: ethers.Provider) {
+    return createTransactionManager({
+      iface: new ethers.Interface([]),
+      getProvider: async () => provider,
+      pollInterval: 1,
+      maxPollFailures: 3,
+    });
+  }
+
+  it("retries a receipt lookup that fails once", async function () {
+    const node = flakyProvider(1);
+    const txs = manager(node.provider);
+
+    const receipt = await txs.track("Submit post", sentTransaction(node.provider));
+
+    expect(receipt).to.not.equal(null);
+    expect(node.calls).to.be.greaterThan(1);
+    expect(txs.getHistory()[0].status).to.equal("confirmed");
+  });
+
+  it("marks the transaction unknown instead of hanging when the node keeps failing", async function () {
+    const node = flakyProvider(Infinity);
+    const txs = manager(node.provider);
+
+    let caught: unknown;
+    await txs.track("Submit post", sentTransaction(node.provider)).catch((e) => (caught = e));
+
+    expect(caught).to.be.instanceOf(TransactionError);
+    expect(node.calls).to.equal(3);
+    expect(txs.getHistory()[0].status).to.equal("unknown");
+  });
+
+  it("picks an unknown transaction back up on resume", async function () {
+    const down = flakyProvider(Infinity);
+    await manager(down.provider)
+      .track("Submit post", sentTransaction(down.provider))
+      .catch(() => {});
+
+    // A reload with the node reachable again
+    const up = flakyProvider(0);
+    const txs = manager(up.provider);
+    await txs.resume();
+    await new Promise<void>((resolve) => {
+      const unsubscribe = txs.subscribe((history) => {
+        if (history[0].status === "confirmed") {
+          unsubscribe();
+          resolve();
+        }
+      });
+    });
+
+    expect(txs.getHistory()[0].error).to.equal(undefined);
+  });
+});
@@ -0,0 +1,3013 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface AIFactCheckFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ADMIN_ROLE"
+      | "ANALYST_ROLE"
+      | "FEATURE_COUNT"
+      | "MAX_FEATURE"
+      | "MAX_SCORE"
+      | "MAX_WEIGHT"
+      | "MODEL_MANAGER_ROLE"
+      | "PAUSER_ROLE"
+      | "PROVIDER_ROLE"
+      | "WEIGHT_SCALE"
+      | "acceptOwnership"
+      | "activateScoringModel"
+      | "activeModelVersion"
+      | "addProvider"
+      | "batchCallback"
+      | "batchOpen"
+      | "batches"
+      | "cancelDecryption"
+      | "clearProviderLimits"
+      | "closeBatch"
+      | "closeExpiredBatch"
+      | "cooldownSeconds"
+      | "currentBatchId"
+      | "decryptedMisinfoScore"
+      | "decryptionContexts"
+      | "decryptionCooldownSeconds"
+      | "decryptionTimeout"
+      | "defaultEpochQuota"
+      | "encryptedFlags"
+      | "encryptedMisinfoScores"
+      | "encryptedPosts"
+      | "epochSubmissions"
+      | "getBatchPosts"
+      | "getBatchSummary"
+      | "getPostFeatures"
+      | "getRoleMemberCount"
+      | "getRoleMembers"
+      | "getScoringModel"
+      | "grantRole"
+      | "hasRole"
+      | "isProvider"
+      | "isScoreLocked"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "modelVersionCount"
+      | "myCallback"
+      | "nextDecryptionTime"
+      | "nextSubmissionTime"
+      | "openBatch"
+      | "openBatchUntil"
+      | "openReviewCount"
+      | "owner"
+      | "pause"
+      | "paused"
+      | "pendingOwner"
+      | "postBatchId"
+      | "postFlagged"
+      | "postProcessed"
+      | "postStatus"
+      | "processBatch"
+      | "processPost"
+      | "processPostVerdict"
+      | "protocolId"
+      | "providerLimits"
+      | "quotaEpoch"
+      | "quotaEpochSeconds"
+      | "recordReviewOutcome"
+      | "remainingQuota"
+      | "removeProvider"
+      | "requestReview"
+      | "retryDecryption"
+      | "reviewModule"
+      | "reviewOutcome"
+      | "reviewProposalId"
+      | "reviewThreshold"
+      | "revokeRole"
+      | "scoreModelVersion"
+      | "scoreUnlocker"
+      | "setCooldown"
+      | "setDecryptionCooldown"
+      | "setDecryptionTimeout"
+      | "setFlagThreshold"
+      | "setProviderLimits"
+      | "setQuota"
+      | "setReviewModule"
+      | "setReviewThreshold"
+      | "setScoreUnlocker"
+      | "submitPost"
+      | "transferOwnership"
+      | "unlockScore"
+      | "unpause"
+      | "uploadScoringModel"
+      | "verdictCallback"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchDeadlineSet"
+      | "BatchDecryptionRequested"
+      | "BatchOpened"
+      | "CooldownSet"
+      | "DecryptionCancelled"
+      | "DecryptionCompleted"
+      | "DecryptionCooldownSet"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "DecryptionRetried"
+      | "DecryptionTimedOut"
+      | "DecryptionTimeoutSet"
+      | "FlagThresholdSet"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "PostScored"
+      | "PostSubmitted"
+      | "ProviderAdded"
+      | "ProviderLimitsCleared"
+      | "ProviderLimitsSet"
+      | "ProviderRemoved"
+      | "QuotaSet"
+      | "ReviewModuleSet"
+      | "ReviewOutcomeRecorded"
+      | "ReviewRequestFailed"
+      | "ReviewRequested"
+      | "ReviewThresholdSet"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "ScoreUnlocked"
+      | "ScoreUnlockerSet"
+      | "ScoringModelActivated"
+      | "ScoringModelUploaded"
+      | "Unpaused"
+      | "VerdictCompleted"
+      | "VerdictRequested"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ANALYST_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "FEATURE_COUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_FEATURE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "MAX_SCORE", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "MAX_WEIGHT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MODEL_MANAGER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PROVIDER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "WEIGHT_SCALE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "activateScoringModel",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "activeModelVersion",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "batchOpen", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "batches",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "clearProviderLimits",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeExpiredBatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptedMisinfoScore",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionCooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionTimeout",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultEpochQuota",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedFlags",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedMisinfoScores",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedPosts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "epochSubmissions",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchPosts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchSummary",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPostFeatures",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMemberCount",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMembers",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getScoringModel",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isScoreLocked",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "modelVersionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextDecryptionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "openBatch", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "openBatchUntil",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openReviewCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "postBatchId",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "postFlagged",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "postProcessed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "postStatus",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processBatch",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processPost",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "processPostVerdict",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "providerLimits",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "quotaEpoch",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "quotaEpochSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordReviewOutcome",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "remainingQuota",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestReview",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "retryDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reviewModule",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reviewOutcome",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reviewProposalId",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reviewThreshold",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scoreModelVersion",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scoreUnlocker",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldown",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDecryptionCooldown",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDecryptionTimeout",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setFlagThreshold",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setProviderLimits",
+    values: [AddressLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setQuota",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReviewModule",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReviewThreshold",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setScoreUnlocker",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitPost",
+    values: [BytesLike, [BytesLike, BytesLike, BytesLike, BytesLike], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unlockScore",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "uploadScoringModel",
+    values: [[BytesLike, BytesLike, BytesLike, BytesLike], BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verdictCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "ANALYST_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "FEATURE_COUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_FEATURE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_SCORE", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "MAX_WEIGHT", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MODEL_MANAGER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PROVIDER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "WEIGHT_SCALE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "activateScoringModel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "activeModelVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchOpen", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "batches", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "clearProviderLimits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "closeExpiredBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptedMisinfoScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultEpochQuota",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedFlags",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedMisinfoScores",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedPosts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "epochSubmissions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchPosts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchSummary",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPostFeatures",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMemberCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMembers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getScoringModel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isScoreLocked",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "modelVersionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "nextDecryptionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "nextSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "openBatchUntil",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "openReviewCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "postBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "postFlagged",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "postProcessed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "postStatus", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "processBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "processPost",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "processPostVerdict",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "providerLimits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "quotaEpoch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "quotaEpochSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordReviewOutcome",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "remainingQuota",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestReview",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "retryDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reviewModule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reviewOutcome",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reviewProposalId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reviewThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "scoreModelVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "scoreUnlocker",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldown",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDecryptionCooldown",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDecryptionTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setFlagThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setProviderLimits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setQuota", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setReviewModule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReviewThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setScoreUnlocker",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "submitPost", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unlockScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "uploadScoringModel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verdictCallback",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchDeadlineSetEvent {
+  export type InputTuple = [batchId: BigNumberish, deadline: BigNumberish];
+  export type OutputTuple = [batchId: bigint, deadline: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    deadline: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchDecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    postCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    postCount: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    postCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSetEvent {
+  export type InputTuple = [
+    oldCooldown: BigNumberish,
+    newCooldown: BigNumberish
+  ];
+  export type OutputTuple = [oldCooldown: bigint, newCooldown: bigint];
+  export interface OutputObject {
+    oldCooldown: bigint;
+    newCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCancelledEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    postId: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    postId: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    postId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    postId: BigNumberish,
+    misinfoScore: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    postId: bigint,
+    misinfoScore: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    postId: bigint;
+    misinfoScore: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCooldownSetEvent {
+  export type InputTuple = [
+    oldCooldown: BigNumberish,
+    newCooldown: BigNumberish
+  ];
+  export type OutputTuple = [oldCooldown: bigint, newCooldown: bigint];
+  export interface OutputObject {
+    oldCooldown: bigint;
+    newCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    postId: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    postId: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    postId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRetriedEvent {
+  export type InputTuple = [
+    oldRequestId: BigNumberish,
+    newRequestId: BigNumberish
+  ];
+  export type OutputTuple = [oldRequestId: bigint, newRequestId: bigint];
+  export interface OutputObject {
+    oldRequestId: bigint;
+    newRequestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionTimedOutEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    postId: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    postId: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    postId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionTimeoutSetEvent {
+  export type InputTuple = [oldTimeout: BigNumberish, newTimeout: BigNumberish];
+  export type OutputTuple = [oldTimeout: bigint, newTimeout: bigint];
+  export interface OutputObject {
+    oldTimeout: bigint;
+    newTimeout: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FlagThresholdSetEvent {
+  export type InputTuple = [setter: AddressLike];
+  export type OutputTuple = [setter: string];
+  export interface OutputObject {
+    setter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PostScoredEvent {
+  export type InputTuple = [postId: BigNumberish, modelVersion: BigNumberish];
+  export type OutputTuple = [postId: bigint, modelVersion: bigint];
+  export interface OutputObject {
+    postId: bigint;
+    modelVersion: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PostSubmittedEvent {
+  export type InputTuple = [
+    submitter: AddressLike,
+    batchId: BigNumberish,
+    postId: BigNumberish
+  ];
+  export type OutputTuple = [
+    submitter: string,
+    batchId: bigint,
+    postId: bigint
+  ];
+  export interface OutputObject {
+    submitter: string;
+    batchId: bigint;
+    postId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderLimitsClearedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderLimitsSetEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    submissionCooldown: BigNumberish,
+    decryptionCooldown: BigNumberish,
+    epochQuota: BigNumberish
+  ];
+  export type OutputTuple = [
+    provider: string,
+    submissionCooldown: bigint,
+    decryptionCooldown: bigint,
+    epochQuota: bigint
+  ];
+  export interface OutputObject {
+    provider: string;
+    submissionCooldown: bigint;
+    decryptionCooldown: bigint;
+    epochQuota: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QuotaSetEvent {
+  export type InputTuple = [
+    epochSeconds: BigNumberish,
+    defaultQuota: BigNumberish
+  ];
+  export type OutputTuple = [epochSeconds: bigint, defaultQuota: bigint];
+  export interface OutputObject {
+    epochSeconds: bigint;
+    defaultQuota: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewModuleSetEvent {
+  export type InputTuple = [
+    previousModule: AddressLike,
+    newModule: AddressLike
+  ];
+  export type OutputTuple = [previousModule: string, newModule: string];
+  export interface OutputObject {
+    previousModule: string;
+    newModule: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewOutcomeRecordedEvent {
+  export type InputTuple = [postId: BigNumberish, outcome: BigNumberish];
+  export type OutputTuple = [postId: bigint, outcome: bigint];
+  export interface OutputObject {
+    postId: bigint;
+    outcome: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewRequestFailedEvent {
+  export type InputTuple = [postId: BigNumberish, reason: BytesLike];
+  export type OutputTuple = [postId: bigint, reason: string];
+  export interface OutputObject {
+    postId: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewRequestedEvent {
+  export type InputTuple = [postId: BigNumberish, proposalId: BigNumberish];
+  export type OutputTuple = [postId: bigint, proposalId: bigint];
+  export interface OutputObject {
+    postId: bigint;
+    proposalId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewThresholdSetEvent {
+  export type InputTuple = [
+    oldThreshold: BigNumberish,
+    newThreshold: BigNumberish
+  ];
+  export type OutputTuple = [oldThreshold: bigint, newThreshold: bigint];
+  export interface OutputObject {
+    oldThreshold: bigint;
+    newThreshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoreUnlockedEvent {
+  export type InputTuple = [postId: BigNumberish, unlocker: AddressLike];
+  export type OutputTuple = [postId: bigint, unlocker: string];
+  export interface OutputObject {
+    postId: bigint;
+    unlocker: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoreUnlockerSetEvent {
+  export type InputTuple = [
+    previousUnlocker: AddressLike,
+    newUnlocker: AddressLike
+  ];
+  export type OutputTuple = [previousUnlocker: string, newUnlocker: string];
+  export interface OutputObject {
+    previousUnlocker: string;
+    newUnlocker: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoringModelActivatedEvent {
+  export type InputTuple = [
+    previousVersion: BigNumberish,
+    newVersion: BigNumberish
+  ];
+  export type OutputTuple = [previousVersion: bigint, newVersion: bigint];
+  export interface OutputObject {
+    previousVersion: bigint;
+    newVersion: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoringModelUploadedEvent {
+  export type InputTuple = [version: BigNumberish, uploader: AddressLike];
+  export type OutputTuple = [version: bigint, uploader: string];
+  export interface OutputObject {
+    version: bigint;
+    uploader: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VerdictCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    postId: BigNumberish,
+    flagged: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    postId: bigint,
+    flagged: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    postId: bigint;
+    flagged: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VerdictRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    postId: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    postId: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    postId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AIFactCheckFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): AIFactCheckFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: AIFactCheckFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  ANALYST_ROLE: TypedContractMethod<[], [string], "view">;
+
+  FEATURE_COUNT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_FEATURE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SCORE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_WEIGHT: TypedContractMethod<[], [bigint], "view">;
+
+  MODEL_MANAGER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  PAUSER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  PROVIDER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  WEIGHT_SCALE: TypedContractMethod<[], [bigint], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  activateScoringModel: TypedContractMethod<
+    [version: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  activeModelVersion: TypedContractMethod<[], [bigint], "view">;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batchCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batchOpen: TypedContractMethod<[], [boolean], "view">;
+
+  batches: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        openedAt: bigint;
+        deadline: bigint;
+        submittedCount: bigint;
+        processedCount: bigint;
+        flaggedCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  cancelDecryption: TypedContractMethod<
+    [requestId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  clearProviderLimits: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  closeBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  closeExpiredBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptedMisinfoScore: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean, bigint, bigint] & {
+        batchId: bigint;
+        postId: bigint;
+        stateHash: string;
+        processed: boolean;
+        kind: bigint;
+        requestedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  decryptionCooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionTimeout: TypedContractMethod<[], [bigint], "view">;
+
+  defaultEpochQuota: TypedContractMethod<[], [bigint], "view">;
+
+  encryptedFlags: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  encryptedMisinfoScores: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedPosts: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  epochSubmissions: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  getBatchPosts: TypedContractMethod<
+    [batchId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getBatchSummary: TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, boolean] & {
+        submitted: bigint;
+        processed: bigint;
+        flagged: bigint;
+        deadline: bigint;
+        open: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getPostFeatures: TypedContractMethod<
+    [postId: BigNumberish],
+    [[string, string, string, string]],
+    "view"
+  >;
+
+  getRoleMemberCount: TypedContractMethod<[role: BytesLike], [bigint], "view">;
+
+  getRoleMembers: TypedContractMethod<[role: BytesLike], [string[]], "view">;
+
+  getScoringModel: TypedContractMethod<
+    [version: BigNumberish],
+    [
+      [[string, string, string, string], string, string, bigint] & {
+        weights: [string, string, string, string];
+        bias: string;
+        uploader: string;
+        uploadedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isProvider: TypedContractMethod<[account: AddressLike], [boolean], "view">;
+
+  isScoreLocked: TypedContractMethod<[postId: BigNumberish], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  modelVersionCount: TypedContractMethod<[], [bigint], "view">;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  nextDecryptionTime: TypedContractMethod<
+    [account: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  nextSubmissionTime: TypedContractMethod<
+    [provider: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  openBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  openBatchUntil: TypedContractMethod<
+    [deadline: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  openReviewCount: TypedContractMethod<[], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  postBatchId: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  postFlagged: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  postProcessed: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  postStatus: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  processBatch: TypedContractMethod<
+    [batchId: BigNumberish, maxPosts: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  processPost: TypedContractMethod<
+    [postId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  processPostVerdict: TypedContractMethod<
+    [postId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  providerLimits: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint] & {
+        overridden: boolean;
+        submissionCooldown: bigint;
+        decryptionCooldown: bigint;
+        epochQuota: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  quotaEpoch: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  quotaEpochSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  recordReviewOutcome: TypedContractMethod<
+    [postId: BigNumberish, outcome: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  remainingQuota: TypedContractMethod<
+    [provider: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestReview: TypedContractMethod<
+    [postId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  retryDecryption: TypedContractMethod<
+    [requestId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  reviewModule: TypedContractMethod<[], [string], "view">;
+
+  reviewOutcome: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  reviewProposalId: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  reviewThreshold: TypedContractMethod<[], [bigint], "view">;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  scoreModelVersion: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  scoreUnlocker: TypedContractMethod<[], [string], "view">;
+
+  setCooldown: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDecryptionCooldown: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDecryptionTimeout: TypedContractMethod<
+    [newTimeout: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setFlagThreshold: TypedContractMethod<
+    [encryptedThreshold: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setProviderLimits: TypedContractMethod<
+    [
+      provider: AddressLike,
+      submissionCooldown: BigNumberish,
+      decryptionCooldown: BigNumberish,
+      epochQuota: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setQuota: TypedContractMethod<
+    [epochSeconds: BigNumberish, defaultQuota: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setReviewModule: TypedContractMethod<
+    [newModule: AddressLike, asScoreUnlocker: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setReviewThreshold: TypedContractMethod<
+    [newThreshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setScoreUnlocker: TypedContractMethod<
+    [newUnlocker: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitPost: TypedContractMethod<
+    [
+      encryptedContentHash: BytesLike,
+      encryptedFeatures: [BytesLike, BytesLike, BytesLike, BytesLike],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unlockScore: TypedContractMethod<
+    [postId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  uploadScoringModel: TypedContractMethod<
+    [
+      encryptedWeights: [BytesLike, BytesLike, BytesLike, BytesLike],
+      encryptedBias: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  verdictCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "ANALYST_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "FEATURE_COUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_FEATURE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SCORE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_WEIGHT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MODEL_MANAGER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PAUSER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PROVIDER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "WEIGHT_SCALE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "activateScoringModel"
+  ): TypedContractMethod<[version: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "activeModelVersion"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "batchOpen"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "batches"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        openedAt: bigint;
+        deadline: bigint;
+        submittedCount: bigint;
+        processedCount: bigint;
+        flaggedCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelDecryption"
+  ): TypedContractMethod<[requestId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "clearProviderLimits"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeExpiredBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptedMisinfoScore"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, string, boolean, bigint, bigint] & {
+        batchId: bigint;
+        postId: bigint;
+        stateHash: string;
+        processed: boolean;
+        kind: bigint;
+        requestedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionCooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionTimeout"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "defaultEpochQuota"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "encryptedFlags"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedMisinfoScores"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedPosts"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "epochSubmissions"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getBatchPosts"
+  ): TypedContractMethod<[batchId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getBatchSummary"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, boolean] & {
+        submitted: bigint;
+        processed: bigint;
+        flagged: bigint;
+        deadline: bigint;
+        open: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPostFeatures"
+  ): TypedContractMethod<
+    [postId: BigNumberish],
+    [[string, string, string, string]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRoleMemberCount"
+  ): TypedContractMethod<[role: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getRoleMembers"
+  ): TypedContractMethod<[role: BytesLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getScoringModel"
+  ): TypedContractMethod<
+    [version: BigNumberish],
+    [
+      [[string, string, string, string], string, string, bigint] & {
+        weights: [string, string, string, string];
+        bias: string;
+        uploader: string;
+        uploadedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isScoreLocked"
+  ): TypedContractMethod<[postId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "modelVersionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "nextDecryptionTime"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "nextSubmissionTime"
+  ): TypedContractMethod<[provider: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "openBatchUntil"
+  ): TypedContractMethod<[deadline: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "openReviewCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "postBatchId"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "postFlagged"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "postProcessed"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "postStatus"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "processBatch"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, maxPosts: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "processPost"
+  ): TypedContractMethod<[postId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "processPostVerdict"
+  ): TypedContractMethod<[postId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "providerLimits"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint] & {
+        overridden: boolean;
+        submissionCooldown: bigint;
+        decryptionCooldown: bigint;
+        epochQuota: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "quotaEpoch"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "quotaEpochSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recordReviewOutcome"
+  ): TypedContractMethod<
+    [postId: BigNumberish, outcome: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "remainingQuota"
+  ): TypedContractMethod<[provider: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestReview"
+  ): TypedContractMethod<[postId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "retryDecryption"
+  ): TypedContractMethod<[requestId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reviewModule"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "reviewOutcome"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "reviewProposalId"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "reviewThreshold"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "scoreModelVersion"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "scoreUnlocker"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setCooldown"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDecryptionCooldown"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDecryptionTimeout"
+  ): TypedContractMethod<[newTimeout: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setFlagThreshold"
+  ): TypedContractMethod<
+    [encryptedThreshold: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setProviderLimits"
+  ): TypedContractMethod<
+    [
+      provider: AddressLike,
+      submissionCooldown: BigNumberish,
+      decryptionCooldown: BigNumberish,
+      epochQuota: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setQuota"
+  ): TypedContractMethod<
+    [epochSeconds: BigNumberish, defaultQuota: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setReviewModule"
+  ): TypedContractMethod<
+    [newModule: AddressLike, asScoreUnlocker: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setReviewThreshold"
+  ): TypedContractMethod<[newThreshold: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setScoreUnlocker"
+  ): TypedContractMethod<[newUnlocker: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitPost"
+  ): TypedContractMethod<
+    [
+      encryptedContentHash: BytesLike,
+      encryptedFeatures: [BytesLike, BytesLike, BytesLike, BytesLike],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unlockScore"
+  ): TypedContractMethod<[postId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "uploadScoringModel"
+  ): TypedContractMethod<
+    [
+      encryptedWeights: [BytesLike, BytesLike, BytesLike, BytesLike],
+      encryptedBias: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "verdictCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchDeadlineSet"
+  ): TypedContractEvent<
+    BatchDeadlineSetEvent.InputTuple,
+    BatchDeadlineSetEvent.OutputTuple,
+    BatchDeadlineSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchDecryptionRequested"
+  ): TypedContractEvent<
+    BatchDecryptionRequestedEvent.InputTuple,
+    BatchDecryptionRequestedEvent.OutputTuple,
+    BatchDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSet"
+  ): TypedContractEvent<
+    CooldownSetEvent.InputTuple,
+    CooldownSetEvent.OutputTuple,
+    CooldownSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCancelled"
+  ): TypedContractEvent<
+    DecryptionCancelledEvent.InputTuple,
+    DecryptionCancelledEvent.OutputTuple,
+    DecryptionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCooldownSet"
+  ): TypedContractEvent<
+    DecryptionCooldownSetEvent.InputTuple,
+    DecryptionCooldownSetEvent.OutputTuple,
+    DecryptionCooldownSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRetried"
+  ): TypedContractEvent<
+    DecryptionRetriedEvent.InputTuple,
+    DecryptionRetriedEvent.OutputTuple,
+    DecryptionRetriedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionTimedOut"
+  ): TypedContractEvent<
+    DecryptionTimedOutEvent.InputTuple,
+    DecryptionTimedOutEvent.OutputTuple,
+    DecryptionTimedOutEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionTimeoutSet"
+  ): TypedContractEvent<
+    DecryptionTimeoutSetEvent.InputTuple,
+    DecryptionTimeoutSetEvent.OutputTuple,
+    DecryptionTimeoutSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "FlagThresholdSet"
+  ): TypedContractEvent<
+    FlagThresholdSetEvent.InputTuple,
+    FlagThresholdSetEvent.OutputTuple,
+    FlagThresholdSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PostScored"
+  ): TypedContractEvent<
+    PostScoredEvent.InputTuple,
+    PostScoredEvent.OutputTuple,
+    PostScoredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PostSubmitted"
+  ): TypedContractEvent<
+    PostSubmittedEvent.InputTuple,
+    PostSubmittedEvent.OutputTuple,
+    PostSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderLimitsCleared"
+  ): TypedContractEvent<
+    ProviderLimitsClearedEvent.InputTuple,
+    ProviderLimitsClearedEvent.OutputTuple,
+    ProviderLimitsClearedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderLimitsSet"
+  ): TypedContractEvent<
+    ProviderLimitsSetEvent.InputTuple,
+    ProviderLimitsSetEvent.OutputTuple,
+    ProviderLimitsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "QuotaSet"
+  ): TypedContractEvent<
+    QuotaSetEvent.InputTuple,
+    QuotaSetEvent.OutputTuple,
+    QuotaSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewModuleSet"
+  ): TypedContractEvent<
+    ReviewModuleSetEvent.InputTuple,
+    ReviewModuleSetEvent.OutputTuple,
+    ReviewModuleSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewOutcomeRecorded"
+  ): TypedContractEvent<
+    ReviewOutcomeRecordedEvent.InputTuple,
+    ReviewOutcomeRecordedEvent.OutputTuple,
+    ReviewOutcomeRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewRequestFailed"
+  ): TypedContractEvent<
+    ReviewRequestFailedEvent.InputTuple,
+    ReviewRequestFailedEvent.OutputTuple,
+    ReviewRequestFailedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewRequested"
+  ): TypedContractEvent<
+    ReviewRequestedEvent.InputTuple,
+    ReviewRequestedEvent.OutputTuple,
+    ReviewRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewThresholdSet"
+  ): TypedContractEvent<
+    ReviewThresholdSetEvent.InputTuple,
+    ReviewThresholdSetEvent.OutputTuple,
+    ReviewThresholdSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoreUnlocked"
+  ): TypedContractEvent<
+    ScoreUnlockedEvent.InputTuple,
+    ScoreUnlockedEvent.OutputTuple,
+    ScoreUnlockedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoreUnlockerSet"
+  ): TypedContractEvent<
+    ScoreUnlockerSetEvent.InputTuple,
+    ScoreUnlockerSetEvent.OutputTuple,
+    ScoreUnlockerSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoringModelActivated"
+  ): TypedContractEvent<
+    ScoringModelActivatedEvent.InputTuple,
+    ScoringModelActivatedEvent.OutputTuple,
+    ScoringModelActivatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoringModelUploaded"
+  ): TypedContractEvent<
+    ScoringModelUploadedEvent.InputTuple,
+    ScoringModelUploadedEvent.OutputTuple,
+    ScoringModelUploadedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VerdictCompleted"
+  ): TypedContractEvent<
+    VerdictCompletedEvent.InputTuple,
+    VerdictCompletedEvent.OutputTuple,
+    VerdictCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VerdictRequested"
+  ): TypedContractEvent<
+    VerdictRequestedEvent.InputTuple,
+    VerdictRequestedEvent.OutputTuple,
+    VerdictRequestedEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchDeadlineSet(uint256,uint256)": TypedContractEvent<
+      BatchDeadlineSetEvent.InputTuple,
+      BatchDeadlineSetEvent.OutputTuple,
+      BatchDeadlineSetEvent.OutputObject
+    >;
+    BatchDeadlineSet: TypedContractEvent<
+      BatchDeadlineSetEvent.InputTuple,
+      BatchDeadlineSetEvent.OutputTuple,
+      BatchDeadlineSetEvent.OutputObject
+    >;
+
+    "BatchDecryptionRequested(uint256,uint256,uint256)": TypedContractEvent<
+      BatchDecryptionRequestedEvent.InputTuple,
+      BatchDecryptionRequestedEvent.OutputTuple,
+      BatchDecryptionRequestedEvent.OutputObject
+    >;
+    BatchDecryptionRequested: TypedContractEvent<
+      BatchDecryptionRequestedEvent.InputTuple,
+      BatchDecryptionRequestedEvent.OutputTuple,
+      BatchDecryptionRequestedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "CooldownSet(uint256,uint256)": TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+    CooldownSet: TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+
+    "DecryptionCancelled(uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionCancelledEvent.InputTuple,
+      DecryptionCancelledEvent.OutputTuple,
+      DecryptionCancelledEvent.OutputObject
+    >;
+    DecryptionCancelled: TypedContractEvent<
+      DecryptionCancelledEvent.InputTuple,
+      DecryptionCancelledEvent.OutputTuple,
+      DecryptionCancelledEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256,uint32)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionCooldownSet(uint256,uint256)": TypedContractEvent<
+      DecryptionCooldownSetEvent.InputTuple,
+      DecryptionCooldownSetEvent.OutputTuple,
+      DecryptionCooldownSetEvent.OutputObject
+    >;
+    DecryptionCooldownSet: TypedContractEvent<
+      DecryptionCooldownSetEvent.InputTuple,
+      DecryptionCooldownSetEvent.OutputTuple,
+      DecryptionCooldownSetEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "DecryptionRetried(uint256,uint256)": TypedContractEvent<
+      DecryptionRetriedEvent.InputTuple,
+      DecryptionRetriedEvent.OutputTuple,
+      DecryptionRetriedEvent.OutputObject
+    >;
+    DecryptionRetried: TypedContractEvent<
+      DecryptionRetriedEvent.InputTuple,
+      DecryptionRetriedEvent.OutputTuple,
+      DecryptionRetriedEvent.OutputObject
+    >;
+
+    "DecryptionTimedOut(uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionTimedOutEvent.InputTuple,
+      DecryptionTimedOutEvent.OutputTuple,
+      DecryptionTimedOutEvent.OutputObject
+    >;
+    DecryptionTimedOut: TypedContractEvent<
+      DecryptionTimedOutEvent.InputTuple,
+      DecryptionTimedOutEvent.OutputTuple,
+      DecryptionTimedOutEvent.OutputObject
+    >;
+
+    "DecryptionTimeoutSet(uint256,uint256)": TypedContractEvent<
+      DecryptionTimeoutSetEvent.InputTuple,
+      DecryptionTimeoutSetEvent.OutputTuple,
+      DecryptionTimeoutSetEvent.OutputObject
+    >;
+    DecryptionTimeoutSet: TypedContractEvent<
+      DecryptionTimeoutSetEvent.InputTuple,
+      DecryptionTimeoutSetEvent.OutputTuple,
+      DecryptionTimeoutSetEvent.OutputObject
+    >;
+
+    "FlagThresholdSet(address)": TypedContractEvent<
+      FlagThresholdSetEvent.InputTuple,
+      FlagThresholdSetEvent.OutputTuple,
+      FlagThresholdSetEvent.OutputObject
+    >;
+    FlagThresholdSet: TypedContractEvent<
+      FlagThresholdSetEvent.InputTuple,
+      FlagThresholdSetEvent.OutputTuple,
+      FlagThresholdSetEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "PostScored(uint256,uint256)": TypedContractEvent<
+      PostScoredEvent.InputTuple,
+      PostScoredEvent.OutputTuple,
+      PostScoredEvent.OutputObject
+    >;
+    PostScored: TypedContractEvent<
+      PostScoredEvent.InputTuple,
+      PostScoredEvent.OutputTuple,
+      PostScoredEvent.OutputObject
+    >;
+
+    "PostSubmitted(address,uint256,uint256)": TypedContractEvent<
+      PostSubmittedEvent.InputTuple,
+      PostSubmittedEvent.OutputTuple,
+      PostSubmittedEvent.OutputObject
+    >;
+    PostSubmitted: TypedContractEvent<
+      PostSubmittedEvent.InputTuple,
+      PostSubmittedEvent.OutputTuple,
+      PostSubmittedEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderLimitsCleared(address)": TypedContractEvent<
+      ProviderLimitsClearedEvent.InputTuple,
+      ProviderLimitsClearedEvent.OutputTuple,
+      ProviderLimitsClearedEvent.OutputObject
+    >;
+    ProviderLimitsCleared: TypedContractEvent<
+      ProviderLimitsClearedEvent.InputTuple,
+      ProviderLimitsClearedEvent.OutputTuple,
+      ProviderLimitsClearedEvent.OutputObject
+    >;
+
+    "ProviderLimitsSet(address,uint256,uint256,uint256)": TypedContractEvent<
+      ProviderLimitsSetEvent.InputTuple,
+      ProviderLimitsSetEvent.OutputTuple,
+      ProviderLimitsSetEvent.OutputObject
+    >;
+    ProviderLimitsSet: TypedContractEvent<
+      ProviderLimitsSetEvent.InputTuple,
+      ProviderLimitsSetEvent.OutputTuple,
+      ProviderLimitsSetEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "QuotaSet(uint256,uint256)": TypedContractEvent<
+      QuotaSetEvent.InputTuple,
+      QuotaSetEvent.OutputTuple,
+      QuotaSetEvent.OutputObject
+    >;
+    QuotaSet: TypedContractEvent<
+      QuotaSetEvent.InputTuple,
+      QuotaSetEvent.OutputTuple,
+      QuotaSetEvent.OutputObject
+    >;
+
+    "ReviewModuleSet(address,address)": TypedContractEvent<
+      ReviewModuleSetEvent.InputTuple,
+      ReviewModuleSetEvent.OutputTuple,
+      ReviewModuleSetEvent.OutputObject
+    >;
+    ReviewModuleSet: TypedContractEvent<
+      ReviewModuleSetEvent.InputTuple,
+      ReviewModuleSetEvent.OutputTuple,
+      ReviewModuleSetEvent.OutputObject
+    >;
+
+    "ReviewOutcomeRecorded(uint256,uint8)": TypedContractEvent<
+      ReviewOutcomeRecordedEvent.InputTuple,
+      ReviewOutcomeRecordedEvent.OutputTuple,
+      ReviewOutcomeRecordedEvent.OutputObject
+    >;
+    ReviewOutcomeRecorded: TypedContractEvent<
+      ReviewOutcomeRecordedEvent.InputTuple,
+      ReviewOutcomeRecordedEvent.OutputTuple,
+      ReviewOutcomeRecordedEvent.OutputObject
+    >;
+
+    "ReviewRequestFailed(uint256,bytes)": TypedContractEvent<
+      ReviewRequestFailedEvent.InputTuple,
+      ReviewRequestFailedEvent.OutputTuple,
+      ReviewRequestFailedEvent.OutputObject
+    >;
+    ReviewRequestFailed: TypedContractEvent<
+      ReviewRequestFailedEvent.InputTuple,
+      ReviewRequestFailedEvent.OutputTuple,
+      ReviewRequestFailedEvent.OutputObject
+    >;
+
+    "ReviewRequested(uint256,uint256)": TypedContractEvent<
+      ReviewRequestedEvent.InputTuple,
+      ReviewRequestedEvent.OutputTuple,
+      ReviewRequestedEvent.OutputObject
+    >;
+    ReviewRequested: TypedContractEvent<
+      ReviewRequestedEvent.InputTuple,
+      ReviewRequestedEvent.OutputTuple,
+      ReviewRequestedEvent.OutputObject
+    >;
+
+    "ReviewThresholdSet(uint32,uint32)": TypedContractEvent<
+      ReviewThresholdSetEvent.InputTuple,
+      ReviewThresholdSetEvent.OutputTuple,
+      ReviewThresholdSetEvent.OutputObject
+    >;
+    ReviewThresholdSet: TypedContractEvent<
+      ReviewThresholdSetEvent.InputTuple,
+      ReviewThresholdSetEvent.OutputTuple,
+      ReviewThresholdSetEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "ScoreUnlocked(uint256,address)": TypedContractEvent<
+      ScoreUnlockedEvent.InputTuple,
+      ScoreUnlockedEvent.OutputTuple,
+      ScoreUnlockedEvent.OutputObject
+    >;
+    ScoreUnlocked: TypedContractEvent<
+      ScoreUnlockedEvent.InputTuple,
+      ScoreUnlockedEvent.OutputTuple,
+      ScoreUnlockedEvent.OutputObject
+    >;
+
+    "ScoreUnlockerSet(address,address)": TypedContractEvent<
+      ScoreUnlockerSetEvent.InputTuple,
+      ScoreUnlockerSetEvent.OutputTuple,
+      ScoreUnlockerSetEvent.OutputObject
+    >;
+    ScoreUnlockerSet: TypedContractEvent<
+      ScoreUnlockerSetEvent.InputTuple,
+      ScoreUnlockerSetEvent.OutputTuple,
+      ScoreUnlockerSetEvent.OutputObject
+    >;
+
+    "ScoringModelActivated(uint256,uint256)": TypedContractEvent<
+      ScoringModelActivatedEvent.InputTuple,
+      ScoringModelActivatedEvent.OutputTuple,
+      ScoringModelActivatedEvent.OutputObject
+    >;
+    ScoringModelActivated: TypedContractEvent<
+      ScoringModelActivatedEvent.InputTuple,
+      ScoringModelActivatedEvent.OutputTuple,
+      ScoringModelActivatedEvent.OutputObject
+    >;
+
+    "ScoringModelUploaded(uint256,address)": TypedContractEvent<
+      ScoringModelUploadedEvent.InputTuple,
+      ScoringModelUploadedEvent.OutputTuple,
+      ScoringModelUploadedEvent.OutputObject
+    >;
+    ScoringModelUploaded: TypedContractEvent<
+      ScoringModelUploadedEvent.InputTuple,
+      ScoringModelUploadedEvent.OutputTuple,
+      ScoringModelUploadedEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+
+    "VerdictCompleted(uint256,uint256,uint256,bool)": TypedContractEvent<
+      VerdictCompletedEvent.InputTuple,
+      VerdictCompletedEvent.OutputTuple,
+      VerdictCompletedEvent.OutputObject
+    >;
+    VerdictCompleted: TypedContractEvent<
+      VerdictCompletedEvent.InputTuple,
+      VerdictCompletedEvent.OutputTuple,
+      VerdictCompletedEvent.OutputObject
+    >;
+
+    "VerdictRequested(uint256,uint256,uint256)": TypedContractEvent<
+      VerdictRequestedEvent.InputTuple,
+      VerdictRequestedEvent.OutputTuple,
+      VerdictRequestedEvent.OutputObject
+    >;
+    VerdictRequested: TypedContractEvent<
+      VerdictRequestedEvent.InputTuple,
+      VerdictRequestedEvent.OutputTuple,
+      VerdictRequestedEvent.OutputObject
+    >;
+  };
+}
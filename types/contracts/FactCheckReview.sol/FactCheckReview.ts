@@ -0,0 +1,1401 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface FactCheckReviewInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "cancelTallyDecryption"
+      | "castEncryptedVote"
+      | "castVote"
+      | "decryptionContexts"
+      | "encryptedWeightCast"
+      | "factCheck"
+      | "finalize"
+      | "getEncryptedTally"
+      | "getVotingWeight"
+      | "hasVoted"
+      | "onTallyDecrypted"
+      | "openReview"
+      | "owner"
+      | "privateBallots"
+      | "proposalCount"
+      | "proposalOfPost"
+      | "proposals"
+      | "protocolId"
+      | "quorum"
+      | "requestTallyDecryption"
+      | "retryTallyDecryption"
+      | "setPrivateBallots"
+      | "setQuorum"
+      | "setTallyTimeout"
+      | "setVoterWeight"
+      | "setVotingPeriod"
+      | "setVotingToken"
+      | "tallyRequestId"
+      | "tallyTimeout"
+      | "transferOwnership"
+      | "unlockScore"
+      | "voterWeight"
+      | "votingPeriod"
+      | "votingToken"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DecryptionFulfilled"
+      | "EncryptedVoteCast"
+      | "OwnershipTransferred"
+      | "PrivateBallotsSet"
+      | "QuorumSet"
+      | "ReviewFinalized"
+      | "ReviewOpened"
+      | "ScoreUnlockFailed"
+      | "ScoreUnlockRequested"
+      | "TallyCancelled"
+      | "TallyDecrypted"
+      | "TallyRequested"
+      | "TallyRetried"
+      | "TallyTimedOut"
+      | "TallyTimeoutSet"
+      | "VoteCast"
+      | "VoterWeightSet"
+      | "VotingPeriodSet"
+      | "VotingTokenSet"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "cancelTallyDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "castEncryptedVote",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "castVote",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedWeightCast",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "factCheck", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "finalize",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedTally",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getVotingWeight",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasVoted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onTallyDecrypted",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openReview",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "privateBallots",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalOfPost",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposals",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "quorum", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "requestTallyDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "retryTallyDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPrivateBallots",
+    values: [boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setQuorum",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTallyTimeout",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVoterWeight",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVotingPeriod",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVotingToken",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tallyRequestId",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tallyTimeout",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unlockScore",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "voterWeight",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "votingPeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "votingToken",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "cancelTallyDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "castEncryptedVote",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "castVote", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedWeightCast",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "factCheck", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "finalize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedTally",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getVotingWeight",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasVoted", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "onTallyDecrypted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "openReview", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "privateBallots",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalOfPost",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "proposals", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "quorum", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestTallyDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "retryTallyDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPrivateBallots",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setQuorum", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setTallyTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVoterWeight",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVotingPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVotingToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tallyRequestId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tallyTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unlockScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "voterWeight",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "votingPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "votingToken",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EncryptedVoteCastEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    voter: AddressLike,
+    weight: BigNumberish
+  ];
+  export type OutputTuple = [proposalId: bigint, voter: string, weight: bigint];
+  export interface OutputObject {
+    proposalId: bigint;
+    voter: string;
+    weight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PrivateBallotsSetEvent {
+  export type InputTuple = [enabled: boolean];
+  export type OutputTuple = [enabled: boolean];
+  export interface OutputObject {
+    enabled: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QuorumSetEvent {
+  export type InputTuple = [oldQuorum: BigNumberish, newQuorum: BigNumberish];
+  export type OutputTuple = [oldQuorum: bigint, newQuorum: bigint];
+  export interface OutputObject {
+    oldQuorum: bigint;
+    newQuorum: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewFinalizedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    postId: BigNumberish,
+    outcome: BigNumberish
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    postId: bigint,
+    outcome: bigint
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    postId: bigint;
+    outcome: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewOpenedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    postId: BigNumberish,
+    endTime: BigNumberish
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    postId: bigint,
+    endTime: bigint
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    postId: bigint;
+    endTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoreUnlockFailedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    postId: BigNumberish,
+    reason: BytesLike
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    postId: bigint,
+    reason: string
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    postId: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoreUnlockRequestedEvent {
+  export type InputTuple = [proposalId: BigNumberish, postId: BigNumberish];
+  export type OutputTuple = [proposalId: bigint, postId: bigint];
+  export interface OutputObject {
+    proposalId: bigint;
+    postId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TallyCancelledEvent {
+  export type InputTuple = [proposalId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [proposalId: bigint, requestId: bigint];
+  export interface OutputObject {
+    proposalId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TallyDecryptedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    upholdWeight: BigNumberish,
+    overturnWeight: BigNumberish,
+    escalateWeight: BigNumberish
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    upholdWeight: bigint,
+    overturnWeight: bigint,
+    escalateWeight: bigint
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    upholdWeight: bigint;
+    overturnWeight: bigint;
+    escalateWeight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TallyRequestedEvent {
+  export type InputTuple = [proposalId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [proposalId: bigint, requestId: bigint];
+  export interface OutputObject {
+    proposalId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TallyRetriedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    oldRequestId: BigNumberish,
+    newRequestId: BigNumberish
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    oldRequestId: bigint,
+    newRequestId: bigint
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    oldRequestId: bigint;
+    newRequestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TallyTimedOutEvent {
+  export type InputTuple = [proposalId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [proposalId: bigint, requestId: bigint];
+  export interface OutputObject {
+    proposalId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TallyTimeoutSetEvent {
+  export type InputTuple = [oldTimeout: BigNumberish, newTimeout: BigNumberish];
+  export type OutputTuple = [oldTimeout: bigint, newTimeout: bigint];
+  export interface OutputObject {
+    oldTimeout: bigint;
+    newTimeout: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VoteCastEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    voter: AddressLike,
+    choice: BigNumberish,
+    weight: BigNumberish
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    voter: string,
+    choice: bigint,
+    weight: bigint
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    voter: string;
+    choice: bigint;
+    weight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VoterWeightSetEvent {
+  export type InputTuple = [voter: AddressLike, weight: BigNumberish];
+  export type OutputTuple = [voter: string, weight: bigint];
+  export interface OutputObject {
+    voter: string;
+    weight: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VotingPeriodSetEvent {
+  export type InputTuple = [oldPeriod: BigNumberish, newPeriod: BigNumberish];
+  export type OutputTuple = [oldPeriod: bigint, newPeriod: bigint];
+  export interface OutputObject {
+    oldPeriod: bigint;
+    newPeriod: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VotingTokenSetEvent {
+  export type InputTuple = [token: AddressLike];
+  export type OutputTuple = [token: string];
+  export interface OutputObject {
+    token: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface FactCheckReview extends BaseContract {
+  connect(runner?: ContractRunner | null): FactCheckReview;
+  waitForDeployment(): Promise<this>;
+
+  interface: FactCheckReviewInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  cancelTallyDecryption: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  castEncryptedVote: TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      encryptedChoice: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  castVote: TypedContractMethod<
+    [proposalId: BigNumberish, choice: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, bigint] & {
+        proposalId: bigint;
+        stateHash: string;
+        processed: boolean;
+        requestedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  encryptedWeightCast: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  factCheck: TypedContractMethod<[], [string], "view">;
+
+  finalize: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  getEncryptedTally: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [
+      [string, string, string] & {
+        uphold: string;
+        overturn: string;
+        escalate: string;
+      }
+    ],
+    "view"
+  >;
+
+  getVotingWeight: TypedContractMethod<
+    [voter: AddressLike, snapshotBlock: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  hasVoted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  onTallyDecrypted: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openReview: TypedContractMethod<
+    [postId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  privateBallots: TypedContractMethod<[], [boolean], "view">;
+
+  proposalCount: TypedContractMethod<[], [bigint], "view">;
+
+  proposalOfPost: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  proposals: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        bigint,
+        boolean
+      ] & {
+        postId: bigint;
+        snapshotBlock: bigint;
+        startTime: bigint;
+        endTime: bigint;
+        upholdWeight: bigint;
+        overturnWeight: bigint;
+        escalateWeight: bigint;
+        finalized: boolean;
+        outcome: bigint;
+        privateBallot: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  quorum: TypedContractMethod<[], [bigint], "view">;
+
+  requestTallyDecryption: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  retryTallyDecryption: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  setPrivateBallots: TypedContractMethod<
+    [enabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setQuorum: TypedContractMethod<
+    [newQuorum: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setTallyTimeout: TypedContractMethod<
+    [newTimeout: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setVoterWeight: TypedContractMethod<
+    [voter: AddressLike, weight: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setVotingPeriod: TypedContractMethod<
+    [newPeriod: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setVotingToken: TypedContractMethod<
+    [token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  tallyRequestId: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  tallyTimeout: TypedContractMethod<[], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unlockScore: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  voterWeight: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  votingPeriod: TypedContractMethod<[], [bigint], "view">;
+
+  votingToken: TypedContractMethod<[], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "cancelTallyDecryption"
+  ): TypedContractMethod<[proposalId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "castEncryptedVote"
+  ): TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      encryptedChoice: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "castVote"
+  ): TypedContractMethod<
+    [proposalId: BigNumberish, choice: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, bigint] & {
+        proposalId: bigint;
+        stateHash: string;
+        processed: boolean;
+        requestedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedWeightCast"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "factCheck"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "finalize"
+  ): TypedContractMethod<[proposalId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getEncryptedTally"
+  ): TypedContractMethod<
+    [proposalId: BigNumberish],
+    [
+      [string, string, string] & {
+        uphold: string;
+        overturn: string;
+        escalate: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getVotingWeight"
+  ): TypedContractMethod<
+    [voter: AddressLike, snapshotBlock: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasVoted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "onTallyDecrypted"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openReview"
+  ): TypedContractMethod<[postId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "privateBallots"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "proposalCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposalOfPost"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposals"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        bigint,
+        boolean
+      ] & {
+        postId: bigint;
+        snapshotBlock: bigint;
+        startTime: bigint;
+        endTime: bigint;
+        upholdWeight: bigint;
+        overturnWeight: bigint;
+        escalateWeight: bigint;
+        finalized: boolean;
+        outcome: bigint;
+        privateBallot: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "quorum"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestTallyDecryption"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "retryTallyDecryption"
+  ): TypedContractMethod<[proposalId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPrivateBallots"
+  ): TypedContractMethod<[enabled: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setQuorum"
+  ): TypedContractMethod<[newQuorum: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setTallyTimeout"
+  ): TypedContractMethod<[newTimeout: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setVoterWeight"
+  ): TypedContractMethod<
+    [voter: AddressLike, weight: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setVotingPeriod"
+  ): TypedContractMethod<[newPeriod: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setVotingToken"
+  ): TypedContractMethod<[token: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "tallyRequestId"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "tallyTimeout"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unlockScore"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "voterWeight"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "votingPeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "votingToken"
+  ): TypedContractMethod<[], [string], "view">;
+
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "EncryptedVoteCast"
+  ): TypedContractEvent<
+    EncryptedVoteCastEvent.InputTuple,
+    EncryptedVoteCastEvent.OutputTuple,
+    EncryptedVoteCastEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PrivateBallotsSet"
+  ): TypedContractEvent<
+    PrivateBallotsSetEvent.InputTuple,
+    PrivateBallotsSetEvent.OutputTuple,
+    PrivateBallotsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "QuorumSet"
+  ): TypedContractEvent<
+    QuorumSetEvent.InputTuple,
+    QuorumSetEvent.OutputTuple,
+    QuorumSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewFinalized"
+  ): TypedContractEvent<
+    ReviewFinalizedEvent.InputTuple,
+    ReviewFinalizedEvent.OutputTuple,
+    ReviewFinalizedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewOpened"
+  ): TypedContractEvent<
+    ReviewOpenedEvent.InputTuple,
+    ReviewOpenedEvent.OutputTuple,
+    ReviewOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoreUnlockFailed"
+  ): TypedContractEvent<
+    ScoreUnlockFailedEvent.InputTuple,
+    ScoreUnlockFailedEvent.OutputTuple,
+    ScoreUnlockFailedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoreUnlockRequested"
+  ): TypedContractEvent<
+    ScoreUnlockRequestedEvent.InputTuple,
+    ScoreUnlockRequestedEvent.OutputTuple,
+    ScoreUnlockRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TallyCancelled"
+  ): TypedContractEvent<
+    TallyCancelledEvent.InputTuple,
+    TallyCancelledEvent.OutputTuple,
+    TallyCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "TallyDecrypted"
+  ): TypedContractEvent<
+    TallyDecryptedEvent.InputTuple,
+    TallyDecryptedEvent.OutputTuple,
+    TallyDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TallyRequested"
+  ): TypedContractEvent<
+    TallyRequestedEvent.InputTuple,
+    TallyRequestedEvent.OutputTuple,
+    TallyRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TallyRetried"
+  ): TypedContractEvent<
+    TallyRetriedEvent.InputTuple,
+    TallyRetriedEvent.OutputTuple,
+    TallyRetriedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TallyTimedOut"
+  ): TypedContractEvent<
+    TallyTimedOutEvent.InputTuple,
+    TallyTimedOutEvent.OutputTuple,
+    TallyTimedOutEvent.OutputObject
+  >;
+  getEvent(
+    key: "TallyTimeoutSet"
+  ): TypedContractEvent<
+    TallyTimeoutSetEvent.InputTuple,
+    TallyTimeoutSetEvent.OutputTuple,
+    TallyTimeoutSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoteCast"
+  ): TypedContractEvent<
+    VoteCastEvent.InputTuple,
+    VoteCastEvent.OutputTuple,
+    VoteCastEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoterWeightSet"
+  ): TypedContractEvent<
+    VoterWeightSetEvent.InputTuple,
+    VoterWeightSetEvent.OutputTuple,
+    VoterWeightSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "VotingPeriodSet"
+  ): TypedContractEvent<
+    VotingPeriodSetEvent.InputTuple,
+    VotingPeriodSetEvent.OutputTuple,
+    VotingPeriodSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "VotingTokenSet"
+  ): TypedContractEvent<
+    VotingTokenSetEvent.InputTuple,
+    VotingTokenSetEvent.OutputTuple,
+    VotingTokenSetEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "EncryptedVoteCast(uint256,address,uint256)": TypedContractEvent<
+      EncryptedVoteCastEvent.InputTuple,
+      EncryptedVoteCastEvent.OutputTuple,
+      EncryptedVoteCastEvent.OutputObject
+    >;
+    EncryptedVoteCast: TypedContractEvent<
+      EncryptedVoteCastEvent.InputTuple,
+      EncryptedVoteCastEvent.OutputTuple,
+      EncryptedVoteCastEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PrivateBallotsSet(bool)": TypedContractEvent<
+      PrivateBallotsSetEvent.InputTuple,
+      PrivateBallotsSetEvent.OutputTuple,
+      PrivateBallotsSetEvent.OutputObject
+    >;
+    PrivateBallotsSet: TypedContractEvent<
+      PrivateBallotsSetEvent.InputTuple,
+      PrivateBallotsSetEvent.OutputTuple,
+      PrivateBallotsSetEvent.OutputObject
+    >;
+
+    "QuorumSet(uint256,uint256)": TypedContractEvent<
+      QuorumSetEvent.InputTuple,
+      QuorumSetEvent.OutputTuple,
+      QuorumSetEvent.OutputObject
+    >;
+    QuorumSet: TypedContractEvent<
+      QuorumSetEvent.InputTuple,
+      QuorumSetEvent.OutputTuple,
+      QuorumSetEvent.OutputObject
+    >;
+
+    "ReviewFinalized(uint256,uint256,uint8)": TypedContractEvent<
+      ReviewFinalizedEvent.InputTuple,
+      ReviewFinalizedEvent.OutputTuple,
+      ReviewFinalizedEvent.OutputObject
+    >;
+    ReviewFinalized: TypedContractEvent<
+      ReviewFinalizedEvent.InputTuple,
+      ReviewFinalizedEvent.OutputTuple,
+      ReviewFinalizedEvent.OutputObject
+    >;
+
+    "ReviewOpened(uint256,uint256,uint256)": TypedContractEvent<
+      ReviewOpenedEvent.InputTuple,
+      ReviewOpenedEvent.OutputTuple,
+      ReviewOpenedEvent.OutputObject
+    >;
+    ReviewOpened: TypedContractEvent<
+      ReviewOpenedEvent.InputTuple,
+      ReviewOpenedEvent.OutputTuple,
+      ReviewOpenedEvent.OutputObject
+    >;
+
+    "ScoreUnlockFailed(uint256,uint256,bytes)": TypedContractEvent<
+      ScoreUnlockFailedEvent.InputTuple,
+      ScoreUnlockFailedEvent.OutputTuple,
+      ScoreUnlockFailedEvent.OutputObject
+    >;
+    ScoreUnlockFailed: TypedContractEvent<
+      ScoreUnlockFailedEvent.InputTuple,
+      ScoreUnlockFailedEvent.OutputTuple,
+      ScoreUnlockFailedEvent.OutputObject
+    >;
+
+    "ScoreUnlockRequested(uint256,uint256)": TypedContractEvent<
+      ScoreUnlockRequestedEvent.InputTuple,
+      ScoreUnlockRequestedEvent.OutputTuple,
+      ScoreUnlockRequestedEvent.OutputObject
+    >;
+    ScoreUnlockRequested: TypedContractEvent<
+      ScoreUnlockRequestedEvent.InputTuple,
+      ScoreUnlockRequestedEvent.OutputTuple,
+      ScoreUnlockRequestedEvent.OutputObject
+    >;
+
+    "TallyCancelled(uint256,uint256)": TypedContractEvent<
+      TallyCancelledEvent.InputTuple,
+      TallyCancelledEvent.OutputTuple,
+      TallyCancelledEvent.OutputObject
+    >;
+    TallyCancelled: TypedContractEvent<
+      TallyCancelledEvent.InputTuple,
+      TallyCancelledEvent.OutputTuple,
+      TallyCancelledEvent.OutputObject
+    >;
+
+    "TallyDecrypted(uint256,uint128,uint128,uint128)": TypedContractEvent<
+      TallyDecryptedEvent.InputTuple,
+      TallyDecryptedEvent.OutputTuple,
+      TallyDecryptedEvent.OutputObject
+    >;
+    TallyDecrypted: TypedContractEvent<
+      TallyDecryptedEvent.InputTuple,
+      TallyDecryptedEvent.OutputTuple,
+      TallyDecryptedEvent.OutputObject
+    >;
+
+    "TallyRequested(uint256,uint256)": TypedContractEvent<
+      TallyRequestedEvent.InputTuple,
+      TallyRequestedEvent.OutputTuple,
+      TallyRequestedEvent.OutputObject
+    >;
+    TallyRequested: TypedContractEvent<
+      TallyRequestedEvent.InputTuple,
+      TallyRequestedEvent.OutputTuple,
+      TallyRequestedEvent.OutputObject
+    >;
+
+    "TallyRetried(uint256,uint256,uint256)": TypedContractEvent<
+      TallyRetriedEvent.InputTuple,
+      TallyRetriedEvent.OutputTuple,
+      TallyRetriedEvent.OutputObject
+    >;
+    TallyRetried: TypedContractEvent<
+      TallyRetriedEvent.InputTuple,
+      TallyRetriedEvent.OutputTuple,
+      TallyRetriedEvent.OutputObject
+    >;
+
+    "TallyTimedOut(uint256,uint256)": TypedContractEvent<
+      TallyTimedOutEvent.InputTuple,
+      TallyTimedOutEvent.OutputTuple,
+      TallyTimedOutEvent.OutputObject
+    >;
+    TallyTimedOut: TypedContractEvent<
+      TallyTimedOutEvent.InputTuple,
+      TallyTimedOutEvent.OutputTuple,
+      TallyTimedOutEvent.OutputObject
+    >;
+
+    "TallyTimeoutSet(uint256,uint256)": TypedContractEvent<
+      TallyTimeoutSetEvent.InputTuple,
+      TallyTimeoutSetEvent.OutputTuple,
+      TallyTimeoutSetEvent.OutputObject
+    >;
+    TallyTimeoutSet: TypedContractEvent<
+      TallyTimeoutSetEvent.InputTuple,
+      TallyTimeoutSetEvent.OutputTuple,
+      TallyTimeoutSetEvent.OutputObject
+    >;
+
+    "VoteCast(uint256,address,uint8,uint256)": TypedContractEvent<
+      VoteCastEvent.InputTuple,
+      VoteCastEvent.OutputTuple,
+      VoteCastEvent.OutputObject
+    >;
+    VoteCast: TypedContractEvent<
+      VoteCastEvent.InputTuple,
+      VoteCastEvent.OutputTuple,
+      VoteCastEvent.OutputObject
+    >;
+
+    "VoterWeightSet(address,uint256)": TypedContractEvent<
+      VoterWeightSetEvent.InputTuple,
+      VoterWeightSetEvent.OutputTuple,
+      VoterWeightSetEvent.OutputObject
+    >;
+    VoterWeightSet: TypedContractEvent<
+      VoterWeightSetEvent.InputTuple,
+      VoterWeightSetEvent.OutputTuple,
+      VoterWeightSetEvent.OutputObject
+    >;
+
+    "VotingPeriodSet(uint256,uint256)": TypedContractEvent<
+      VotingPeriodSetEvent.InputTuple,
+      VotingPeriodSetEvent.OutputTuple,
+      VotingPeriodSetEvent.OutputObject
+    >;
+    VotingPeriodSet: TypedContractEvent<
+      VotingPeriodSetEvent.InputTuple,
+      VotingPeriodSetEvent.OutputTuple,
+      VotingPeriodSetEvent.OutputObject
+    >;
+
+    "VotingTokenSet(address)": TypedContractEvent<
+      VotingTokenSetEvent.InputTuple,
+      VotingTokenSetEvent.OutputTuple,
+      VotingTokenSetEvent.OutputObject
+    >;
+    VotingTokenSet: TypedContractEvent<
+      VotingTokenSetEvent.InputTuple,
+      VotingTokenSetEvent.OutputTuple,
+      VotingTokenSetEvent.OutputObject
+    >;
+  };
+}
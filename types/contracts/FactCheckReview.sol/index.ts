@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { FactCheckReview } from "./FactCheckReview";
+export type { IVotes } from "./IVotes";
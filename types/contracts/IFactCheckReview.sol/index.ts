@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { IFactCheckRegistry } from "./IFactCheckRegistry";
+export type { IFactCheckReview } from "./IFactCheckReview";
@@ -1,4 +1,11 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as aiFactCheckFheSol from "./AI_FactCheck_Fhe.sol";
+export type { aiFactCheckFheSol };
+import type * as factCheckReviewSol from "./FactCheckReview.sol";
+export type { factCheckReviewSol };
+import type * as iFactCheckReviewSol from "./IFactCheckReview.sol";
+export type { iFactCheckReviewSol };
+import type * as mocks from "./mocks";
+export type { mocks };
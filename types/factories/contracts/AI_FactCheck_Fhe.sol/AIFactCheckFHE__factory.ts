@@ -0,0 +1,2575 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  AIFactCheckFHE,
+  AIFactCheckFHEInterface,
+} from "../../../contracts/AI_FactCheck_Fhe.sol/AIFactCheckFHE";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "initialOwner",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchClosedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CannotRevokeOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionNotPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionNotTimedOut",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyBatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidDeadline",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidEpoch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoActiveModel",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotReviewModule",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotScoreUnlocker",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PostAlreadyProcessedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PostAlreadySubmitted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "QuotaExceeded",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReviewNotNeeded",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReviewNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReviewsStillOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ScoreNotLocked",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatchError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ThresholdNotSet",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownModelVersion",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownPost",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    name: "BatchDeadlineSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "postCount",
+        type: "uint256",
+      },
+    ],
+    name: "BatchDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "misinfoScore",
+        type: "uint32",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCooldownSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "oldRequestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "newRequestId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRetried",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionTimedOut",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldTimeout",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newTimeout",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionTimeoutSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "setter",
+        type: "address",
+      },
+    ],
+    name: "FlagThresholdSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "modelVersion",
+        type: "uint256",
+      },
+    ],
+    name: "PostScored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "PostSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderLimitsCleared",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "submissionCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "decryptionCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "epochQuota",
+        type: "uint256",
+      },
+    ],
+    name: "ProviderLimitsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "epochSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "defaultQuota",
+        type: "uint256",
+      },
+    ],
+    name: "QuotaSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousModule",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newModule",
+        type: "address",
+      },
+    ],
+    name: "ReviewModuleSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum ReviewOutcome",
+        name: "outcome",
+        type: "uint8",
+      },
+    ],
+    name: "ReviewOutcomeRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "reason",
+        type: "bytes",
+      },
+    ],
+    name: "ReviewRequestFailed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "ReviewRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "oldThreshold",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "newThreshold",
+        type: "uint32",
+      },
+    ],
+    name: "ReviewThresholdSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "unlocker",
+        type: "address",
+      },
+    ],
+    name: "ScoreUnlocked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousUnlocker",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newUnlocker",
+        type: "address",
+      },
+    ],
+    name: "ScoreUnlockerSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "previousVersion",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "newVersion",
+        type: "uint256",
+      },
+    ],
+    name: "ScoringModelActivated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "uploader",
+        type: "address",
+      },
+    ],
+    name: "ScoringModelUploaded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "flagged",
+        type: "bool",
+      },
+    ],
+    name: "VerdictCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "VerdictRequested",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ANALYST_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "FEATURE_COUNT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_FEATURE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SCORE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_WEIGHT",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MODEL_MANAGER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PROVIDER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "WEIGHT_SCALE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "activateScoringModel",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "activeModelVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "batchCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "openedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "submittedCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "processedCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "flaggedCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "clearProviderLimits",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeExpiredBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptedMisinfoScore",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+      {
+        internalType: "enum AIFactCheckFHE.DecryptionKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "requestedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decryptionCooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decryptionTimeout",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultEpochQuota",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedFlags",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedMisinfoScores",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedPosts",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "contentHash",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "epochSubmissions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchPosts",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchSummary",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "submitted",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "processed",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "flagged",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "open",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "getPostFeatures",
+    outputs: [
+      {
+        internalType: "euint32[4]",
+        name: "",
+        type: "bytes32[4]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMemberCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMembers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "getScoringModel",
+    outputs: [
+      {
+        internalType: "euint32[4]",
+        name: "weights",
+        type: "bytes32[4]",
+      },
+      {
+        internalType: "euint32",
+        name: "bias",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "uploader",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "uploadedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "isScoreLocked",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "modelVersionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "nextDecryptionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "nextSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "next",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    name: "openBatchUntil",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openReviewCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "postBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "postFlagged",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "postProcessed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "postStatus",
+    outputs: [
+      {
+        internalType: "enum AIFactCheckFHE.PostStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxPosts",
+        type: "uint256",
+      },
+    ],
+    name: "processBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "processPost",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "processPostVerdict",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "providerLimits",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "overridden",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "submissionCooldown",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "decryptionCooldown",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "epochQuota",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "quotaEpoch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "quotaEpochSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum ReviewOutcome",
+        name: "outcome",
+        type: "uint8",
+      },
+    ],
+    name: "recordReviewOutcome",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "remainingQuota",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "requestReview",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "retryDecryption",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reviewModule",
+    outputs: [
+      {
+        internalType: "contract IFactCheckReview",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "reviewOutcome",
+    outputs: [
+      {
+        internalType: "enum ReviewOutcome",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "reviewProposalId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reviewThreshold",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "scoreModelVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "scoreUnlocker",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldown",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setDecryptionCooldown",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newTimeout",
+        type: "uint256",
+      },
+    ],
+    name: "setDecryptionTimeout",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedThreshold",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setFlagThreshold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "submissionCooldown",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "decryptionCooldown",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "epochQuota",
+        type: "uint256",
+      },
+    ],
+    name: "setProviderLimits",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "epochSeconds",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "defaultQuota",
+        type: "uint256",
+      },
+    ],
+    name: "setQuota",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract IFactCheckReview",
+        name: "newModule",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "asScoreUnlocker",
+        type: "bool",
+      },
+    ],
+    name: "setReviewModule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "newThreshold",
+        type: "uint32",
+      },
+    ],
+    name: "setReviewThreshold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newUnlocker",
+        type: "address",
+      },
+    ],
+    name: "setScoreUnlocker",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedContentHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32[4]",
+        name: "encryptedFeatures",
+        type: "bytes32[4]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitPost",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "unlockScore",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32[4]",
+        name: "encryptedWeights",
+        type: "bytes32[4]",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedBias",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "uploadScoringModel",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "verdictCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080346200022a57601f620061f138819003918201601f19168301916001600160401b038311848410176200022e578084926020946040528339810103126200022a57516001600160a01b038116908181036200022a575f60606200006362000242565b82815282602082015282604082015201526200007e62000242565b9160607350157cffd6bbfa2dece204a89ec419c23ef5755d9384815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319957f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090878254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190868254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908482541617905580156200021857620001dc925f5416175f55620001b58162000262565b620001c08162000373565b620001cb816200048e565b620001d68162000585565b6200067c565b603c60078190556008556201518060098190556026556021805463ffffffff60a01b1916602360a11b179055604051615a5d9081620007748239f35b6040516349e27cff60e01b8152600490fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176200022e57604052565b6001600160a01b03165f8181527fe5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc56020908152604091829020547fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c2177593929060ff166200036d57835f5260028252805f20835f528252805f20600160ff19825416179055835f5260038252805f20805490680100000000000000008210156200022e576001820180825582101562000359575f52825f20018360018060a01b0319825416179055835f5260038252805f20549160048152815f2090845f52525f205533915f80516020620061d18339815191525f80a4565b634e487b7160e01b5f52603260045260245ffd5b50505050565b6001600160a01b03165f8181527f9891859b5a14a6a70a7905aca276317bd243ea2e53ca1a06ef897cc8e837e33c6020908152604091829020547f18d9ff454de989bd126b06bd404b47ede75f9e65543e94e8d212f89d7dcbb87c929060ff166200036d57825f5260028252805f20845f528252805f20600160ff19825416179055825f5260038252805f20805490680100000000000000008210156200022e576001820180825582101562000359575f52825f20018460018060a01b0319825416179055825f5260038252805f20549160048152815f2090855f52525f20558133915f80516020620061d18339815191525f80a47fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2565b6001600160a01b03165f8181527fba2a5644e8e891cbd5fdc1c35beede599a08b0fcbd364919c8815dcf8bb0a9b66020908152604091829020547f708c6b3a1a43063fcff2ed11fff0d3410f7a7ac561e651ec7a63ecde338f767293929060ff166200036d57835f5260028252805f20835f528252805f20600160ff19825416179055835f5260038252805f20805490680100000000000000008210156200022e576001820180825582101562000359575f52825f20018360018060a01b0319825416179055835f5260038252805f20549160048152815f2090845f52525f205533915f80516020620061d18339815191525f80a4565b6001600160a01b03165f8181527fa0044d923999d5f662e2aa89044314cb729bda1ca451213510abdc39f1aade086020908152604091829020547ffd89548931d07b12256eb822646a83340813c16b5b101dfdd81f31688463cabf93929060ff166200036d57835f5260028252805f20835f528252805f20600160ff19825416179055835f5260038252805f20805490680100000000000000008210156200022e576001820180825582101562000359575f52825f20018360018060a01b0319825416179055835f5260038252805f20549160048152815f2090845f52525f205533915f80516020620061d18339815191525f80a4565b6001600160a01b03165f8181527faa2c41c8db999cab41dbf71397ccd99cf3349690c12e02929b93abbcc53e5b936020908152604091829020547f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a93929060ff166200036d57835f5260028252805f20835f528252805f20600160ff19825416179055835f5260038252805f20805490680100000000000000008210156200022e576001820180825582101562000359575f52825f20018360018060a01b0319825416179055835f5260038252805f20549160048152815f2090845f52525f205533915f80516020620061d18339815191525f80a456fe60806040526004361015610011575f80fd5b5f3560e01c8062cbf3dd146105d9578063016173cb146105d457806301bf25d4146105cf57806301df027f146105ca57806304c7a7cd146105c55780630a763da1146105c05780630c299abf146105bb578063124bd04b146105b657806314e1213d146105b157806317005e3d146105ac5780631da21be5146105a75780631f96c1a8146105a257806324c20a341461059d57806327ff6223146104f35780632c2abfd3146105985780632f2ff15d14610593578063333fedad146104f357806336d593301461058e578063372c62581461058957806338e98a29146105845780633ec618931461057f5780633f4ba83a1461057a57806346e2577a1461057557806348aea459146105705780634c8987011461056b5780634fc3f41a1461056657806353493b70146105615780635694d7d11461055c57806357825849146105575780635a94a079146105525780635b80349b1461054d5780635c975abb146105485780636b074a07146105435780636f03a45e1461053e5780637416ab6f14610539578063754130351461053457806375b238fc1461052f57806379ba50971461052a57806381943b32146105255780638456cb5914610520578063892f2d321461051b5780638a355a57146105165780638da5cb5b146105115780638de032a11461050c57806391d14854146105075780639737dd5d146105025780639ab5d4d5146104fd5780639c0e71ed146104f85780639cde95a1146104f3578063a3246ad3146104ee578063a4365476146104e9578063a479dcb5146104e4578063a539a0c5146104df578063a77cef1e146104da578063acab6b0e146104d5578063acd75103146104d0578063ad7db841146104cb578063ad852520146104c6578063b1712332146104c1578063b32c4d8d146104bc578063b65e8941146104b7578063b8221bc4146104b2578063b962f196146104ad578063bb536df0146104a8578063bbbb0a8f146104a3578063bde0d5fa1461049e578063c6507aaa14610499578063c74a497014610494578063c7e8db761461048f578063ca15c8731461048a578063d02edadb14610485578063d50370e214610480578063d547741f1461047b578063d753dfcc14610476578063d75a4d4e14610471578063d872e4131461046c578063da1f12ab14610467578063e1e4ee4e14610462578063e2e640621461045d578063e30c397814610458578063e412a9f314610453578063e4a28a521461044e578063e63ab1e914610449578063e65ba76514610444578063e863a5f81461043f578063ec0030f51461043a578063f243223814610435578063f2fde38b14610430578063f741d4ec1461042b578063f937f83214610426578063fc64f64614610421578063fdd42d0f1461041c5763ff46921d14610417575f80fd5b6132f8565b6132bf565b6132a2565b61320a565b6130d0565b61304a565b61300f565b612d5b565b612d33565b612d09565b612ccf565b612cb3565b612c09565b612be1565b612a68565b612a2e565b612a12565b6129e3565b612924565b6128fa565b61286b565b612843565b612826565b6127fc565b6127a9565b61278c565b612718565b6125f4565b6125cd565b612597565b6124ef565b6124d2565b612462565b61240c565b6121c0565b612097565b611f90565b611f6e565b611f38565b611e5b565b611cab565b611b96565b611b51565b611ad4565b610d73565b611a55565b611a27565b6119fd565b6119b7565b6118d6565b6118af565b611857565b61183c565b611792565b6116a8565b61161e565b6115f7565b611582565b6114de565b611455565b6113f8565b6113d6565b6113b9565b61137e565b611358565b61132e565b6112fe565b611275565b6111d5565b611149565b6110c5565b611027565b610ffd565b610f72565b610eb4565b610e85565b610e2a565b610e00565b610d4c565b610cdb565b610cbe565b610c5c565b610c2e565b610afd565b610974565b610957565b6108ef565b6108d2565b610744565b610655565b610605565b5f915b600483106105ee57505050565b6001908251815260208091019201920191906105e1565b34610651576020366003190112610651576080604051610624816109af565b3690376004355f5260146020526080610642600160405f20016133ff565b61064f60405180926105de565bf35b5f80fd5b3461065157602036600319011261065157335f9081525f805160206159d18339815191526020526040902054600435905f80516020615a318339815191529060ff16156106df57600880549083905560408051918252602082018490527f6c5874c71a6f7e650ee93f962e8786d4f32653cee78e8702a9851ebeb123d4e49190819081015b0390a1005b604490604051906301d4003760e61b82526004820152336024820152fd5b9060049160841161065157565b9060249160a41161065157565b9181601f84011215610651578235916001600160401b038311610651576020838186019501011161065157565b346106515760c03660031901126106515761075e366106fd565b60a4356001600160401b0381116106515761077f6004913690600401610717565b335f9081527fa0044d923999d5f662e2aa89044314cb729bda1ca451213510abdc39f1aade0860205260409020549193915f805160206159518339815191529060ff16156106df57506107d3601a54613445565b926107dd84601a55565b6107ef845f52601960205260405f2090565b925f5b8281106108805750505061081961081161087c9561081e933691610a63565b60843561397f565b613a70565b61082781613b7a565b5060048201556005810180546001600160a01b0319163317905560064291015560405191829133817f88d801333836f43e419007c0e6b3d78be5dd0806df44a3ae2bb24667811ffce55f80a382526020820190565b0390f35b806108c26108a861081961089660019587613467565b356108a2368a8e610a63565b9061397f565b6108b181613b7a565b506108bc838961347d565b9061348c565b016107f2565b5f91031261065157565b34610651575f366003190112610651576020602654604051908152f35b34610651575f36600319011261065157335f9081525f805160206159d183398151915260205260409020545f80516020615a318339815191529060ff16156106df5760ff600e541661094557610943613b84565b005b604051633b3b4caf60e21b8152600490fd5b34610651575f366003190112610651576020600f54604051908152f35b34610651575f3660031901126106515760206040515f805160206159518339815191528152f35b634e487b7160e01b5f52604160045260245ffd5b608081019081106001600160401b038211176109ca57604052565b61099b565b6001600160401b0381116109ca57604052565b604081019081106001600160401b038211176109ca57604052565b60c081019081106001600160401b038211176109ca57604052565b90601f801991011681019081106001600160401b038211176109ca57604052565b60405190610a46826109e2565b565b6001600160401b0381116109ca57601f01601f191660200190565b929192610a6f82610a48565b91610a7d6040519384610a18565b829481845281830111610651578281602093845f960137010152565b9080601f8301121561065157816020610ab493359101610a63565b90565b606060031982011261065157600435916001600160401b036024358181116106515783610ae691600401610a99565b9260443591821161065157610ab491600401610a99565b3461065157610b0b36610ab7565b9091610b1f815f52602560205260405f2090565b6003810192835460ff8116610c1c5760081c60ff16610b3d81611f1b565b8015159081610c07575b50610bf557610b5e610b598385613d19565b613e27565b600283015403610bf557610b73908584613e5e565b6020845103610bb057610ba3610b9585602080610943985183010191016134a9565b845460ff1916600117909455565b6001815491015491613f42565b60405162461bcd60e51b815260206004820152601860248201527f496e76616c696420636c65617274657874206c656e67746800000000000000006044820152606490fd5b6040516301c081db60e11b8152600490fd5b60039150610c1481611f1b565b14155f610b47565b604051632b5119b160e01b8152600490fd5b34610651575f366003190112610651576020600a54604051908152f35b6001600160a01b0381160361065157565b3461065157602036600319011261065157600435610c7981610c4b565b60018060a01b03165f52600d602052608060405f2060ff8154169060018101549060036002820154910154916040519315158452602084015260408301526060820152f35b34610651575f366003190112610651576020600954604051908152f35b34610651575f36600319011261065157335f9081525f805160206159d183398151915260205260409020545f80516020615a318339815191529060ff16156106df5760ff600e54166109455760ff6010541615610d3a57610943613fc4565b6040516309fc654f60e31b8152600490fd5b34610651575f3660031901126106515760206040515f80516020615a118339815191528152f35b34610651575f36600319011261065157602060405160648152f35b5f80516020615a118339815191525f5260046020527f90402faa90476f12d34fe0c2aabcef9888e48d30635bd24598681c64b216cdda90565b5f80516020615a318339815191525f5260046020527f49b573c16d0a3fe96af74a58679870c9f48517274761ed80ca9ceccb8126cb7390565b34610651576020366003190112610651576004355f526013602052602060405f2054604051908152f35b3461065157604036600319011261065157602435610e4781610c4b565b335f9081525f805160206159d183398151915260205260409020545f80516020615a318339815191529060ff16156106df5761094382600435614204565b34610651576020366003190112610651576004355f526016602052602060ff60405f2054166040519015158152f35b3461065157602036600319011261065157601e54600435906001600160a01b03163303610f605760ff600e541661094557805f52601860205260ff60405f2054166005811015610f5b57600403610f4957610f21610f1a825f52601560205260405f2090565b54826142fe565b33907fda9c09beb1bfafc075aba7fcf9a4c4415515104cc55ba1bc8cfcc926ea55296c5f80a3005b604051630171d11160e61b8152600490fd5b611f07565b60405163a640d8e960e01b8152600490fd5b3461065157602036600319011261065157600435805f52601160205260405f2090600f541480610ff1575b80610fe2575b6002820154600383015460048401546001909401546040805193845260208401929092529082019390935260608101929092521515608082015260a090f35b50610feb614430565b15610fa3565b5060ff60105416610f9d565b34610651576020366003190112610651576004355f526022602052602060405f2054604051908152f35b34610651575f36600319011261065157335f9081527faa2c41c8db999cab41dbf71397ccd99cf3349690c12e02929b93abbcc53e5b9360205260409020547f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a9060ff16156106df5760ff19600e5416600e557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa6020604051338152a1005b34610651576020366003190112610651576004356110e281610c4b565b335f9081525f805160206159d183398151915260205260409020545f80516020615a318339815191529060ff16156106df576109438261403e565b9094939260c0926111328360e08101986105de565b60808301526001600160a01b031660a08201520152565b3461065157602036600319011261065157600435608060405161116b816109af565b369037801580156111ca575b6111b8575f52601960205260405f2060048101549061087c60018060a01b03600583015416916111ab6006820154916133ff565b926040519485948561111d565b6040516371f6ba0760e01b8152600490fd5b50601a548111611177565b3461065157602036600319011261065157335f9081527fa0044d923999d5f662e2aa89044314cb729bda1ca451213510abdc39f1aade086020526040902054600435905f805160206159518339815191529060ff16156106df57508015801561126a575b6111b857601b5481601b557f9bff6f0de192ce27ddedbff276e05965fb0a7c75bdc157b70737e1e129e113ec5f80a3005b50601a548111611239565b3461065157602036600319011261065157335f9081525f805160206159d18339815191526020526040902054600435905f80516020615a318339815191529060ff16156106df57600780549083905560408051918252602082018490527f6f05c070768300be3a8ec47b18efd326d94912ec5cf3f8bd7488e1c66d61e8bf9190819081016106da565b34610651576020366003190112610651576004355f526017602052602063ffffffff60405f205416604051908152f35b34610651576020366003190112610651576004355f526015602052602060405f2054604051908152f35b34610651575f36600319011261065157602063ffffffff60215460a01c16604051908152f35b346106515760203660031901126106515760043561139b81610c4b565b60018060a01b03165f526006602052602060405f2054604051908152f35b34610651575f366003190112610651576020600854604051908152f35b34610651575f36600319011261065157602060ff600e54166040519015158152f35b3461065157602036600319011261065157602060ff61144960043561141c81610c4b565b5f80516020615a118339815191525f526002845260405f209060018060a01b03165f5260205260405f2090565b54166040519015158152f35b3461065157602036600319011261065157335f9081525f805160206159d18339815191526020526040902054600435905f80516020615a318339815191529060ff16156106df57602680549083905560408051918252602082018490527f04cdc2c79ba8336dbadafd0c38ea00e3f9e189f3c24dfba5d7cfdf4fc75f41a09190819081016106da565b34610651576020366003190112610651576004356114fb81610c4b565b6001600160a01b0381165f908152600560205260409020549061151d81614457565b820180921161157d57611530829161385b565b15611541575b604051908152602090f35b6009549161154f83426134d9565b6001810180911161157d5761087c936115679161350d565b908111611575575b50611536565b90505f61156f565b613431565b3461065157602036600319011261065157335f9081525f805160206159d18339815191526020526040902054600435905f80516020615a318339815191529060ff16156106df575060ff600e541661094557428111156115e55761094390613c27565b604051631da7447960e21b8152600490fd5b34610651575f3660031901126106515760206040515f80516020615a318339815191528152f35b34610651575f366003190112610651576001546001600160a01b038082163303611696575f80546001600160a01b03198082163317909255921660015516611665816144c5565b61166e3361413f565b33907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b604051630614e5c760e21b8152600490fd5b3461065157602036600319011261065157335f9081527fba2a5644e8e891cbd5fdc1c35beede599a08b0fcbd364919c8815dcf8bb0a9b660205260409081902054600435905f805160206159918339815191529060ff1615611775575060ff600e541661176457335f526006602052815f205461172433614853565b810180911161157d5742106117535761094391335f52600660205242905f205561174d81614881565b906143be565b815163aa9a98df60e01b8152600490fd5b8151633b3b4caf60e21b8152600490fd5b6044908351906301d4003760e61b82526004820152336024820152fd5b34610651575f36600319011261065157335f9081527faa2c41c8db999cab41dbf71397ccd99cf3349690c12e02929b93abbcc53e5b9360205260409020547f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a9060ff16156106df57600e5460ff81166109455760019060ff191617600e557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586020604051338152a1005b34610651575f36600319011261065157602060405160048152f35b346106515760203660031901126106515760043561187481610c4b565b335f9081525f805160206159d183398151915260205260409020545f80516020615a318339815191529060ff16156106df57610943826145e7565b34610651575f366003190112610651575f546040516001600160a01b039091168152602090f35b34610651576118e436610ab7565b91906118f8825f52602560205260405f2090565b9160038301805460ff8116610c1c5760ff60029160081c1661191981611f1b565b03610bf557611930825f52602760205260405f2090565b9461193e610b598685613d19565b600286015403610bf557611953908484613e5e565b825161195f86546134f7565b03610bb057805460ff191660011790555f5b845481101561094357806119b1600180930160051b85015186549063ffffffff6119a861199e868c613520565b90549060031b1c90565b91169186613f42565b01611971565b3461065157604036600319011261065157602060ff6114496024356119db81610c4b565b6004355f526002845260405f209060018060a01b03165f5260205260405f2090565b34610651576020366003190112610651576004355f52601c602052602060405f2054604051908152f35b34610651576020366003190112610651576004355f5260208052602060ff60405f2054166040519015158152f35b3461065157602036600319011261065157600435611a7281610c4b565b60018060a01b03165f52600c602052602060405f2054604051908152f35b60209060206040818301928281528551809452019301915f5b828110611ab7575050505090565b83516001600160a01b031685529381019392810192600101611aa9565b3461065157602080600319360112610651576004355f52600360205260405f20906040519081602084549182815201935f5260205f20915f905b828210611b315761087c85611b2581890382610a18565b60405191829182611a90565b83546001600160a01b031686529485019460019384019390910190611b0e565b3461065157602036600319011261065157600435611b6e81610c4b565b60018060a01b03165f526005602052602060405f2054604051908152f35b8015150361065157565b3461065157604036600319011261065157600435611bb381610c4b565b602435611bbf81611b8c565b335f9081525f805160206159d183398151915260205260409020545f80516020615a318339815191529060ff16156106df5750602454611c9957602180546001600160a01b038481166001600160a01b0319831617909255811692909190821680937fe79facca1b188fa0711598ebdddf4455cc9b42350dbb2113167dc2518aab70185f80a3611c4b57005b601e546001600160a01b0316601e80546001600160a01b0319166001600160a01b038516179055167fae8b9a249fcf3db70990db9fb1daa487e3c5ab1e5f837e40423556886a9ab7455f80a3005b6040516373f9bb0160e11b8152600490fd5b346106515760c0366003190112610651576004611cc73661070a565b60a4356001600160401b03811161065157611ce59036908401610717565b335f9081525f8051602061593183398151915260205260409020549092905f80516020615a118339815191529060ff1615611e30575060ff600e5416611e1f57335f90815260056020526040902054611d484291611d4233614457565b906134cc565b11611e0e57335f908152600560205260409020429055611d6a600954426134d9565b335f908152600b6020526040902081905403611dea575b50611d8b336149d2565b8015159081611dd0575b50611dbf57335f908152600c602052604090206109439490611db78154613445565b90553561359d565b6040516304e2210160e01b81528490fd5b335f908152600c602052604090209091505410155f611d95565b335f908152600b6020526040902055335f908152600c60205260408120555f611d81565b60405163aa9a98df60e01b81528490fd5b604051633b3b4caf60e21b81528490fd5b84604491604051916301d4003760e61b8352820152336024820152fd5b63ffffffff81160361065157565b3461065157602036600319011261065157600435611e7881611e4d565b335f9081525f805160206159d183398151915260205260409020545f80516020615a318339815191529060ff16156106df577f51a9a99e96a2fccdeb9f55830dfe45e678fd931eeb3797faf54d27b311f2e1db6040836021549063ffffffff9063ffffffff60a01b8160a01b1663ffffffff60a01b198416176021558184519360a01c168352166020820152a1005b634e487b7160e01b5f52602160045260245ffd5b60041115610f5b57565b91906020830192611f3582611f1b565b52565b34610651576020366003190112610651576004355f526023602052602060ff60405f20541660405190611f6a81611f1b565b8152f35b34610651575f36600319011261065157602060ff601054166040519015158152f35b3461065157611f9e36610ab7565b90611fb1835f52602560205260405f2090565b906003820192835460ff8116610c1c5760ff60019160081c16611fd381611f1b565b03610bf557611fe5610b598487613d19565b600284015403610bf557611ffa908286613e5e565b6020815103610bb0576120198160208061202794518301019101613790565b835460ff1916600117909355565b600181019061204f61204283545f52601860205260405f2090565b805460ff19166004179055565b5490546040805182815284151560208201529194917f2572b3db1d8ed358d0b9438e5c8492cb12b4f383693ed06455f223dcc21a70639190a361208e57005b61094390614a25565b34610651576080366003190112610651576004356120b481610c4b565b335f9081525f805160206159d1833981519152602052604090819020549091906044359060243590606435905f80516020615a318339815191529060ff16156121a3575061219e90857f1d9e8fe2323a5c2fa050365b294ed4e1a26bcce48e062cea8aac18921750589d95965161212a816109af565b6001815260036020820198868a52838301888152606084019186835260018060a01b03169a8b5f52600d602052612173865f2095511515869060ff801983541691151516179055565b5160018501555160028401555191015551938493846040919493926060820195825260208201520152565b0390a2005b6044908651906301d4003760e61b82526004820152336024820152fd5b3461065157602080600319360112610651575f805160206159918339815191525f818152600283526040808220338352602052908190205460048035949390929160ff16156123f1575060ff600e54166123e457335f5260068352805f205461222833614853565b810180911161157d5742106123d757335f526006835242815f2055601d54156123ca576122ca91839161225a86614881565b601d549281156123ba575b83156123a7575b5f80516020615911833981519152545f919061229e90612292906001600160a01b031681565b6001600160a01b031690565b935196879586948593631391547f60e01b855284016040905f9294936060820195825260208201520152565b03925af19182156123a2575f92612375575b50506122e781613b7a565b50806122fb835f52601f60205260405f2090565b556123046137bc565b9061230e82613808565b5261232d612324835f52601360205260405f2090565b54918383614af1565b61234f612342845f52601860205260405f2090565b805460ff19166002179055565b7fa4e995c46dc15e77d8d1e27085f3f658457a59e8403a0611f48bdc6a38d86a175f80a4005b6123949250803d1061239b575b61238c8183610a18565b8101906138c6565b5f806122dc565b503d612382565b6138d5565b92505f6123b26154ac565b93905061226c565b90506123c46154ac565b90612265565b516306968de960e31b8152fd5b5163aa9a98df60e01b8152fd5b51633b3b4caf60e21b8152fd5b90516301d4003760e61b815291820152336024820152604490fd5b34610651576020366003190112610651576004355f52601160205260a060405f20805490600181015490600281015460046003830154920154926040519485526020850152604084015260608301526080820152f35b34610651576020366003190112610651576004355f52602560205260c060405f2080549060018101549060ff60028201546003830154906004838360081c16940154946040519687526020870152604086015216151560608401526124c681611f1b565b608083015260a0820152f35b34610651575f366003190112610651576020600754604051908152f35b346106515760203660031901126106515760043561250c81610c4b565b335f9081525f805160206159d183398151915260205260409020545f80516020615a318339815191529060ff16156106df575060018060a01b0316805f52600d6020525f60036040822082815582600182015582600282015501557fb1bd3627a39c5cd2a22c02a9cab131fda3785d4fa360cde1d3467262ca9938585f80a2005b60051115610f5b57565b34610651576020366003190112610651576004355f52601860205260ff60405f2054166040516005821015610f5b576020918152f35b34610651575f3660031901126106515760206040515f805160206159918339815191528152f35b34610651576040806003193601126106515760043590602435906004821015610651576021546001600160a01b031633036126cd57825f526022602052805f20541580156126af575b61269f578161219e916126827f479beeeddd2ef4a0280477d7edb8750845207bf611134d53fc481499ef32a3ca9461267d875f52602360205260405f2090565b613829565b612695612690602454613841565b602455565b5191829182611f25565b51630457efb960e01b8152600490fd5b5060236020525f8190205460ff166126c681611f1b565b151561263d565b5163f53a398160e01b8152600490fd5b60209060206040818301928281528551809452019301915f5b828110612704575050505090565b8351855293810193928101926001016126f6565b3461065157602080600319360112610651576004355f52601260205260405f20906040519081602084549182815201935f5260205f20915f905b8282106127755761087c8561276981890382610a18565b604051918291826126dd565b835486529485019460019384019390910190612752565b34610651575f366003190112610651576020602454604051908152f35b34610651576020366003190112610651576004356127c681610c4b565b6001600160a01b0381165f90815260066020526040902054906127e890614853565b810180911161157d57602090604051908152f35b34610651576020366003190112610651576004355f526003602052602060405f2054604051908152f35b34610651575f366003190112610651576020601b54604051908152f35b34610651575f366003190112610651576021546040516001600160a01b039091168152602090f35b346106515760403660031901126106515760043560243561288b81610c4b565b335f9081525f805160206159d183398151915260205260409020545f80516020615a318339815191529060ff16156106df578214806128e4575b6128d2576109439161471f565b6040516308f0d4c560e01b8152600490fd5b505f546001600160a01b038281169116146128c5565b34610651576020366003190112610651576004355f52601f602052602060405f2054604051908152f35b34610651576040366003190112610651576024356001600160401b03811161065157612954903690600401610717565b335f9081527fa0044d923999d5f662e2aa89044314cb729bda1ca451213510abdc39f1aade0860205260409020545f805160206159518339815191529060ff16156106df576129af6129a7368486610a63565b60043561397f565b6129b930826150c6565b601d55337f2ed02c5e128e49f2b96276c5e71fdf5ea311f2e37fa63fe0d7f4a016a1ea43005f80a2005b34610651576020366003190112610651576020612a0a600435612a0581610c4b565b61385b565b604051908152f35b34610651575f3660031901126106515760206040516127118152f35b34610651576020366003190112610651576004355f52601860205260ff60405f2054166005811015610f5b57602090600460405191148152f35b3461065157602036600319011261065157335f9081525f805160206159d18339815191526020526040902054600435905f80516020615a318339815191529060ff16156106df5750612ad2612ace612ac7835f526020805260405f2090565b5460ff1690565b1590565b8015612bc2575b8015612ba7575b612b9557602154612af9906001600160a01b0316612292565b60405163125e4bbf60e31b8152600481018390529190602090839060249082905f905af19182156123a2575f92612b74575b5081612b3f825f52602260205260405f2090565b55612b4e612690602454613445565b7f54e35c50744b500358713f6ff3621a17a7947157d97b604d4ed5ac048b06bf785f80a3005b612b8e91925060203d60201161239b5761238c8183610a18565b905f612b2b565b604051630c5a0e1f60e01b8152600490fd5b50612bba815f52602260205260405f2090565b541515612ae0565b506021546001600160a01b0390612bda908216612292565b1615612ad9565b34610651575f366003190112610651576001546040516001600160a01b039091168152602090f35b3461065157604036600319011261065157335f9081525f805160206159d1833981519152602052604090205460043590602435905f80516020615a318339815191529060ff16156106df57508115612ca157817fe4a6fa3208b70ce2b4152c89124bce28c19a2241deea19d832fc19a9be8fdde29260095581600a556106da6040519283928360209093929193604081019481520152565b60405163d5b25b6360e01b8152600490fd5b34610651575f3660031901126106515760206040516127108152f35b34610651575f3660031901126106515760206040517f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a8152f35b34610651576020366003190112610651576004355f526014602052602060405f2054604051908152f35b34610651575f36600319011261065157601e546040516001600160a01b039091168152602090f35b3461065157604080600319360112610651575f805160206159918339815191525f8181526002602090815283822033835290526040902054600480359360243593909260ff1615612ff5575060ff600e5416612fe757335f526006602052815f2054612dc633614853565b810180911161157d574210612fd957335f52600660205242825f205583158015612fce575b612fa357600f54841480612fc2575b80612fb1575b612fa357612e16845f52601260205260405f2090565b908154938481105f14612f9957612e2c906137d6565b925f915f5b86811080612f8f575b15612ea457806001612e66612ac7612e5861199e612e79968b613520565b5f52601860205260405f2090565b612e6f8161258d565b14612e7e57613445565b612e31565b612e8b61199e8288613520565b612e9e612e9787613445565b9689613815565b52613445565b50869493508215612f815750612eb9826137d6565b5f5b838110612f3b5750612ecd9085614c56565b92612ee0845f52602760205260405f2090565b5f5b848110612f1e5750509051918252507f739555d013e1c7df15277aa537d3abc9e3e69b57ca0e2613867e3d77a95eb8059080602081015b0390a3005b80612f35612f2e60019386613815565b5184613565565b01612ee2565b80612f51612f4b60019388613815565b51614881565b612f5b8285613815565b52612f7b612342612f6c8389613815565b515f52601860205260405f2090565b01612ebb565b905163c2e5347d60e01b8152fd5b5085518410612e3a565b50612e2c846137d6565b90516309fc654f60e31b8152fd5b50612fbd612ace614430565b612e00565b5060105460ff16612dfa565b50600f548411612deb565b905163aa9a98df60e01b8152fd5b9051633b3b4caf60e21b8152fd5b60449251916301d4003760e61b8352820152336024820152fd5b346106515760203660031901126106515760043561302c81610c4b565b60018060a01b03165f52600b602052602060405f2054604051908152f35b346106515760203660031901126106515760043561306781610c4b565b5f546001600160a01b0390811691338390036130be571690816bffffffffffffffffffffffff60a01b60015416176001557f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227005f80a3005b6040516330cd747160e01b8152600490fd5b3461065157602036600319011261065157335f9081525f805160206159318339815191526020526040902054600435905f80516020615a118339815191529060ff16156106df575060ff600e54166109455761312b81614f49565b9061313e600383015460ff9060081c1690565b61314781611f1b565b600381036131a3575061316961204260018401545f52601860205260405f2090565b81546001909201546040519081527f427760ceb3dc973541d20c97ce3e74671a41fc075d83b928faceb2c478ac6d80908060208101612f19565b806131af600292611f1b565b036131f8576131c6815f52602760205260405f2090565b915f5b83548110156131f057806131ea6131e561199e60019488613520565b615001565b016131c9565b509150613169565b6132056001830154615001565b613169565b346106515760203660031901126106515760043561322781610c4b565b335f9081525f805160206159d183398151915260205260409020545f80516020615a318339815191529060ff16156106df5750601e80546001600160a01b039283166001600160a01b0319821681179092559091167fae8b9a249fcf3db70990db9fb1daa487e3c5ab1e5f837e40423556886a9ab7455f80a3005b34610651575f366003190112610651576020601a54604051908152f35b34610651575f3660031901126106515760ff601054161580156132e9575b610d3a57610943613fc4565b506132f2614430565b156132dd565b3461065157602036600319011261065157335f9081525f8051602061593183398151915260205260409081902054600435905f80516020615a118339815191529060ff1615611775575060ff600e54166117645761087c60ff9261335b83614f49565b90600261338561336b8487613d19565b600385019485549089600182549201549260081c16614da8565b9586935460081c1661339681611f1b565b146133cd575b519384937f24f9d0bd8913d7df60f0bc6fc7a8756bfa1c687d3d5dbd282f83a4bd26a818da5f80a382526020820190565b835f5260276020526133e6815f20835f52825f206138e0565b61339c565b604051906133f8826109af565b6080368337565b60405191905f835b6004821061341b57505050610a46826109af565b6001602081928554815201930191019091613407565b634e487b7160e01b5f52601160045260245ffd5b5f19811461157d5760010190565b634e487b7160e01b5f52603260045260245ffd5b9060048110156134785760051b0190565b613453565b60048210156134785701905f90565b916134a59183549060031b91821b915f19901b19161790565b9055565b908160209103126106515751610ab481611e4d565b906001820180921161157d57565b9190820180921161157d57565b81156134e3570490565b634e487b7160e01b5f52601260045260245ffd5b908160051b918083046020149015171561157d57565b8181029291811591840414171561157d57565b8054821015613478575f5260205f2001905f90565b81518155602080920151905f5b600481106135505750505050565b60019084845194019382828501015501613542565b805490600160401b8210156109ca57816135879160016134a594018155613520565b819391549060031b91821b915f19901b19161790565b6135ac612ace60105460ff1690565b8015613782575b6137705783836135c292614a00565b926135cb6133eb565b925f5b600481106137475750505050600f5460405161362581613617866020830195338791605493916bffffffffffffffffffffffff199060601b168352601483015260348201520190565b03601f198101835282610a18565b5190209161363e612ac7845f52601860205260405f2090565b6136478161258d565b6137355761367691613657610a39565b9182526020820152613671835f52601460205260405f2090565b613535565b61369561368b825f52601660205260405f2090565b805460ff19169055565b6136b76136aa825f52601860205260405f2090565b805460ff19166001179055565b6136e8816136e3600f54806136d4845f52601360205260405f2090565b555f52601260205260405f2090565b613565565b60026136fe600f545f52601160205260405f2090565b016137098154613445565b9055600f54337fdb4ffcb0a5b3150572d92ab053126542371be1e0009526eb0d4d754d943b611c5f80a4565b604051634377894960e11b8152600490fd5b8061375f848461375960019589613467565b35614a00565b6137698288613467565b52016135ce565b60405163366a630760e21b8152600490fd5b5061378b614430565b6135b3565b908160209103126106515751610ab481611b8c565b6001600160401b0381116109ca5760051b60200190565b604051906137c9826109e2565b6001825260203681840137565b906137e0826137a5565b6137ed6040519182610a18565b82815280926137fe601f19916137a5565b0190602036910137565b8051156134785760200190565b80518210156134785760209160051b010190565b9061383381611f1b565b60ff80198354169116179055565b801561157d575f190190565b5f1981019190821161157d57565b613864816149d2565b9081156138bf576001600160a01b03165f818152600b602052604090205460095461388f90426134d9565b036138bb575f908152600c60205260409020548181106138af5750505f90565b810390811161157d5790565b5090565b50505f1990565b90816020910312610651575190565b6040513d5f823e3d90fd5b81811461397b578154916001600160401b0383116109ca57600160401b83116109ca578154838355808410613955575b5061392161392b915f5260205f2090565b915f5260205f2090565b8154915f925b84841061393f575050505050565b6001809192019384549281850155019290613931565b825f528360205f2091820191015b8181106139705750613910565b5f8155600101613963565b5050565b5f80516020615911833981519152546139cb9260209290916139ab90612292906001600160a01b031681565b905f60405180968195829463196d0b9b60e01b8452339060048501615095565b03925af19081156123a2575f91613a51575b505f805160206159b183398151915254613a0190612292906001600160a01b031681565b803b1561065157604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156123a257613a3e575090565b80613a4b610ab4926109cf565b806108c8565b613a6a915060203d60201161239b5761238c8183610a18565b5f6139dd565b8015613aee575b5f80516020615911833981519152546040516304559f7160e01b815260048101929092526127106024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156123a2575f91613ad5575090565b610ab4915060203d60201161239b5761238c8183610a18565b505f6020613afa6154ac565b915050613a77565b8015613b66575b5f80516020615911833981519152546040516304559f7160e01b81526004810192909252606460248301819052600160f81b604484015260209183919082905f906001600160a01b03165af19081156123a2575f91613ad5575090565b505f6020613b726154ac565b915050613b09565b610ab430826150c6565b60ff60105416613c0d575b613b9a600f54613445565b600f55613baf600160ff196010541617601055565b42613bc4600f545f52601160205260405f2090565b555f6001613bdc600f545f52601160205260405f2090565b01557fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee26020600f54604051908152a1565b613c15614430565b15610d3a57613c22613fc4565b613b8f565b60105460ff16613cfd575b613c45613c40600f54613445565b600f55565b613c57600160ff196010541617601055565b42613c6c600f545f52601160205260405f2090565b55806001613c84600f545f52601160205260405f2090565b0155600f54907fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee260405180613cbe85829190602083019252565b0390a180613cca575050565b6040519081527f47071aec64cb902f1e7a360eac200d53300d993142815e38796cb52aee6a0f7f9080602081015b0390a2565b613d08612ace614430565b610d3a57613d14613fc4565b613c32565b600382015491929160081c60ff1692613d3184611f1b565b60028403613d9c5750613d4e9192505f52602760205260405f2090565b908154613d5a816137d6565b925f5b828110613d6957505050565b80613d8a613d7c61199e60019486613520565b5f52601560205260405f2090565b54613d958288613815565b5201613d5d565b90506001613da86137bc565b93613db281611f1b565b03613dd8576001613dcd9101545f52601f60205260405f2090565b545b611f3583613808565b6001613dee9101545f52601560205260405f2090565b54613dcf565b9081518082526020808093019301915f5b828110613e13575050505090565b835185529381019392810192600101613e05565b604051613e5881613e446020820194604086526060830190613df4565b30604083015203601f198101835282610a18565b51902090565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020908060205260405f205415613f3057845f5260205260405f206040519182602083549182815201925f5260205f20915f905b828210613f1957505050509181613ed8613edd9593612ace950382610a18565b615182565b613f07577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b835485529384019360019384019390910190613eb8565b60405163d66ca67560e01b8152600490fd5b919290835f52601760205260405f209263ffffffff809316938463ffffffff19825416179055601860205260405f20600360ff198254161790557f57a9628119f454563759f11f2444202ba383f8e79f12903921a55efaecb8ed6060408051878152866020820152a360215460a01c161115613fbb5750565b610a4690614a25565b60ff19601054166010557f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085876020600f54604051908152a1565b90815491600160401b8310156109ca5782614020916001610a4695018155613520565b90919060018060a01b038084549260031b9316831b921b1916179055565b6001600160a01b0381165f9081525f8051602061593183398151915260205260409020545f80516020615a11833981519152919060ff1661397b575f8281526002602090815260408083206001600160a01b038516845290915290206140a3906136aa565b815f5260036020526140b88160405f20613ffd565b815f52600360205260405f20546140e6826140d1610d8e565b9060018060a01b03165f5260205260405f2090565b556001600160a01b031690339082907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a47fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2565b6001600160a01b0381165f9081525f805160206159d183398151915260205260409020545f80516020615a318339815191529060ff1661397b575f8181526002602090815260408083206001600160a01b038616845290915290206141a3906136aa565b805f5260036020526141b88260405f20613ffd565b805f52600360205260405f20546141d1836140d1610dc7565b5533916001600160a01b0316907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4565b90815f52600260205260ff61422c8260405f209060018060a01b03165f5260205260405f2090565b541661397b578061425a6136aa5f80516020615a11833981519152936140d1865f52600260205260405f2090565b61427581614270855f52600360205260405f2090565b613ffd565b614287835f52600360205260405f2090565b5461429e826140d1865f52600460205260405f2090565b556001600160a01b0316913383827f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4146142d85750565b7fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2565b906143076137bc565b90815115613478576020820152815f52601360205260405f20549061437c61433761433183615739565b92613e27565b60405190614344826109fd565b84825285602083015260408201525f6060820152600360808201524260a0820152614377835f52602560205260405f2090565b614a82565b825f52601860205261439860405f20600260ff19825416179055565b7f5e0bb1b708f1f76775812e0c51d4f8893968e6bf1a6776e92e97da11615342f35f80a4565b906143c76137bc565b90815115613478576020820152815f52601360205260405f20549061437c6143f161433183615739565b604051906143fe826109fd565b84825285602083015260408201525f60608201525f60808201524260a0820152614377835f52602560205260405f2090565b600f545f526011602052600160405f200154801515908161444f575090565b905042101590565b6001600160a01b03165f908152600d60205260409020805460ff161561447e576001015490565b5060075490565b805480156144b1575f19019061449b8282613520565b81549060018060a01b039060031b1b1916905555565b634e487b7160e01b5f52603160045260245ffd5b6001600160a01b0381165f9081525f805160206159d183398151915260205260409020545f80516020615a318339815191529060ff161561397b57805f52600360205261457860405f2061452461451e856140d1610dc7565b5461384d565b61457261456961455561454061453a865461384d565b86613520565b905460039190911b1c6001600160a01b031690565b92614564846140208388613520565b6134be565b916140d1610dc7565b55614485565b5f614585836140d1610dc7565b555f80516020615a318339815191525f5260026020526145b561368b835f805160206159d18339815191526140d1565b33916001600160a01b0316907ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4565b6001600160a01b0381165f9081525f8051602061593183398151915260205260409020545f80516020615a11833981519152919060ff161561397b575f80516020615a118339815191525f52600360205261468a7f9f8c1e4db490db79267d789450c43e451d3815b36f0e40338fb0b9cc4c4ca7e661466b61451e846140d1610d8e565b61457261468161455561454061453a865461384d565b916140d1610d8e565b5f614697826140d1610d8e565b555f80516020615a118339815191525f5260026020526146c761368b825f805160206159318339815191526140d1565b6001600160a01b031690339082907ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a47f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2565b9060ff614738826140d1855f52600260205260405f2090565b54161561397b576147b85f80516020615a11833981519152916147cb614766855f52600360205260405f2090565b61477f61451e846140d1895f52600460205260405f2090565b61457261479561478f845461384d565b84613520565b90546001600160a01b039760039290921b1c871692614564846140208388613520565b916140d1895f52600460205260405f2090565b5f6147e2826140d1875f52600460205260405f2090565b556147fc61368b826140d1875f52600260205260405f2090565b16913383827ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a41461482d5750565b7f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2565b6001600160a01b03165f908152600d60205260409020805460ff161561487a576002015490565b5060085490565b90614897612ac7835f52601860205260405f2090565b6148a08161258d565b156149c0576148ba612ac7835f52601660205260405f2090565b6149ae57601b54801561499c576148f5906148ef6148e0855f52601460205260405f2090565b915f52601960205260405f2090565b9061524b565b916148ff83613b7a565b5082614913825f52601560205260405f2090565b55601b54614929825f52601c60205260405f2090565b5561493f6136aa825f52601660205260405f2090565b6003614965614956835f52601360205260405f2090565b545f52601160205260405f2090565b016149708154613445565b9055601b54907ff8bd8e66a5f1717a1258bdcd4a7ed79198102942dcb8c6995ef172ebfd261b0c5f80a3565b6040516365ae760b60e11b8152600490fd5b6040516349993f4d60e01b8152600490fd5b60405163f76d5dfb60e01b8152600490fd5b6001600160a01b03165f908152600d60205260409020805460ff16156149f9576003015490565b50600a5490565b906108a290614a10933691610a63565b90614a1b30836150c6565b610a4633836150c6565b610a4690805f526020805260405f20805460ff811615614a47575b5050615351565b60019060ff191617905560136020526004614a6e60405f20545f52601160205260405f2090565b01614a798154613445565b90555f80614a40565b9060a060049180518455602081015160018501556040810151600285015560038401614ac060608301511515829060ff801983541691151516179055565b6080820151614ace81611f1b565b614ad781611f1b565b61ff0082549160081b169061ff0019161790550151910155565b5f805160206159f183398151915280545f805160206159b183398151915254949594614b2790612292906001600160a01b031681565b803b15610651575f6040518092637d6e912360e11b8252818381614b4e8d6004830161567e565b03925af180156123a257614c43575b505f8051602061597183398151915254614b8190612292906001600160a01b031681565b93843b15610651575f6040518096633263b83b60e01b8252818381614baa8d896004840161568f565b03925af19485156123a257614bda61437794614beb92610a4698614c30575b50614bd48a8661583c565b54613445565b5f805160206159f183398151915255565b614bf58297613e27565b9060405194614c03866109fd565b8552602085015260408401525f6060840152600160808401524260a08401525f52602560205260405f2090565b80613a4b614c3d926109cf565b5f614bc9565b80613a4b614c50926109cf565b5f614b5d565b5f805160206159f183398151915280545f805160206159b18339815191525493949390929190614c9090612292906001600160a01b031681565b803b15610651575f6040518092637d6e912360e11b8252818381614cb78c6004830161567e565b03925af180156123a257614d95575b505f8051602061597183398151915254614cea90612292906001600160a01b031681565b92833b15610651575f6040518095633263b83b60e01b8252818381614d138c88600484016156b8565b03925af19384156123a257614bda61437793614d3d92610a4697614d82575b50614bd4898561583c565b614d478196613e27565b60405193614d54856109fd565b84525f602085015260408401525f6060840152600260808401524260a08401525f52602560205260405f2090565b80613a4b614d8f926109cf565b5f614d32565b80613a4b614da2926109cf565b5f614cc6565b92939263124bd04b60e01b614dbc82611f1b565b60018203614f28575063ad7db84160e01b925b5f805160206159f183398151915291825491614e046122926122925f805160206159b18339815191525460018060a01b031690565b803b1561065157604051637d6e912360e11b8152905f908290818381614e2d8f6004830161567e565b03925af180156123a257614f15575b505f8051602061597183398151915254614e6090612292906001600160a01b031681565b803b1561065157614e8c965f918a83604051809b81958294633263b83b60e01b84528b6004850161570a565b03925af19586156123a257614bda61437795614eb692610a4699614f02575b50614bd48b8761583c565b614ec08398613e27565b9060405195614ece876109fd565b8652602086015260408501525f6060850152614ee981611f1b565b60808401524260a08401525f52602560205260405f2090565b80613a4b614f0f926109cf565b5f614eab565b80613a4b614f22926109cf565b5f614e3c565b92614f3282611f1b565b60028203614dcf57638de032a160e01b9350614dcf565b90614f5c825f52602560205260405f2090565b91600483015480158015614ff3575b614fde57602654810180911161157d574210614fcc5760038301805460ff19166001179055825460018401546040519081529091907fbcd8b00be31082c69898b76c0bd4de080d6e543955356882269cc9edc47475f79080602081010390a3565b60405163017e81fd60e71b8152600490fd5b60405160016235979b60e01b03198152600490fd5b5060ff600385015416614f6b565b5f52601660205260405f2060ff198154169055601860205261502d60405f20600160ff19825416179055565b601360205260405f20545f526011602052600360405f20016134a58154613841565b5f5b8381106150605750505f910152565b8181015183820152602001615051565b906020916150898151809281855285808601910161504f565b601f01601f1916010190565b93926150c190600493606093875260018060a01b03166020870152608060408701526080860190615070565b930152565b5f805160206159b1833981519152546001600160a01b031691823b1561065157604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156123a2576151245750565b610a46906109cf565b602092919061514384928281519485920161504f565b019081520190565b9161517490615166610ab49593606086526060860190613df4565b908482036020860152615070565b916040818403910152615070565b91908051916020938385019384861161157d5760400180941161157d5761520f936151b9869461361760405193849288840161512d565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f906151f190612292906001600160a01b031681565b92604051968795869485936378542ead60e01b85526004850161514b565b03925af19182156123a2575f9261522557505090565b610ab49250803d10615244575b61523c8183610a18565b810190613790565b503d615232565b6004906004830154925f925b808410615273575050505061526e610ab491615606565b613b02565b9091929360018401615285868261347d565b90549060031b1c156152cd576001916152bd6152aa61526e61199e8a6152c39661347d565b6152b761199e8a8961347d565b906154fe565b90615582565b9401929190615257565b60405162461bcd60e51b8152602081850152601a60248201527f43697068657274657874206e6f7420696e697469616c697a65640000000000006044820152606490fd5b3d1561533b573d9061532282610a48565b916153306040519384610a18565b82523d5f602084013e565b606090565b906020610ab4928181520190615070565b602154615366906001600160a01b0316612292565b6001600160a01b038116158015615491575b61397b57803b156154565760405163125e4bbf60e31b81526004810183905290602090829060249082905f905af15f9181615435575b506153ec57507fdb3a039c517a96f3cd636282f1895b7e7cbbdfa857c3af5fcc11f3eb024f5820613cf86153e0615311565b60405191829182615340565b9081615400825f52602260205260405f2090565b5561540f612690602454613445565b7f54e35c50744b500358713f6ff3621a17a7947157d97b604d4ed5ac048b06bf785f80a3565b61544f91925060203d60201161239b5761238c8183610a18565b905f6153ae565b507fdb3a039c517a96f3cd636282f1895b7e7cbbdfa857c3af5fcc11f3eb024f582060405180613cf881604090602081525f60208201520190565b506154a4825f52602260205260405f2090565b541515615378565b5f8051602061591183398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156123a2575f91613ad5575090565b908115615572575b8015615560575b602090606460018060a01b035f805160206159118339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af19081156123a2575f91613ad5575090565b50602061556b6154ac565b905061550d565b905061557c6154ac565b90615506565b9081156155f6575b80156155e4575b602090606460018060a01b035f805160206159118339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156123a2575f91613ad5575090565b5060206155ef6154ac565b9050615591565b90506156006154ac565b9061558a565b801561566a575b5f8051602061591183398151915254604051635a53accb60e01b81526004810192909252606460248301819052600160f81b604484015260209183919082905f906001600160a01b03165af19081156123a2575f91613ad5575090565b505f60206156766154ac565b91505061560d565b906020610ab4928181520190613df4565b92916156a8918452606060208501526060840190613df4565b91604063ad7db84160e01b910152565b92916156d1918452606060208501526060840190613df4565b916040638de032a160e01b910152565b92916156fa918452606060208501526060840190613df4565b91604063124bd04b60e01b910152565b91615728906040929594958452606060208501526060840190613df4565b6001600160e01b0319909416910152565b5f805160206159f183398151915280545f805160206159b183398151915254909392919061577190612292906001600160a01b031681565b803b15610651575f6040518092637d6e912360e11b8252818381615798896004830161567e565b03925af180156123a257615829575b505f80516020615971833981519152546157cb90612292906001600160a01b031681565b90813b15610651575f6040518093633263b83b60e01b82528183816157f4898c600484016156e1565b03925af180156123a257610a4693614bda93614bd492615816575b508661583c565b80613a4b615823926109cf565b5f61580f565b80613a4b615836926109cf565b5f6157a7565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020918160205260405f20546158fe575f5260205260405f20908251926001600160401b0384116109ca57600160401b84116109ca5782548484558085106158d8575b5060206158b59101925f5260205f2090565b905f5b8481106158c6575050505050565b835183820155928101926001016158b8565b835f528460205f2091820191015b8181106158f357506158a3565b5f81556001016158e6565b604051633f06d22b60e01b8152600490fdfe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019891859b5a14a6a70a7905aca276317bd243ea2e53ca1a06ef897cc8e837e33cfd89548931d07b12256eb822646a83340813c16b5b101dfdd81f31688463cabf9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702708c6b3a1a43063fcff2ed11fff0d3410f7a7ac561e651ec7a63ecde338f76729e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700e5ebfa64fca8d502a8e50c1edffd2c31ef4dad5b396e65d9f397fb028f74abc5878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0018d9ff454de989bd126b06bd404b47ede75f9e65543e94e8d212f89d7dcbb87ca49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775a164736f6c6343000818000a2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d";
+
+type AIFactCheckFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AIFactCheckFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AIFactCheckFHE__factory extends ContractFactory {
+  constructor(...args: AIFactCheckFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    initialOwner: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(initialOwner, overrides || {});
+  }
+  override deploy(
+    initialOwner: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(initialOwner, overrides || {}) as Promise<
+      AIFactCheckFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AIFactCheckFHE__factory {
+    return super.connect(runner) as AIFactCheckFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AIFactCheckFHEInterface {
+    return new Interface(_abi) as AIFactCheckFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AIFactCheckFHE {
+    return new Contract(address, _abi, runner) as unknown as AIFactCheckFHE;
+  }
+}
@@ -0,0 +1,1244 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  FactCheckReview,
+  FactCheckReviewInterface,
+} from "../../../contracts/FactCheckReview.sol/FactCheckReview";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract IFactCheckRegistry",
+        name: "factCheck_",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "quorum_",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "votingPeriod_",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyFinalized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyVoted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoVotingWeight",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotFactCheck",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotUpheld",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PrivateBallotRequired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PublicBallotRequired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReviewAlreadyOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatchError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TallyAlreadyRequested",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TallyNotPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TallyNotTimedOut",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownProposal",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "VotingClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "VotingStillOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WeightTooLarge",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "weight",
+        type: "uint256",
+      },
+    ],
+    name: "EncryptedVoteCast",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "PrivateBallotsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldQuorum",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newQuorum",
+        type: "uint256",
+      },
+    ],
+    name: "QuorumSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum ReviewOutcome",
+        name: "outcome",
+        type: "uint8",
+      },
+    ],
+    name: "ReviewFinalized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+    ],
+    name: "ReviewOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "reason",
+        type: "bytes",
+      },
+    ],
+    name: "ScoreUnlockFailed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "ScoreUnlockRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "TallyCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint128",
+        name: "upholdWeight",
+        type: "uint128",
+      },
+      {
+        indexed: false,
+        internalType: "uint128",
+        name: "overturnWeight",
+        type: "uint128",
+      },
+      {
+        indexed: false,
+        internalType: "uint128",
+        name: "escalateWeight",
+        type: "uint128",
+      },
+    ],
+    name: "TallyDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "TallyRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "oldRequestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "newRequestId",
+        type: "uint256",
+      },
+    ],
+    name: "TallyRetried",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "TallyTimedOut",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldTimeout",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newTimeout",
+        type: "uint256",
+      },
+    ],
+    name: "TallyTimeoutSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum FactCheckReview.VoteChoice",
+        name: "choice",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "weight",
+        type: "uint256",
+      },
+    ],
+    name: "VoteCast",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "weight",
+        type: "uint256",
+      },
+    ],
+    name: "VoterWeightSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldPeriod",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newPeriod",
+        type: "uint256",
+      },
+    ],
+    name: "VotingPeriodSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "VotingTokenSet",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelTallyDecryption",
+    outputs: [
+      {
+        internalType: "enum ReviewOutcome",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedChoice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "castEncryptedVote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FactCheckReview.VoteChoice",
+        name: "choice",
+        type: "uint8",
+      },
+    ],
+    name: "castVote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "requestedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedWeightCast",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "factCheck",
+    outputs: [
+      {
+        internalType: "contract IFactCheckRegistry",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "finalize",
+    outputs: [
+      {
+        internalType: "enum ReviewOutcome",
+        name: "outcome",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedTally",
+    outputs: [
+      {
+        internalType: "euint128",
+        name: "uphold",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint128",
+        name: "overturn",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint128",
+        name: "escalate",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "snapshotBlock",
+        type: "uint256",
+      },
+    ],
+    name: "getVotingWeight",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasVoted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "onTallyDecrypted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "openReview",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "privateBallots",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proposalCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "proposalOfPost",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "proposals",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "snapshotBlock",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "startTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "upholdWeight",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "overturnWeight",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "escalateWeight",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "finalized",
+        type: "bool",
+      },
+      {
+        internalType: "enum ReviewOutcome",
+        name: "outcome",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "privateBallot",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "quorum",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "requestTallyDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "retryTallyDecryption",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "setPrivateBallots",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newQuorum",
+        type: "uint256",
+      },
+    ],
+    name: "setQuorum",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newTimeout",
+        type: "uint256",
+      },
+    ],
+    name: "setTallyTimeout",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "weight",
+        type: "uint256",
+      },
+    ],
+    name: "setVoterWeight",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newPeriod",
+        type: "uint256",
+      },
+    ],
+    name: "setVotingPeriod",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract IVotes",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "setVotingToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "tallyRequestId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "tallyTimeout",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "unlockScore",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "voterWeight",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "votingPeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "votingToken",
+    outputs: [
+      {
+        internalType: "contract IVotes",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a034620001e857601f6200267a38819003918201601f19168301916001600160401b03831184841017620001ec57808492606094604052833981010312620001e8578051906001600160a01b0382168203620001e85760406020820151910151915f60606200006e62000200565b82815282602082015282604082015201526200008962000200565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f5560805260035560045562015180600e55604051612459908162000221823960805181818161048a0152818161079d015281816112230152611b200152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b03811183821017620001ec5760405256fe6080806040526004361015610012575f80fd5b5f905f3560e01c908163013cf08b1461176d5750806302a251a31461175057806302ce865c146113b057806305261aea146113645780631703a01814611347578063229628d01461132557806333a4d987146112fb578063372c6258146111ea578063438596321461119a5780634cb77f971461116a578063567813881461107e5780636516e1b2146109a35780637445917e14610961578063861b7d75146109285780638da5cb5b1461090157806392f25df81461078457806394f07b081461076657806398ffc53b1461070d578063b0340123146106e4578063b0fcb1aa14610673578063b65e894114610621578063c1ba4e59146105c0578063c713229614610544578063cb238ea9146104e3578063ceb6fdc6146104b9578063d23b115e14610474578063da1f12ab14610457578063da35c66414610439578063dff0b24b1461040f578063e2d74628146103a1578063e705289514610332578063ea0217cf146102d1578063f2fde38b146102505763fd55c48214610194575f80fd5b3461024d57602036600319011261024d576004356101b181611d41565b600781015460ff8160101c161561023b5760ff1661022957600301544210610217576101f481805f52600c60205260405f20545f52600d60205260405f20541490565b6102055761020190611fda565b5080f35b6040516305a7a9f560e51b8152600490fd5b6040516388c081c760e01b8152600490fd5b60405163475a253560e01b8152600490fd5b60405163b98277c160e01b8152600490fd5b80fd5b503461024d57602036600319011261024d5761026a6118cd565b8154906001600160a01b0380831691338390036102bf571680926bffffffffffffffffffffffff60a01b161783557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08380a380f35b6040516330cd747160e01b8152600490fd5b503461024d57602036600319011261024d578054600435906001600160a01b031633036102bf5760407f7e3f7f0708a84de9203036abaa450dccc85ad5ff52f78c170f3edb55cf5e882891600454908060045582519182526020820152a180f35b503461024d57604036600319011261024d5761034c6118cd565b8154602435916001600160a01b0391821633036102bf577ff70e9c37ae50777e0b845f7afff5543fe14230399023966f1cea240180dbcdd791602091169283855260028252806040862055604051908152a280f35b503461024d57602036600319011261024d576004356001600160a01b038181169182900361040b5782541633036102bf57600180546001600160a01b031916821790557f392aa4d4c6804dae27d6bfa0c6430bba42833bed9c53833e7b7f2b2d7cc13aef8280a280f35b8280fd5b503461024d57602036600319011261024d5760406020916004358152600c83522054604051908152f35b503461024d578060031936011261024d576020600654604051908152f35b503461024d578060031936011261024d5760206040516127118152f35b503461024d578060031936011261024d576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b503461024d57602036600319011261024d5760406020916004358152600b83522054604051908152f35b503461024d57602036600319011261024d578054600435906001600160a01b031633036102bf5760407f0646c8f999bb06309c386b22a3b0742574b58573753b6c07bc929438005b88d991600e549080600e5582519182526020820152a180f35b503461024d57602036600319011261024d57805460043591906001600160a01b031633036102bf578160406105b19261057e602095611ef5565b837f032ed9c74ba77186e59000e18054d037c0fb26737615d76777b8615ea71a293a8380a3828152600785522090611aea565b6105be6040518092611806565bf35b503461024d57602036600319011261024d578054600435906001600160a01b031633036102bf5760407fefd756ffab26c83a9c410308c3bce2daf19f87e2dfd240775beafe2d2be6bc0b91600354908060035582519182526020820152a180f35b503461024d57602036600319011261024d5760406080916004358152600d60205220805490600181015490600360ff600283015416910154916040519384526020840152151560408301526060820152f35b503461024d57602036600319011261024d576004358015158091036106e05781546001600160a01b031633036102bf5760207f04108f42da5d57920b3b65567724788f0c5c1d89817a89448661fbb170759d3f9160ff196005541660ff821617600555604051908152a180f35b5080fd5b503461024d578060031936011261024d576001546040516001600160a01b039091168152602090f35b503461024d57602036600319011261024d5760209060043561072e81611ef5565b9061073881611fda565b9182917f6dad44a42db58fc147830829d1b05e33f8f18c9c046664b923449196a4d291086040519580a48152f35b503461024d578060031936011261024d576020600e54604051908152f35b503461024d576020908160031936011261024d576004357f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031633036108ef578082526008835260408220546108dd576107e6600654611991565b918260065582815260078452604081208281555f1943014381116108c957849282879260017fadd9b84ada69c9d944a085972e780343574172b9e7fb387e306d6bf2315060b295015542600282015561084160045442611984565b91600382019283558681526008845285604082205560ff60055416610873575b505054604051908152a3604051908152f35b6007604092016201000062ff000019825416179055858152600a8452206108a061089b612333565b611e84565b81556108ad61089b612333565b600182015560026108bf61089b612333565b9101555f80610861565b634e487b7160e01b83526011600452602483fd5b604051637bf07c7960e11b8152600490fd5b604051631b1740a360e11b8152600490fd5b503461024d578060031936011261024d57546040516001600160a01b039091168152602090f35b503461024d57602036600319011261024d576020906040906001600160a01b036109506118cd565b168152600283522054604051908152f35b503461024d57602036600319011261024d5760406060916004358152600a60205220805490600260018201549101549060405192835260208301526040820152f35b503461024d57606036600319011261024d5760443567ffffffffffffffff80821161040b573660238301121561040b57816004013590811161040b57366024828401011161040b576109f6600435611d41565b60ff600782015460101c161561023b57610a1290600435611d6b565b916004358452600b602052610a2b836040862054611984565b906001600160801b039283831161106c57610a60602092610aae9288956004358752600b865260408720556024369201611879565b5f8051602061242d8339815191525460405163196d0b9b60e01b81526024803560048301523390820152608060448201529485936001600160a01b0390921692849283916084830190611ac5565b6002606483015203925af190811561106157849161102f575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005484906001600160a01b0316803b156106e057604051630f8e573b60e21b8152600481018490523360248201529082908290604490829084905af180156110245761100c575b505080918115610ffc575b60018060a01b035f8051602061242d8339815191525416916040519363f77f3f1d60e01b9081865260048601525f60248601526020856064815f600160f81b988960448401525af1948515610f71575f95610fc5575b50906020918115610fb1575b6064905f60018060a01b035f8051602061242d83398151915254166040519788958694855260048501526001602485015260448401525af1918215610f71575f92610f7c575b505f8051602061242d83398151915254604051639cd07acb60e01b8152918516600483015260066024830152909190602090839060449082905f906001600160a01b03165af1918215610f71575f92610f3d575b50610c3f612333565b926004358652600a6020526040862093845487602060018060a01b035f8051602061242d8339815191525416606460405180948193637702dcff60e01b83528960048401528b60248401528860448401525af1908115610efe578991610f09575b5061089b90610cae92611e00565b8555600185015487602060018060a01b035f8051602061242d8339815191525416606460405180948193637702dcff60e01b83528a60048401528b60248401528860448401525af1908115610efe578991610eca575b5061089b90610d1292611e00565b6001860155600285015492808315610eb9575b15610ea6575b5f8051602061242d833981519152546040516363a2db2960e01b8152600481019490945260248401919091526001600160f81b031988166044840152602090839060649082908b906001600160a01b03165af1918215610e9b578792610e66575b5060646020928860018060a01b035f8051602061242d83398151915254166040519788958694637702dcff60e01b86526004860152602485015260448401525af1918215610e5b578592610e21575b5061089b600292610deb92611e00565b91015560405190815233907f320aefdf884789246dd67a0283f24132d2a776a26fd3d2705ea549db40378ce3602060043592a380f35b91506020823d602011610e53575b81610e3c6020938361183b565b81010312610e4f5790519061089b610ddb565b5f80fd5b3d9150610e2f565b6040513d87823e3d90fd5b91506020823d602011610e93575b81610e816020938361183b565b81010312610e4f579051906064610d8c565b3d9150610e74565b6040513d89823e3d90fd5b506020610eb288612386565b9050610d2b565b9250610ec488612386565b92610d25565b90506020813d602011610ef6575b81610ee56020938361183b565b81010312610e4f5751610d12610d04565b3d9150610ed8565b6040513d8b823e3d90fd5b90506020813d602011610f35575b81610f246020938361183b565b81010312610e4f5751610cae610ca0565b3d9150610f17565b9091506020813d602011610f69575b81610f596020938361183b565b81010312610e4f5751905f610c36565b3d9150610f4c565b6040513d5f823e3d90fd5b91506020823d602011610fa9575b81610f976020938361183b565b81010312610e4f579051906020610be2565b3d9150610f8a565b90506064610fbd6123d9565b919050610b9c565b919094506020823d602011610ff4575b81610fe26020938361183b565b81010312610e4f579051936020610b90565b3d9150610fd5565b91506110066123d9565b91610b3a565b61101590611813565b61102057835f610b2f565b8380fd5b6040513d84823e3d90fd5b90506020813d602011611059575b8161104a6020938361183b565b81010312610e4f57515f610ac7565b3d915061103d565b6040513d86823e3d90fd5b60405163397c49f360e21b8152600490fd5b503461024d57604036600319011261024d57602435600435600382101561040b576110a881611d41565b9160ff600784015460101c16611158576110c28383611d6b565b905f9381155f1461112a576004016110db838254611984565b90555b6040519361111657835260208301527fb83d25c6a5d258561330739951487acb4bd09ba5190b5d32c4f261817d90679260403393a380f35b634e487b7160e01b85526021600452602485fd5b5f94506001820361114a57600501611143838254611984565b90556110de565b600601611143838254611984565b604051630371dfe760e01b8152600490fd5b503461024d57604036600319011261024d5760206111926111896118cd565b602435906118f7565b604051908152f35b503461024d57604036600319011261024d576024356001600160a01b0381169190829003610e4f576040906004358152600960205220905f52602052602060ff60405f2054166040519015158152f35b5034610e4f576020366003190112610e4f5760043561120881611d41565b600781015460ff8116159081156112cc575b506112ba5780547f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031690813b15610e4f575f916024839260405194859384926306e58c4b60e31b845260048401525af18015610f71576112a7575b5054907f6a27aa17ae0f993e41f892b05a5bb591a91e719fd9e8ac28a1f7b9d56505d0048380a380f35b6112b2919350611813565b5f915f61127d565b60405163283edf4560e21b8152600490fd5b60ff915060081c1660048110156112e757600114155f61121a565b634e487b7160e01b5f52602160045260245ffd5b34610e4f576020366003190112610e4f576004355f526008602052602060405f2054604051908152f35b34610e4f575f366003190112610e4f57602060ff600554166040519015158152f35b34610e4f575f366003190112610e4f576020600354604051908152f35b34610e4f576020366003190112610e4f5760043561138181611d41565b90600782015460ff8160101c166111585760ff166102295760038201544210610217576020916105b191611aea565b34610e4f5760606003198181360112610e4f57600435906024359267ffffffffffffffff93848111610e4f576113ea9036906004016118af565b93604435908111610e4f576114039036906004016118af565b91835f52602091600d835260405f2094600286019460ff86541661173e5761143361142e885461199f565b611a55565b9360019460018901540361172c57825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0180875260405f20541561171a57835f52865260405f209460405190819687918982549485815201915f52895f20905f5b8b86821061170457505050506114ad9250038661183b565b885190818701918288116116f0576040018092116116f057899587926040518091858a519a019980878401906114e3918d611aa4565b820190868201520384810182526040016114fd908261183b565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703546040516378542ead60e01b8152600481018990529586946001600160a01b03909216938593849391611555906064860190611a22565b8285820301602486015261156891611ac5565b9083820301604484015261157b91611ac5565b03915a905f91f1908115610f71575f916116c3575b50156116b157604051907f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a28187510361166f57508086805181010312610e4f5761166d956116017fca0731313af15753adce08f7856e0fc1327f07c51a420b946d0f288bd393896f936118e3565b9561161983611612604085016118e3565b93016118e3565b95600160ff1982541617905580545f526007855260405f20966001600160801b0380809216938460048b015516968760058a01551690816006890155549586956040519384528301526040820152a2611aea565b005b62461bcd60e51b815260048101849052601860248201527f496e76616c696420636c65617274657874206c656e67746800000000000000006044820152606490fd5b60405163cf6c44e960e01b8152600490fd5b6116e39150853d87116116e9575b6116db818361183b565b810190611a8c565b88611590565b503d6116d1565b634e487b7160e01b5f52601160045260245ffd5b835485528b955090930192918101918101611495565b60405163d66ca67560e01b8152600490fd5b6040516301c081db60e11b8152600490fd5b604051632b5119b160e01b8152600490fd5b34610e4f575f366003190112610e4f576020600454604051908152f35b34610e4f576020366003190112610e4f57610140906004355f52600760205260ff60405f2080549060018101546002820154600383015460048401549160058501549360076006870154960154968952602089015260408801526060870152608086015260a085015260c0840152818116151560e08401526117f86101008401838360081c16611806565b60101c161515610120820152f35b9060048210156112e75752565b67ffffffffffffffff811161182757604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff82111761182757604052565b67ffffffffffffffff811161182757601f01601f191660200190565b9291926118858261185d565b91611893604051938461183b565b829481845281830111610e4f578281602093845f960137010152565b9080601f83011215610e4f578160206118ca93359101611879565b90565b600435906001600160a01b0382168203610e4f57565b51906001600160801b0382168203610e4f57565b6001546001600160a01b03929083168061191d575050165f52600260205260405f205490565b604051630748d63560e31b81529390921660048401526024830152602090829060449082905afa908115610f71575f91611955575090565b90506020813d60201161197c575b816119706020938361183b565b81010312610e4f575190565b3d9150611963565b919082018092116116f057565b5f1981146116f05760010190565b5f52600a60205260405f20906040516080810181811067ffffffffffffffff8211176118275760405260038152602081019260603685378193815490835115611a0e5752600181015490825160011015611a0e576002916040840152015490805160021015611a0e5760600152565b634e487b7160e01b5f52603260045260245ffd5b9081518082526020808093019301915f5b828110611a41575050505090565b835185529381019392810192600101611a33565b604051611a8681611a726020820194604086526060830190611a22565b30604083015203601f19810183528261183b565b51902090565b90816020910312610e4f57518015158103610e4f5790565b5f5b838110611ab55750505f910152565b8181015183820152602001611aa6565b90602091611ade81518092818552858086019101611aa4565b601f01601f1916010190565b9190611af5816122bd565b92600782015f90805460048710156112e75761ffff1916600887901b61ff00161760011790558254927f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031690813b15610e4f57604094855190635ef06afd60e11b82526004820152611b726024820189611806565b5f8160448183875af18015611d3757611d24575b50805491855192611b97848a611806565b80867f9c36fd9ac878136e365481b966cc15d0abe4ecb49e62e79f2b85c2e86153f88860208097a36001891480611ccd575b611bd7575b50505050505050565b813b15611cc957848092602482938a5195869384926306e58c4b60e31b845260048401525af19182611cb5575b5050611c87577f914b8d11d58e7fb4a9a2170096b3839cd331b39553c300b7906bff5af17ae4289291903d15611c7a57611c6a903d611c428161185d565b90611c4f8951928361183b565b81528094843d92013e5b549551928284938452830190611ac5565b0390a35b5f808080808080611bce565b9150611c6a606092611c59565b5493507f6a27aa17ae0f993e41f892b05a5bb591a91e719fd9e8ac28a1f7b9d56505d00491905080a3611c6e565b611cbe90611813565b61102057835f611c04565b8480fd5b5086516370f2772760e11b8152600481018290528481602481865afa908115611d1a578691611cfd575b50611bc9565b611d149150853d87116116e9576116db818361183b565b5f611cf7565b88513d88823e3d90fd5b611d2f919350611813565b5f915f611b86565b86513d5f823e3d90fd5b5f52600760205260405f2090600382015415611d5957565b6040516302eae9e560e51b8152600490fd5b91906003810154421015611dee57825f526009602052604090815f20335f5260205260ff825f205416611ddd576001611da6910154336118f7565b928315611dcc575f526009602052805f20335f526020525f20600160ff19825416179055565b815163923d21f560e01b8152600490fd5b8151637c9a1cf960e01b8152600490fd5b60405163335b65a560e11b8152600490fd5b908115611e74575b8015611e62575b602090606460018060a01b035f8051602061242d8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610f71575f91611955575090565b506020611e6d612333565b9050611e0f565b9050611e7e612333565b90611e08565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b15610e4f57604051635ca4b5b160e11b815260048101839052306024820152905f908290604490829084905af18015610f7157611eec575090565b6118ca90611813565b90611eff82611d41565b825f52600c60205260405f205492835f52600d60205260ff600760405f20930154168015611fb2575b8015611fa4575b611f9257611f446003830154600e5490611984565b4210611f80576002849201600160ff198254161790557fb96ae1adb964f49390f3fd23ce093578b7b6dc620060565042846b27e8df93ec5f80a3565b604051632c13089d60e21b8152600490fd5b60405163361da30b60e01b8152600490fd5b5060ff600283015416611f2f565b50611fd481805f52600c60205260405f20545f52600d60205260405f20541490565b15611f28565b90611fe48261199f565b915f907f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009182549260018060a01b0390817f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b15610e4f5787916040938451637d6e912360e11b81525f8160049581838161206d60209b8c8c8401526024830190611a22565b03925af18015611d37576122aa575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156122a657858a6120d6928a838951809681958294633263b83b60e01b84528b840152606060248401526064830190611a22565b62b3a19760e21b604483015203925af1801561229c57908691612288575b508790527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018084528486205461227857878652835283852090895167ffffffffffffffff9283821161226557680100000000000000008211612265578054828255808310612240575b50858c01908852858820885b83811061222e575050505061217e8154611991565b905561218a8799611a55565b9084519260808401918483109083111761221b57509284926003600c938a967f67401e164d58e19a8b59b4854c8d70da760e63dd35bdc849c3952dfd6ee712a79998528983528383019081528583018881526060840191428352888a52600d8652878a2094518555516001850155600284019051151560ff80198354169116179055519101558685525282205580a3565b604190634e487b7160e01b5f525260245ffd5b82518282015591870191600101612169565b81895282878a2091820191015b81811061225a575061215d565b89815560010161224d565b634e487b7160e01b885260418552602488fd5b8451633f06d22b60e01b81528390fd5b61229190611813565b611cc957845f6120f4565b85513d88823e3d90fd5b8580fd5b6122b5919650611813565b5f945f61207c565b6004810154906005810154916122e260066122d88584611984565b9301548093611984565b6003541161232b5782811180612322575b61231a5782119182612310575b505061230b57600390565b600290565b1190505f80612300565b505050600190565b508181116122f3565b505050600390565b5f8051602061242d83398151915254604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af1908115610f71575f91611955575090565b5f8051602061242d83398151915254604051639cd07acb60e01b815260048101929092525f6024830181905260209183916044918391906001600160a01b03165af1908115610f71575f91611955575090565b5f8051602061242d83398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af1908115610f71575f9161195557509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type FactCheckReviewConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: FactCheckReviewConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class FactCheckReview__factory extends ContractFactory {
+  constructor(...args: FactCheckReviewConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    factCheck_: AddressLike,
+    quorum_: BigNumberish,
+    votingPeriod_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      factCheck_,
+      quorum_,
+      votingPeriod_,
+      overrides || {}
+    );
+  }
+  override deploy(
+    factCheck_: AddressLike,
+    quorum_: BigNumberish,
+    votingPeriod_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      factCheck_,
+      quorum_,
+      votingPeriod_,
+      overrides || {}
+    ) as Promise<
+      FactCheckReview & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): FactCheckReview__factory {
+    return super.connect(runner) as FactCheckReview__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): FactCheckReviewInterface {
+    return new Interface(_abi) as FactCheckReviewInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): FactCheckReview {
+    return new Contract(address, _abi, runner) as unknown as FactCheckReview;
+  }
+}
@@ -0,0 +1,46 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IVotes,
+  IVotesInterface,
+} from "../../../contracts/FactCheckReview.sol/IVotes";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timepoint",
+        type: "uint256",
+      },
+    ],
+    name: "getPastVotes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IVotes__factory {
+  static readonly abi = _abi;
+  static createInterface(): IVotesInterface {
+    return new Interface(_abi) as IVotesInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): IVotes {
+    return new Contract(address, _abi, runner) as unknown as IVotes;
+  }
+}
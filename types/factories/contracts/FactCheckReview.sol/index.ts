@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { FactCheckReview__factory } from "./FactCheckReview__factory";
+export { IVotes__factory } from "./IVotes__factory";
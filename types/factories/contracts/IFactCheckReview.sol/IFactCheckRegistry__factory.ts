@@ -0,0 +1,75 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IFactCheckRegistry,
+  IFactCheckRegistryInterface,
+} from "../../../contracts/IFactCheckReview.sol/IFactCheckRegistry";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "isScoreLocked",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum ReviewOutcome",
+        name: "outcome",
+        type: "uint8",
+      },
+    ],
+    name: "recordReviewOutcome",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "unlockScore",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class IFactCheckRegistry__factory {
+  static readonly abi = _abi;
+  static createInterface(): IFactCheckRegistryInterface {
+    return new Interface(_abi) as IFactCheckRegistryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IFactCheckRegistry {
+    return new Contract(address, _abi, runner) as unknown as IFactCheckRegistry;
+  }
+}
@@ -0,0 +1,44 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IFactCheckReview,
+  IFactCheckReviewInterface,
+} from "../../../contracts/IFactCheckReview.sol/IFactCheckReview";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "postId",
+        type: "uint256",
+      },
+    ],
+    name: "openReview",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class IFactCheckReview__factory {
+  static readonly abi = _abi;
+  static createInterface(): IFactCheckReviewInterface {
+    return new Interface(_abi) as IFactCheckReviewInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IFactCheckReview {
+    return new Contract(address, _abi, runner) as unknown as IFactCheckReview;
+  }
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IFactCheckRegistry__factory } from "./IFactCheckRegistry__factory";
+export { IFactCheckReview__factory } from "./IFactCheckReview__factory";
@@ -1,4 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as aiFactCheckFheSol from "./AI_FactCheck_Fhe.sol";
+export * as factCheckReviewSol from "./FactCheckReview.sol";
+export * as iFactCheckReviewSol from "./IFactCheckReview.sol";
+export * as mocks from "./mocks";
@@ -0,0 +1,111 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockVotes,
+  MockVotesInterface,
+} from "../../../contracts/mocks/MockVotes";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "FutureLookup",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timepoint",
+        type: "uint256",
+      },
+    ],
+    name: "getPastVotes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "votes",
+        type: "uint256",
+      },
+    ],
+    name: "setVotes",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608080604052346100165761027c908161001b8239f35b5f80fdfe604060808152600480361015610013575f80fd5b5f3560e01c80633a46b1a81461016357638a8ac81314610031575f80fd5b3461015f5761003f36610185565b929060018060a01b03165f525f602052805f209081548015158061012d575b1561009857505080545f198101929083116100855750600191610080916101ab565b500155005b601190634e487b7160e01b5f525260245ffd5b909293918351938085019085821067ffffffffffffffff83111761011a5752438452602084019283526801000000000000000082101561010757906100e2916001820181556101ab565b9290926100f55751825551600190910155005b5f84634e487b7160e01b82525260245ffd5b604185634e487b7160e01b5f525260245ffd5b604187634e487b7160e01b5f525260245ffd5b505f19810181811161014c5761014390846101ab565b5054431461005e565b601185634e487b7160e01b5f525260245ffd5b5f80fd5b823461015f5760209061017e61017836610185565b906101d8565b9051908152f35b604090600319011261015f576004356001600160a01b038116810361015f579060243590565b80548210156101c4575f5260205f209060011b01905f90565b634e487b7160e01b5f52603260045260245ffd5b9190914383101561025d5760018060a01b03165f525f60205260405f20918254805b61020557505f925050565b5f198101818111610233578261021b82876101ab565b5054111561024757508015610233575f1901806101fa565b634e487b7160e01b5f52601160045260245ffd5b90506102579150600192936101ab565b50015490565b60405163014bf66160e11b8152600490fdfea164736f6c6343000818000a";
+
+type MockVotesConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockVotesConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockVotes__factory extends ContractFactory {
+  constructor(...args: MockVotesConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockVotes & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockVotes__factory {
+    return super.connect(runner) as MockVotes__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockVotesInterface {
+    return new Interface(_abi) as MockVotesInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): MockVotes {
+    return new Contract(address, _abi, runner) as unknown as MockVotes;
+  }
+}
@@ -22,5 +22,15 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { AIFactCheckFHE } from "./contracts/AI_FactCheck_Fhe.sol/AIFactCheckFHE";
+export { AIFactCheckFHE__factory } from "./factories/contracts/AI_FactCheck_Fhe.sol/AIFactCheckFHE__factory";
+export type { FactCheckReview } from "./contracts/FactCheckReview.sol/FactCheckReview";
+export { FactCheckReview__factory } from "./factories/contracts/FactCheckReview.sol/FactCheckReview__factory";
+export type { IVotes } from "./contracts/FactCheckReview.sol/IVotes";
+export { IVotes__factory } from "./factories/contracts/FactCheckReview.sol/IVotes__factory";
+export type { IFactCheckRegistry } from "./contracts/IFactCheckReview.sol/IFactCheckRegistry";
+export { IFactCheckRegistry__factory } from "./factories/contracts/IFactCheckReview.sol/IFactCheckRegistry__factory";
+export type { IFactCheckReview } from "./contracts/IFactCheckReview.sol/IFactCheckReview";
+export { IFactCheckReview__factory } from "./factories/contracts/IFactCheckReview.sol/IFactCheckReview__factory";
+export type { MockVotes } from "./contracts/mocks/MockVotes";
+export { MockVotes__factory } from "./factories/contracts/mocks/MockVotes__factory";
@@ -0,0 +1,64 @@
+// utils/deployments.ts
+import fs from "fs";
+import path from "path";
+import { execSync } from "child_process";
+import { ethers } from "ethers";
+
+export interface DeploymentRecord {
+  address: string;
+  deployBlock: number;
+  abiHash: string; // keccak256 of the ABI's JSON, to spot a frontend ABI that no longer matches
+  commit: string | null; // git commit the contract was built from; "-dirty" when the tree had changes
+  deployer: string;
+}
+
+export const FACT_CHECK_CONTRACT = "AIFactCheckFHE";
+
+// chainId -> contract name -> latest deployment
+export type DeploymentRegistry = Record<string, Record<string, DeploymentRecord>>;
+
+// Lives in the frontend sources so the app bundles it like config.json
+export const REGISTRY_PATH = path.join(__dirname, "..", "frontend", "web", "src", "deployments.json");
+
+export function abiHash(abi: unknown): string {
+  return ethers.id(JSON.stringify(abi));
+}
+
+export function readRegistry(): DeploymentRegistry {
+  if (!fs.existsSync(REGISTRY_PATH)) return {};
+  return JSON.parse(fs.readFileSync(REGISTRY_PATH, "utf-8"));
+}
+
+export function getDeployment(chainId: number | bigint, contractName: string): DeploymentRecord | undefined {
+  return readRegistry()[chainId.toString()]?.[contractName];
+}
+
+function gitCommit(): string | null {
+  try {
+    const commit = execSync("git rev-parse HEAD", { encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+    const dirty = execSync("git status --porcelain", { encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+    return dirty ? `${commit}-dirty` : commit;
+  } catch {
+    return null;
+  }
+}
+
+// Replaces the entry for (chainId, contractName); chains are kept in numeric
+// order so re-deploying one chain gives a small diff
+export function recordDeployment(
+  chainId: number | bigint,
+  contractName: string,
+  deployment: Omit<DeploymentRecord, "commit">
+): DeploymentRecord {
+  const registry = readRegistry();
+  const record: DeploymentRecord = {
+    ...deployment,
+    address: ethers.getAddress(deployment.address),
+    commit: gitCommit(),
+  };
+  registry[chainId.toString()] = { ...registry[chainId.toString()], [contractName]: record };
+
+  const sorted = Object.fromEntries(Object.entries(registry).sort(([a], [b]) => Number(a) - Number(b)));
+  fs.writeFileSync(REGISTRY_PATH, JSON.stringify(sorted, null, 2) + "\n");
+  return record;
+}
@@ -0,0 +1,41 @@
+// utils/factCheckContract.ts
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { AIFactCheckFHE } from "../types";
+import { FACT_CHECK_CONTRACT, getDeployment } from "./deployments";
+
+export interface ResolvedFactCheck {
+  factCheck: AIFactCheckFHE;
+  fromBlock: number; // deploy block, where event scans can start
+}
+
+// Finds the contract a task should talk to: an explicit --address, then the
+// deployments registry, then hardhat-deploy's own records. The in-process
+// network starts empty every run, so there it is deployed on the spot.
+export async function resolveFactCheck(hre: HardhatRuntimeEnvironment, address?: string): Promise<ResolvedFactCheck> {
+  const { deployer } = await hre.getNamedAccounts();
+  const signer = await hre.ethers.getSigner(deployer);
+  const at = async (target: string, fromBlock: number): Promise<ResolvedFactCheck> => ({
+    factCheck: (await hre.ethers.getContractAt(FACT_CHECK_CONTRACT, target, signer)) as unknown as AIFactCheckFHE,
+    fromBlock,
+  });
+
+  if (address) return at(address, 0);
+
+  // Chain 31337 entries belong to a local node, not to the in-process network
+  if (hre.network.name !== "hardhat") {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const recorded = getDeployment(chainId, FACT_CHECK_CONTRACT);
+    if (recorded) return at(recorded.address, recorded.deployBlock);
+  }
+
+  let deployment = await hre.deployments.getOrNull(FACT_CHECK_CONTRACT);
+  if (!deployment && hre.network.name === "hardhat") {
+    await hre.run("compile", { quiet: true });
+    await hre.deployments.fixture([FACT_CHECK_CONTRACT]);
+    deployment = await hre.deployments.getOrNull(FACT_CHECK_CONTRACT);
+  }
+  if (!deployment) {
+    throw new Error(`${FACT_CHECK_CONTRACT} is not deployed on ${hre.network.name}; deploy it or pass --address`);
+  }
+  return at(deployment.address, deployment.receipt?.blockNumber ?? 0);
+}
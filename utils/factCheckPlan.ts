@@ -0,0 +1,90 @@
+// utils/factCheckPlan.ts
+import { ContractTransactionResponse } from "ethers";
+import { AIFactCheckFHE } from "../types";
+import { FactCheckSettings } from "./factCheckSettings";
+
+export interface OnChainState {
+  providers: string[];
+  cooldownSeconds: number;
+  batchOpen: boolean; // a batch past its deadline counts as closed
+  paused: boolean;
+}
+
+export interface Change {
+  action: "unpause" | "addProvider" | "removeProvider" | "setCooldown" | "openBatch" | "closeBatch" | "pause";
+  description: string;
+  send: (factCheck: AIFactCheckFHE) => Promise<ContractTransactionResponse>;
+}
+
+export async function readOnChainState(factCheck: AIFactCheckFHE): Promise<OnChainState> {
+  const providers = await factCheck.getRoleMembers(await factCheck.PROVIDER_ROLE());
+
+  const [cooldownSeconds, currentBatchId, paused] = await Promise.all([
+    factCheck.cooldownSeconds(),
+    factCheck.currentBatchId(),
+    factCheck.paused(),
+  ]);
+  const batchOpen = currentBatchId > 0n && (await factCheck.getBatchSummary(currentBatchId)).open;
+
+  return { providers: [...providers], cooldownSeconds: Number(cooldownSeconds), batchOpen, paused };
+}
+
+// Only what differs ends up in the plan. Batch changes revert while the
+// contract is paused, so unpausing comes first and pausing last; a batch
+// change on a contract that stays paused is wrapped in unpause/pause.
+export function planChanges(settings: FactCheckSettings, state: OnChainState): Change[] {
+  const changes: Change[] = [];
+
+  const batchChange =
+    settings.batchOpen !== undefined && settings.batchOpen !== state.batchOpen
+      ? settings.batchOpen
+        ? { action: "openBatch" as const, description: "openBatch", send: (c: AIFactCheckFHE) => c.openBatch() }
+        : { action: "closeBatch" as const, description: "closeBatch", send: (c: AIFactCheckFHE) => c.closeBatch() }
+      : null;
+  const wantPaused = settings.paused ?? state.paused;
+  const unpause = state.paused && (!wantPaused || batchChange !== null);
+
+  if (unpause) {
+    changes.push({ action: "unpause", description: "unpause", send: (c) => c.unpause() });
+  }
+
+  if (settings.providers) {
+    const wanted = new Set(settings.providers);
+    for (const provider of state.providers.filter((p) => !wanted.has(p))) {
+      changes.push({ action: "removeProvider", description: `removeProvider ${provider}`, send: (c) => c.removeProvider(provider) });
+    }
+    for (const provider of settings.providers.filter((p) => !state.providers.includes(p))) {
+      changes.push({ action: "addProvider", description: `addProvider ${provider}`, send: (c) => c.addProvider(provider) });
+    }
+  }
+
+  if (settings.cooldownSeconds !== undefined && settings.cooldownSeconds !== state.cooldownSeconds) {
+    changes.push({
+      action: "setCooldown",
+      description: `setCooldown ${state.cooldownSeconds}s -> ${settings.cooldownSeconds}s`,
+      send: (c) => c.setCooldown(settings.cooldownSeconds!),
+    });
+  }
+
+  if (batchChange) changes.push(batchChange);
+
+  if (wantPaused && (!state.paused || unpause)) {
+    changes.push({ action: "pause", description: "pause", send: (c) => c.pause() });
+  }
+
+  return changes;
+}
+
+export function formatPlan(changes: Change[]): string {
+  if (changes.length === 0) return "No changes; on-chain state matches the settings";
+  return changes.map((change, i) => `  ${i + 1}. ${change.description}`).join("\n");
+}
+
+// Sends the changes one at a time, waiting for each to be mined, so a revert
+// stops the run with everything before it applied
+export async function applyChanges(factCheck: AIFactCheckFHE, changes: Change[]): Promise<void> {
+  for (const change of changes) {
+    const receipt = await (await change.send(factCheck)).wait();
+    console.log(`${change.description} (tx ${receipt!.hash})`);
+  }
+}
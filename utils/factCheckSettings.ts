@@ -0,0 +1,54 @@
+// utils/factCheckSettings.ts
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+
+// Desired state of an AIFactCheckFHE deployment on one network, kept in
+// config/<network>.json so every environment is set up the same way. Settings
+// that are omitted are left as they are on chain.
+export interface FactCheckSettings {
+  owner?: string; // receives every role at construction; defaults to the deployer
+  salt?: string; // CREATE2 salt; the same salt, owner and bytecode give the same address on every chain
+  providers?: string[]; // the complete set: the owner is a provider from construction and is removed unless listed
+  cooldownSeconds?: number;
+  batchOpen?: boolean;
+  paused?: boolean;
+}
+
+export const SETTINGS_DIR = path.join(__dirname, "..", "config");
+
+export function settingsPath(networkName: string): string {
+  return path.join(SETTINGS_DIR, `${networkName}.json`);
+}
+
+export function loadSettings(networkName: string): FactCheckSettings {
+  const file = settingsPath(networkName);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No settings for network "${networkName}"; create ${path.relative(process.cwd(), file)}`);
+  }
+  const raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+
+  const fail = (message: string): never => {
+    throw new Error(`${path.relative(process.cwd(), file)}: ${message}`);
+  };
+  const address = (value: unknown, field: string) =>
+    typeof value === "string" && ethers.isAddress(value) ? ethers.getAddress(value) : fail(`${field} is not an address`);
+
+  if (raw.providers !== undefined && !Array.isArray(raw.providers)) fail("providers must be a list of addresses");
+  if (raw.cooldownSeconds !== undefined && (!Number.isSafeInteger(raw.cooldownSeconds) || raw.cooldownSeconds < 0)) {
+    fail("cooldownSeconds must be a whole number of seconds");
+  }
+  if (raw.salt !== undefined && !ethers.isHexString(raw.salt, 32)) fail("salt must be a 32-byte hex string");
+  for (const field of ["batchOpen", "paused"]) {
+    if (raw[field] !== undefined && typeof raw[field] !== "boolean") fail(`${field} must be true or false`);
+  }
+
+  return {
+    owner: raw.owner === undefined ? undefined : address(raw.owner, "owner"),
+    salt: raw.salt,
+    providers: raw.providers?.map((p: unknown, i: number) => address(p, `providers[${i}]`)),
+    cooldownSeconds: raw.cooldownSeconds,
+    batchOpen: raw.batchOpen,
+    paused: raw.paused,
+  };
+}
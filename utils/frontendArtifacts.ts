@@ -0,0 +1,34 @@
+// utils/frontendArtifacts.ts
+import fs from "fs";
+import path from "path";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+export const FRONTEND_ABI_DIR = path.join(__dirname, "..", "frontend", "web", "src", "abi");
+
+// Rewrites a file only when its content changed, so the dev server does not reload for nothing
+function writeIfChanged(file: string, content: string): boolean {
+  if (fs.existsSync(file) && fs.readFileSync(file, "utf8") === content) return false;
+  fs.writeFileSync(file, content);
+  return true;
+}
+
+// The frontend builds on its own, so it gets copies of the artifact and of the
+// TypeChain binding. The binding imports TypeChain's shared helpers from
+// ../../common; the copy imports them from the common.ts placed beside it.
+export async function writeFrontendArtifacts(hre: HardhatRuntimeEnvironment, contractName: string): Promise<string[]> {
+  const artifact = await hre.artifacts.readArtifact(contractName);
+  const written: string[] = [];
+  const write = (name: string, content: string) => {
+    if (writeIfChanged(path.join(FRONTEND_ABI_DIR, name), content)) written.push(name);
+  };
+
+  write(`${contractName}.json`, JSON.stringify(artifact, null, 2));
+
+  const typesDir = path.join(hre.config.paths.root, hre.config.typechain.outDir);
+  const binding = path.join(typesDir, artifact.sourceName, `${contractName}.ts`);
+  if (fs.existsSync(binding)) {
+    write(`${contractName}.ts`, fs.readFileSync(binding, "utf8").replace(/from "(\.\.\/)+common"/, 'from "./common"'));
+    write("common.ts", fs.readFileSync(path.join(typesDir, "common.ts"), "utf8"));
+  }
+  return written;
+}
@@ -0,0 +1,34 @@
+// utils/taskOutput.ts
+export type Cell = string | number | bigint | boolean | null | undefined;
+export type Row = Record<string, Cell>;
+
+const show = (value: Cell) => (value === null || value === undefined ? "-" : String(value));
+
+// Columns are the union of the rows' keys, in first-seen order
+export function formatTable(rows: Row[]): string {
+  if (rows.length === 0) return "(none)";
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const widths = columns.map((column) => Math.max(column.length, ...rows.map((row) => show(row[column]).length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd();
+  return [
+    line(columns),
+    line(widths.map((width) => "-".repeat(width))),
+    ...rows.map((row) => line(columns.map((column) => show(row[column])))),
+  ].join("\n");
+}
+
+// JSON has no bigints, so they print as decimal strings
+export function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2));
+}
+
+// A single record prints as field/value pairs, a list as one row per entry;
+// --json prints the same data through printJson
+export function printResult(result: Row | Row[], json: boolean): void {
+  if (json) {
+    printJson(result);
+    return;
+  }
+  const rows = Array.isArray(result) ? result : Object.entries(result).map(([field, value]) => ({ field, value }));
+  console.log(formatTable(rows));
+}